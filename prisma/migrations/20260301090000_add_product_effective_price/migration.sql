@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "effectivePrice" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill
+UPDATE "Product" SET "effectivePrice" = GREATEST("basePrice" - COALESCE("discount", 0), 0);
+
+ALTER TABLE "Product" ALTER COLUMN "effectivePrice" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Product_status_visibility_idx" ON "Product"("status", "visibility");
+
+-- CreateIndex
+CREATE INDEX "Product_effectivePrice_idx" ON "Product"("effectivePrice");
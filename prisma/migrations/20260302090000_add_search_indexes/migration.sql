@@ -0,0 +1,21 @@
+-- Enable trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Product_search_document_idx" ON "Product" USING GIN (
+  (setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'C'))
+);
+
+-- CreateIndex
+CREATE INDEX "Product_name_trgm_idx" ON "Product" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Shop_search_document_idx" ON "Shop" USING GIN (
+  (setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'C'))
+);
+
+-- CreateIndex
+CREATE INDEX "Shop_name_trgm_idx" ON "Shop" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Category_name_trgm_idx" ON "Category" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Category" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_position_idx" ON "Category"("parentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "InventoryMovementType" AS ENUM ('RESTOCK', 'SALE', 'RETURN', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "StockReservationStatus" AS ENUM ('ACTIVE', 'COMMITTED', 'RELEASED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "reserved" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Inventory" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- Backfill an inventory row for every variant from its stock column
+INSERT INTO "Inventory" ("id", "productVariantId", "productId", "quantity", "updatedAt")
+SELECT gen_random_uuid()::text, v."id", v."productId", v."stock", CURRENT_TIMESTAMP
+FROM "ProductVariant" v
+WHERE NOT EXISTS (SELECT 1 FROM "Inventory" i WHERE i."productVariantId" = v."id");
+
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "type" "InventoryMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "reason" TEXT,
+    "reference" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" TEXT NOT NULL,
+    "productVariantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" "StockReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "reference" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- Opening balance so the ledger sums to the current quantity
+INSERT INTO "InventoryMovement" ("id", "inventoryId", "type", "quantity", "balanceAfter", "reason")
+SELECT gen_random_uuid()::text, i."id", 'ADJUSTMENT', i."quantity", i."quantity", 'Opening balance'
+FROM "Inventory" i
+WHERE i."quantity" <> 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Inventory_productVariantId_key" ON "Inventory"("productVariantId");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_inventoryId_createdAt_idx" ON "InventoryMovement"("inventoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_reference_idx" ON "StockReservation"("reference");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "StockReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_productVariantId_fkey" FOREIGN KEY ("productVariantId") REFERENCES "ProductVariant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "ProductImage" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "key" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep only the first primary image per product before adding the constraint
+UPDATE "ProductImage" i SET "isPrimary" = false
+WHERE i."isPrimary" AND EXISTS (
+  SELECT 1 FROM "ProductImage" o
+  WHERE o."productId" = i."productId" AND o."isPrimary" AND o."id" < i."id"
+);
+
+-- CreateIndex
+CREATE INDEX "ProductImage_productId_position_idx" ON "ProductImage"("productId", "position");
+
+-- Exactly one primary image per product
+CREATE UNIQUE INDEX "ProductImage_productId_primary_key" ON "ProductImage"("productId") WHERE "isPrimary";
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ProductImage" ADD COLUMN     "derivatives" JSONB;
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "bannerDerivatives" JSONB,
+ADD COLUMN     "logoDerivatives" JSONB;
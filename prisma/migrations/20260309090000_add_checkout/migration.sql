@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "shippingAddress" JSONB,
+ADD COLUMN     "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Order" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- Existing orders: subtotal equals total
+UPDATE "Order" SET "subtotal" = "total";
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "lineTotal" DOUBLE PRECISION,
+ADD COLUMN     "productName" TEXT,
+ADD COLUMN     "productVariantId" TEXT,
+ADD COLUMN     "shopOrderId" TEXT,
+ADD COLUMN     "variantAttributes" JSONB,
+ADD COLUMN     "variantSku" TEXT;
+
+-- Backfill snapshots of existing order items from the current product
+UPDATE "OrderItem" oi
+SET "productName" = p."name",
+    "lineTotal" = oi."price" * oi."quantity"
+FROM "Product" p
+WHERE p."id" = oi."productId";
+
+ALTER TABLE "OrderItem" ALTER COLUMN "lineTotal" SET NOT NULL,
+ALTER COLUMN "productName" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "ShopOrder" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "status" "OrderStatus" NOT NULL DEFAULT 'PENDING',
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_userId_idempotencyKey_key" ON "Order"("userId", "idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "ShopOrder_shopId_createdAt_idx" ON "ShopOrder"("shopId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopOrder_orderId_shopId_key" ON "ShopOrder"("orderId", "shopId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_shopOrderId_idx" ON "OrderItem"("shopOrderId");
+
+-- AddForeignKey
+ALTER TABLE "ShopOrder" ADD CONSTRAINT "ShopOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShopOrder" ADD CONSTRAINT "ShopOrder_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_productVariantId_fkey" FOREIGN KEY ("productVariantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
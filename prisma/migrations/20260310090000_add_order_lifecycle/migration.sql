@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ShopOrder" ADD COLUMN     "carrier" TEXT,
+ADD COLUMN     "trackingNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderStatusTransition" (
+    "id" TEXT NOT NULL,
+    "shopOrderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus" NOT NULL,
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusTransition_shopOrderId_createdAt_idx" ON "OrderStatusTransition"("shopOrderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusTransition" ADD CONSTRAINT "OrderStatusTransition_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
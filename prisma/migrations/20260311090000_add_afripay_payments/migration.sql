@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "checkoutUrl" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'RWF',
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "reference" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Payment" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_provider_reference_key" ON "Payment"("provider", "reference");
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_idx" ON "Payment"("orderId");
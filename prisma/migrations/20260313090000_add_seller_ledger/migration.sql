@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('SALE', 'REFUND');
+
+-- AlterTable
+ALTER TABLE "SellerPayout" ADD COLUMN     "grossAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "commissionAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "paidById" TEXT,
+ADD COLUMN     "paymentReference" TEXT,
+ADD COLUMN     "note" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "status" TYPE "PayoutStatus" USING ("status"::"PayoutStatus");
+
+-- AlterTable
+ALTER TABLE "SellerPayout" ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "SellerLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "shopOrderId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "grossAmount" DOUBLE PRECISION NOT NULL,
+    "commissionRate" DOUBLE PRECISION NOT NULL,
+    "commissionAmount" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "period" TEXT NOT NULL,
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SellerLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerPayout_sellerId_period_key" ON "SellerPayout"("sellerId", "period");
+
+-- CreateIndex
+CREATE INDEX "SellerPayout_status_period_idx" ON "SellerPayout"("status", "period");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_sellerId_payoutId_idx" ON "SellerLedgerEntry"("sellerId", "payoutId");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_payoutId_idx" ON "SellerLedgerEntry"("payoutId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerLedgerEntry_type_reference_key" ON "SellerLedgerEntry"("type", "reference");
+
+-- AddForeignKey
+ALTER TABLE "SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "Seller"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "SellerPayout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
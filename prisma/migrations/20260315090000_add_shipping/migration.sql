@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ShippingMethod" AS ENUM ('STANDARD', 'EXPRESS', 'PICKUP');
+
+-- CreateEnum
+CREATE TYPE "ShippingRateType" AS ENUM ('FLAT', 'WEIGHT');
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "weight" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ShopOrder" ADD COLUMN     "shippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingMethod" "ShippingMethod",
+ADD COLUMN     "minDeliveryDays" INTEGER,
+ADD COLUMN     "maxDeliveryDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "cities" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "method" "ShippingMethod" NOT NULL,
+    "rateType" "ShippingRateType" NOT NULL DEFAULT 'FLAT',
+    "baseFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "perKgFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "freeShippingThreshold" DOUBLE PRECISION,
+    "minDeliveryDays" INTEGER NOT NULL,
+    "maxDeliveryDays" INTEGER NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_shopId_idx" ON "ShippingZone"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShippingRate_zoneId_method_key" ON "ShippingRate"("zoneId", "method");
+
+-- AddForeignKey
+ALTER TABLE "ShippingZone" ADD CONSTRAINT "ShippingZone_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
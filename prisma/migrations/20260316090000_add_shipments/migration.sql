@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "ShipmentStatus" AS ENUM ('IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'FAILED_ATTEMPT', 'RETURNED');
+
+-- CreateEnum
+CREATE TYPE "TrackingEventSource" AS ENUM ('SELLER', 'CARRIER');
+
+-- CreateTable
+CREATE TABLE "Shipment" (
+    "id" TEXT NOT NULL,
+    "shopOrderId" TEXT NOT NULL,
+    "carrier" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL DEFAULT 'IN_TRANSIT',
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shipment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShipmentEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "source" "TrackingEventSource" NOT NULL,
+    "externalId" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shipment_shopOrderId_key" ON "Shipment"("shopOrderId");
+
+-- CreateIndex
+CREATE INDEX "Shipment_trackingNumber_idx" ON "Shipment"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShipmentEvent_shipmentId_externalId_key" ON "ShipmentEvent"("shipmentId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "ShipmentEvent_shipmentId_occurredAt_idx" ON "ShipmentEvent"("shipmentId", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_shopOrderId_fkey" FOREIGN KEY ("shopOrderId") REFERENCES "ShopOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShipmentEvent" ADD CONSTRAINT "ShipmentEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Shop orders shipped before tracking existed get a shipment from their carrier and tracking number
+INSERT INTO "Shipment" ("id", "shopOrderId", "carrier", "trackingNumber", "status", "deliveredAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, so."id", so."carrier", so."trackingNumber",
+       CASE WHEN so."status" = 'DELIVERED' THEN 'DELIVERED'::"ShipmentStatus" ELSE 'IN_TRANSIT'::"ShipmentStatus" END,
+       CASE WHEN so."status" = 'DELIVERED' THEN so."updatedAt" END,
+       so."updatedAt", so."updatedAt"
+FROM "ShopOrder" so
+WHERE so."carrier" IS NOT NULL AND so."trackingNumber" IS NOT NULL;
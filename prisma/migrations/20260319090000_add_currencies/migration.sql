@@ -0,0 +1,96 @@
+-- Amounts become integer minor units of their currency. Everything so far was
+-- priced in RWF, which has no minor unit, so values only lose float noise.
+
+-- DropIndex
+DROP INDEX "SellerPayout_sellerId_period_key";
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'RWF';
+
+-- AlterTable
+ALTER TABLE "Product" ALTER COLUMN "basePrice" SET DATA TYPE INTEGER USING ROUND("basePrice"),
+ALTER COLUMN "discount" SET DATA TYPE INTEGER USING ROUND("discount"),
+ALTER COLUMN "effectivePrice" SET DATA TYPE INTEGER USING ROUND("effectivePrice");
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price");
+
+-- AlterTable
+ALTER TABLE "CartItem" ALTER COLUMN "unitPrice" SET DATA TYPE INTEGER USING ROUND("unitPrice");
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'RWF',
+ADD COLUMN     "displayCurrency" TEXT,
+ADD COLUMN     "exchangeRate" DOUBLE PRECISION,
+ALTER COLUMN "subtotal" SET DATA TYPE INTEGER USING ROUND("subtotal"),
+ALTER COLUMN "discount" SET DATA TYPE INTEGER USING ROUND("discount"),
+ALTER COLUMN "shippingFee" SET DATA TYPE INTEGER USING ROUND("shippingFee"),
+ALTER COLUMN "taxAmount" SET DATA TYPE INTEGER USING ROUND("taxAmount"),
+ALTER COLUMN "total" SET DATA TYPE INTEGER USING ROUND("total");
+
+-- AlterTable
+ALTER TABLE "ShopOrder" ALTER COLUMN "subtotal" SET DATA TYPE INTEGER USING ROUND("subtotal"),
+ALTER COLUMN "discount" SET DATA TYPE INTEGER USING ROUND("discount"),
+ALTER COLUMN "shippingFee" SET DATA TYPE INTEGER USING ROUND("shippingFee"),
+ALTER COLUMN "taxAmount" SET DATA TYPE INTEGER USING ROUND("taxAmount"),
+ALTER COLUMN "total" SET DATA TYPE INTEGER USING ROUND("total");
+
+-- AlterTable
+ALTER TABLE "OrderItem" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price"),
+ALTER COLUMN "discount" SET DATA TYPE INTEGER USING ROUND("discount"),
+ALTER COLUMN "lineTotal" SET DATA TYPE INTEGER USING ROUND("lineTotal"),
+ALTER COLUMN "taxAmount" SET DATA TYPE INTEGER USING ROUND("taxAmount");
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "total" SET DATA TYPE INTEGER USING ROUND("total");
+
+-- AlterTable
+ALTER TABLE "Coupon" ALTER COLUMN "maxDiscount" SET DATA TYPE INTEGER USING ROUND("maxDiscount"),
+ALTER COLUMN "minOrderValue" SET DATA TYPE INTEGER USING ROUND("minOrderValue");
+
+-- AlterTable
+ALTER TABLE "CouponRedemption" ALTER COLUMN "discount" SET DATA TYPE INTEGER USING ROUND("discount");
+
+-- AlterTable
+ALTER TABLE "ShippingRate" ALTER COLUMN "baseFee" SET DATA TYPE INTEGER USING ROUND("baseFee"),
+ALTER COLUMN "perKgFee" SET DATA TYPE INTEGER USING ROUND("perKgFee"),
+ALTER COLUMN "freeShippingThreshold" SET DATA TYPE INTEGER USING ROUND("freeShippingThreshold");
+
+-- AlterTable
+ALTER TABLE "ReturnRequest" ALTER COLUMN "requestedAmount" SET DATA TYPE INTEGER USING ROUND("requestedAmount"),
+ALTER COLUMN "refundAmount" SET DATA TYPE INTEGER USING ROUND("refundAmount");
+
+-- AlterTable
+ALTER TABLE "ReturnItem" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount");
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount"),
+ALTER COLUMN "refundedAmount" SET DATA TYPE INTEGER USING ROUND("refundedAmount");
+
+-- AlterTable
+ALTER TABLE "SellerPayout" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'RWF',
+ALTER COLUMN "grossAmount" SET DATA TYPE INTEGER USING ROUND("grossAmount"),
+ALTER COLUMN "commissionAmount" SET DATA TYPE INTEGER USING ROUND("commissionAmount"),
+ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount");
+
+-- AlterTable
+ALTER TABLE "SellerLedgerEntry" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'RWF',
+ALTER COLUMN "grossAmount" SET DATA TYPE INTEGER USING ROUND("grossAmount"),
+ALTER COLUMN "commissionAmount" SET DATA TYPE INTEGER USING ROUND("commissionAmount"),
+ALTER COLUMN "netAmount" SET DATA TYPE INTEGER USING ROUND("netAmount");
+
+-- AlterTable
+ALTER TABLE "SellerSubscription" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price");
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "currency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("currency")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerPayout_sellerId_period_currency_key" ON "SellerPayout"("sellerId", "period", "currency");
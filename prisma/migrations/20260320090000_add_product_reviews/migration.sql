@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "rating" DOUBLE PRECISION,
+ADD COLUMN     "ratingCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "orderItemId" TEXT,
+ADD COLUMN     "verifiedPurchase" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "photos" JSONB,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE "Review" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- Existing reviews count towards the product ratings
+UPDATE "Product" p
+SET "ratingTotal" = r."total",
+    "ratingCount" = r."count",
+    "rating" = r."total"::DOUBLE PRECISION / r."count"
+FROM (
+    SELECT "productId", SUM("rating")::INTEGER AS "total", COUNT(*)::INTEGER AS "count"
+    FROM "Review"
+    GROUP BY "productId"
+) r
+WHERE p."id" = r."productId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_userId_productId_key" ON "Review"("userId", "productId");
+
+-- CreateIndex
+CREATE INDEX "Review_productId_createdAt_idx" ON "Review"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
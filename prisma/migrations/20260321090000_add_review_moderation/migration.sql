@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PUBLISHED', 'PENDING', 'HIDDEN');
+
+-- DropIndex
+DROP INDEX "Review_productId_createdAt_idx";
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "status" "ReviewStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "moderationNote" TEXT,
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "sellerReply" TEXT,
+ADD COLUMN     "sellerRepliedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ShopReview" ADD COLUMN     "status" "ReviewStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "moderationNote" TEXT,
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "sellerReply" TEXT,
+ADD COLUMN     "sellerRepliedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "ratingTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- Shop ratings are now kept up to date incrementally from this total
+UPDATE "Shop" s
+SET "ratingTotal" = r."total",
+    "ratingCount" = r."count",
+    "rating" = r."total"::DOUBLE PRECISION / r."count"
+FROM (
+    SELECT "shopId", SUM("rating")::INTEGER AS "total", COUNT(*)::INTEGER AS "count"
+    FROM "ShopReview"
+    GROUP BY "shopId"
+) r
+WHERE s."id" = r."shopId";
+
+-- CreateTable
+CREATE TABLE "ReviewReport" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT,
+    "shopReviewId" TEXT,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_productId_status_createdAt_idx" ON "Review"("productId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_status_idx" ON "Review"("status");
+
+-- CreateIndex
+CREATE INDEX "ShopReview_shopId_status_createdAt_idx" ON "ShopReview"("shopId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ShopReview_status_idx" ON "ShopReview"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewReport_reviewId_userId_key" ON "ReviewReport"("reviewId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewReport_shopReviewId_userId_key" ON "ReviewReport"("shopReviewId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_shopReviewId_fkey" FOREIGN KEY ("shopReviewId") REFERENCES "ShopReview"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
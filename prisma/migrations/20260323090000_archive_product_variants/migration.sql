@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN "archivedAt" TIMESTAMP(3);
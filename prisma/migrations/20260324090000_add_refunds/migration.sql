@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "returnRequestId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "reference" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Refund_paymentId_idx" ON "Refund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Refund_returnRequestId_idx" ON "Refund"("returnRequestId");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_updatedAt_idx" ON "Refund"("status", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "ReturnRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Refunds already issued for returns, so pending ones get reconciled with their provider
+INSERT INTO "Refund" ("id", "paymentId", "returnRequestId", "amount", "currency", "status", "reason", "reference", "completedAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, r."paymentId", r."id", r."refundAmount", p."currency", r."refundStatus"::text::"RefundStatus", 'Return ' || r."id", r."refundReference",
+       CASE WHEN r."refundStatus" = 'COMPLETED' THEN r."updatedAt" END, r."updatedAt", r."updatedAt"
+FROM "ReturnRequest" r
+JOIN "Payment" p ON p."id" = r."paymentId"
+WHERE r."refundStatus" IS NOT NULL AND r."refundAmount" IS NOT NULL;
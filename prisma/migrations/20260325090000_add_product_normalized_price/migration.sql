@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "normalizedPrice" INTEGER;
+
+-- Backfill: prices of the platform currency (RWF, no minor units) as they are, others at the current exchange rate
+UPDATE "Product" p SET "normalizedPrice" = p."effectivePrice"
+FROM "Shop" s
+WHERE s."id" = p."shopId" AND s."currency" = 'RWF';
+
+UPDATE "Product" p SET "normalizedPrice" = ROUND(p."effectivePrice" / power(10, d."decimals") / r."rate")::int
+FROM "Shop" s
+JOIN "ExchangeRate" r ON r."currency" = s."currency"
+JOIN (VALUES ('USD', 2), ('EUR', 2), ('KES', 2)) AS d ("currency", "decimals") ON d."currency" = s."currency"
+WHERE s."id" = p."shopId";
+
+-- CreateIndex
+CREATE INDEX "Product_normalizedPrice_idx" ON "Product"("normalizedPrice");
@@ -0,0 +1,42 @@
+export interface DerivativeSize {
+  name: 'thumbnail' | 'medium' | 'large';
+  width: number;
+}
+
+export const imageConfig = {
+  webpQuality: parseInt(process.env.IMAGE_WEBP_QUALITY || '80', 10),
+  derivatives: {
+    product: [
+      { name: 'thumbnail', width: 200 },
+      { name: 'medium', width: 600 },
+      { name: 'large', width: 1200 },
+    ] as DerivativeSize[],
+    logo: [
+      { name: 'thumbnail', width: 64 },
+      { name: 'medium', width: 160 },
+      { name: 'large', width: 400 },
+    ] as DerivativeSize[],
+    banner: [
+      { name: 'thumbnail', width: 480 },
+      { name: 'medium', width: 1200 },
+      { name: 'large', width: 1920 },
+    ] as DerivativeSize[],
+    return: [
+      { name: 'thumbnail', width: 200 },
+      { name: 'large', width: 1200 },
+    ] as DerivativeSize[],
+    review: [
+      { name: 'thumbnail', width: 200 },
+      { name: 'large', width: 1200 },
+    ] as DerivativeSize[],
+  },
+  // Banners are shown as a wide strip across the shop page (roughly 4:1)
+  banner: {
+    minWidth: 1200,
+    minHeight: 300,
+    maxWidth: 6000,
+    maxHeight: 2000,
+    minAspectRatio: 2.5,
+    maxAspectRatio: 6,
+  },
+};
@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const DEFAULT_BLOCKED_WORDS = [
+  'asshole',
+  'bastard',
+  'bitch',
+  'cunt',
+  'dick',
+  'fuck',
+  'motherfucker',
+  'shit',
+  'slut',
+  'whore',
+];
+
+export const moderationConfig = {
+  // REVIEW_BLOCKED_WORDS adds comma-separated words, e.g. in Kinyarwanda or French
+  blockedWords: [
+    ...DEFAULT_BLOCKED_WORDS,
+    ...(process.env.REVIEW_BLOCKED_WORDS || '')
+      .split(',')
+      .map((word) => word.trim().toLowerCase())
+      .filter(Boolean),
+  ],
+  // Links in reviews are usually spam or attempts to take the sale off the platform
+  holdLinks: process.env.REVIEW_HOLD_LINKS !== 'false',
+};
@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const backendUrl = process.env.BACKEND_URL || 'http://localhost:4000';
+
+// Where a provider posts its notifications, e.g. /api/v1/payments/webhooks/mtn-momo
+export function getPaymentCallbackUrl(providerSlug: string): string {
+  return `${backendUrl}/api/v1/payments/webhooks/${providerSlug}`;
+}
+
+export const paymentConfig = {
+  // Platform currency: the default for shops and the base of exchange rates
+  currency: process.env.PAYMENT_CURRENCY || 'RWF',
+  returnUrl: process.env.PAYMENT_RETURN_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/orders`,
+  timeoutMs: parseInt(process.env.PAYMENT_TIMEOUT_MS || '15000', 10),
+  // In-process provider that never leaves the server, for tests and local development only
+  fakeProviderEnabled: process.env.PAYMENT_FAKE_PROVIDER === 'true',
+  // Pending refunds are checked with their provider on this schedule (UTC)
+  refundReconcileSchedule: process.env.REFUND_RECONCILE_CRON || '*/15 * * * *',
+};
+
+// Point AFRIPAY_BASE_URL at the mock server (npm run mock:afripay) to test payments locally
+export const afripayConfig = {
+  baseUrl: process.env.AFRIPAY_BASE_URL || 'https://www.afripay.africa',
+  appId: process.env.AFRIPAY_APP_ID || '',
+  appSecret: process.env.AFRIPAY_APP_SECRET || '',
+  webhookSecret: process.env.AFRIPAY_WEBHOOK_SECRET || '',
+  callbackUrl: process.env.AFRIPAY_CALLBACK_URL || getPaymentCallbackUrl('afripay'),
+};
+
+export const mtnMomoConfig = {
+  baseUrl: process.env.MTN_MOMO_BASE_URL || 'https://sandbox.momodeveloper.mtn.com',
+  targetEnvironment: process.env.MTN_MOMO_TARGET_ENVIRONMENT || 'sandbox',
+  collection: {
+    subscriptionKey: process.env.MTN_MOMO_COLLECTION_SUBSCRIPTION_KEY || '',
+    apiUser: process.env.MTN_MOMO_COLLECTION_API_USER || '',
+    apiKey: process.env.MTN_MOMO_COLLECTION_API_KEY || '',
+  },
+  // Refunds go through the disbursement product, which has its own credentials
+  disbursement: {
+    subscriptionKey: process.env.MTN_MOMO_DISBURSEMENT_SUBSCRIPTION_KEY || '',
+    apiUser: process.env.MTN_MOMO_DISBURSEMENT_API_USER || '',
+    apiKey: process.env.MTN_MOMO_DISBURSEMENT_API_KEY || '',
+  },
+  callbackUrl: process.env.MTN_MOMO_CALLBACK_URL || getPaymentCallbackUrl('mtn-momo'),
+};
+
+export const airtelMoneyConfig = {
+  baseUrl: process.env.AIRTEL_MONEY_BASE_URL || 'https://openapiuat.airtel.africa',
+  clientId: process.env.AIRTEL_MONEY_CLIENT_ID || '',
+  clientSecret: process.env.AIRTEL_MONEY_CLIENT_SECRET || '',
+  country: process.env.AIRTEL_MONEY_COUNTRY || 'RW',
+};
+
+export const cashOnDeliveryConfig = {
+  enabled: process.env.PAYMENT_COD_ENABLED !== 'false',
+  // Larger orders must be paid upfront
+  maxAmount: parseFloat(process.env.PAYMENT_COD_MAX_AMOUNT || '500000'),
+};
+
+export const payoutConfig = {
+  // Platform share of each sale for sellers without a negotiated rate
+  defaultCommissionRate: parseFloat(process.env.DEFAULT_COMMISSION_RATE || '0.1'),
+  // Closed months are rolled into payouts on this schedule (UTC)
+  rollupSchedule: process.env.PAYOUT_ROLLUP_CRON || '0 2 * * *',
+};
+
+export const carrierWebhookConfig = {
+  // Shared with carriers to sign their tracking updates (HMAC-SHA256 of the raw body, hex)
+  secret: process.env.CARRIER_WEBHOOK_SECRET || '',
+};
+
+export const invoiceConfig = {
+  // Seller of record printed on invoices of whole orders
+  issuerName: process.env.INVOICE_ISSUER_NAME || 'E-Curuza',
+  issuerAddress: process.env.INVOICE_ISSUER_ADDRESS || 'Kigali, Rwanda',
+  issuerTaxId: process.env.INVOICE_ISSUER_TIN || '',
+  // Lifetime of the signed download links, in seconds
+  linkExpiresIn: parseInt(process.env.INVOICE_LINK_EXPIRES_IN || '300', 10),
+};
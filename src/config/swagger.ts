@@ -21,7 +21,17 @@ const options: swaggerJsdoc.Options = {
       { name: "Shops", description: "Shop management endpoints" },
       { name: "Products", description: "Product management endpoints" },
       { name: "Orders", description: "Order processing endpoints" },
-      { name: "Payments", description: "Afripay payment integration" },
+      { name: "Payments", description: "Afripay, mobile money and cash on delivery payments" },
+      { name: "Returns", description: "Return requests, seller review and refunds" },
+      { name: "Payouts", description: "Seller earnings ledger, commission and payouts" },
+      { name: "Coupons", description: "Discount codes for the platform and for shops" },
+      { name: "Shipping", description: "Shop shipping zones, rates and delivery options" },
+      { name: "Shipments", description: "Shipment tracking timelines and carrier updates" },
+      { name: "Taxes", description: "VAT and sales tax rates and category exemptions" },
+      { name: "Invoices", description: "PDF invoices of orders and shop orders" },
+      { name: "Currencies", description: "Supported currencies and exchange rates for display prices" },
+      { name: "Reviews", description: "Review reports, seller replies and moderation" },
+      { name: "Wishlists", description: "Named wishlists, shareable links and saved-item alerts" },
       { name: "Subscriptions", description: "Advertising and subscription plans" },
       { name: "Ads", description: "Product and shop promotion management" },
       { name: "Admin", description: "Admin management and moderation" },
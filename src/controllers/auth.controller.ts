@@ -16,6 +16,7 @@ import {
 } from '../utils/password.reset.js';
 import { createOrUpdateOTP, verifyOTP, deleteOTP } from '../utils/otp.utils.js';
 import { sendVerificationEmail, sendPasswordResetEmail, sendPasswordChangeConfirmationEmail } from '../services/email.service.js';
+import { mergeGuestCart } from '../services/cart.service.js';
 import type { AuthResponse, UserResponse, RegisterRequest, LoginRequest, AuthPayload, CustomerRegisterRequest, SellerRegisterRequest } from '../utils/type.js';
 
 const prisma = new PrismaClient();
@@ -323,6 +324,13 @@ export async function login(
       data: { lastLoginAt: new Date() },
     });
 
+    const cartToken = req.headers['x-cart-token'];
+    if (typeof cartToken === 'string' && cartToken) {
+      await mergeGuestCart(user.id, cartToken).catch((error) =>
+        logger.error(`Failed to merge guest cart for user ${user.id}`, { error })
+      );
+    }
+
     const authPayload: AuthPayload = {
       userId: user.id,
       email: user.email,
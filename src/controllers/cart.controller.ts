@@ -0,0 +1,149 @@
+import type { Response, NextFunction } from 'express';
+import createError from 'http-errors';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  findCart,
+  getOrCreateCart,
+  getCartView,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+} from '../services/cart.service.js';
+import type { CartOwner } from '../services/cart.service.js';
+import { getDisplayConverter, toDisplayAmounts } from '../services/currency.service.js';
+
+const CART_TOKEN_HEADER = 'x-cart-token';
+
+function getCartOwner(req: AuthenticatedRequest): CartOwner {
+  const userPayload = (req as any).user;
+  if (userPayload?.userId) return { userId: userPayload.userId };
+
+  const token = req.headers[CART_TOKEN_HEADER];
+  return { token: typeof token === 'string' && token ? token : undefined };
+}
+
+async function sendCart(res: Response, cartId: string, message: string, displayCurrency?: string) {
+  const cart = await getCartView(cartId);
+  // Guests must send this token back on every cart request
+  if (cart.token) res.setHeader('X-Cart-Token', cart.token);
+
+  if (!displayCurrency || !cart.currency) {
+    res.json(ApiResponseBuilder.success(message, cart));
+    return;
+  }
+
+  // Amounts in the customer's currency, next to the ones they will be charged
+  const converter = await getDisplayConverter(displayCurrency);
+  const currency = cart.currency;
+  res.json(ApiResponseBuilder.success(message, {
+    ...cart,
+    items: cart.items.map((item) => ({
+      ...item,
+      display: toDisplayAmounts(converter, currency, { unitPrice: item.unitPrice, lineTotal: item.lineTotal }),
+    })),
+    display: toDisplayAmounts(converter, currency, { subtotal: cart.subtotal }),
+  }));
+}
+
+export async function getCart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const cart = await findCart(getCartOwner(req));
+
+    if (!cart) {
+      res.json(ApiResponseBuilder.success('Cart retrieved', {
+        id: null,
+        token: null,
+        currency: null,
+        items: [],
+        unavailableItems: [],
+        itemCount: 0,
+        subtotal: 0,
+      }));
+      return;
+    }
+
+    const { currency } = req.query;
+    await sendCart(res, cart.id, 'Cart retrieved', typeof currency === 'string' ? currency : undefined);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addItemToCart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { variantId, quantity = 1 } = req.body;
+
+    const cart = await getOrCreateCart(getCartOwner(req));
+    await addCartItem(cart.id, variantId, Number(quantity));
+
+    await sendCart(res, cart.id, 'Item added to cart');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateCartItemQuantity(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { itemId } = req.params;
+    const { quantity } = req.body;
+
+    const cart = await findCart(getCartOwner(req));
+    if (!cart) throw createError(404, 'Cart not found');
+
+    await updateCartItem(cart.id, itemId as string, Number(quantity));
+
+    await sendCart(res, cart.id, 'Cart updated');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeItemFromCart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { itemId } = req.params;
+
+    const cart = await findCart(getCartOwner(req));
+    if (!cart) throw createError(404, 'Cart not found');
+
+    await removeCartItem(cart.id, itemId as string);
+
+    await sendCart(res, cart.id, 'Item removed from cart');
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function emptyCart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const cart = await findCart(getCartOwner(req));
+    if (!cart) throw createError(404, 'Cart not found');
+
+    await clearCart(cart.id);
+
+    await sendCart(res, cart.id, 'Cart cleared');
+  } catch (error) {
+    next(error);
+  }
+}
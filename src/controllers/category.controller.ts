@@ -0,0 +1,326 @@
+import type { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import createError from 'http-errors';
+import { logger } from '../utils/logger.js';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { generateSlug } from '../utils/slug.utils.js';
+import { buildCategoryTree, collectDescendantIds, getAncestors } from '../utils/category.utils.js';
+
+const prisma = new PrismaClient();
+
+const categorySelect = {
+  id: true,
+  parentId: true,
+  name: true,
+  slug: true,
+  description: true,
+  position: true,
+  status: true,
+};
+
+async function generateCategorySlug(name: string, parentId: string | null, excludeId?: string): Promise<string> {
+  const slug = generateSlug(name);
+  const existing = await prisma.category.findUnique({ where: { slug } });
+  if (!existing || existing.id === excludeId) return slug;
+
+  // Same name under a different parent, e.g. "Accessories" under both "Men" and "Women"
+  if (parentId) {
+    const parent = await prisma.category.findUnique({ where: { id: parentId } });
+    if (parent) {
+      const nestedSlug = `${parent.slug}-${slug}`;
+      const nestedExisting = await prisma.category.findUnique({ where: { slug: nestedSlug } });
+      if (!nestedExisting || nestedExisting.id === excludeId) return nestedSlug;
+    }
+  }
+
+  throw createError(400, 'Category name already exists. Please choose a different name');
+}
+
+export async function getCategoryTree(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const categories = await prisma.category.findMany({
+      where: { status: true },
+      select: {
+        ...categorySelect,
+        _count: { select: { products: { where: { status: 'ACTIVE', visibility: 'PUBLIC' } } } },
+      },
+    });
+
+    const response = ApiResponseBuilder.success('Category tree retrieved', buildCategoryTree(categories));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getCategoryBySlug(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { slug } = req.params;
+
+    const categories = await prisma.category.findMany({ where: { status: true }, select: categorySelect });
+    const category = categories.find((c) => c.slug === slug);
+    if (!category) throw createError(404, 'Category not found');
+
+    const ancestors = getAncestors(categories, category.id);
+    if (category.parentId && ancestors[0]?.parentId !== null) {
+      // An ancestor is disabled, so the category is not reachable from the public tree
+      throw createError(404, 'Category not found');
+    }
+
+    const [subtree] = buildCategoryTree(
+      categories
+        .filter((c) => collectDescendantIds(categories, category.id).includes(c.id))
+        .map((c) => (c.id === category.id ? { ...c, parentId: null } : c))
+    );
+
+    const response = ApiResponseBuilder.success('Category retrieved', {
+      ...category,
+      breadcrumb: ancestors.map((a) => ({ id: a.id, name: a.name, slug: a.slug })),
+      children: subtree?.children ?? [],
+    });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getAllCategories(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const categories = await prisma.category.findMany({
+      select: {
+        ...categorySelect,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { products: true, children: true } },
+      },
+    });
+
+    const response = ApiResponseBuilder.success('Categories retrieved', buildCategoryTree(categories));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createCategory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { name, description, parentId } = req.body;
+
+    if (parentId) {
+      const parent = await prisma.category.findUnique({ where: { id: parentId } });
+      if (!parent) throw createError(400, 'Parent category not found');
+    }
+
+    const slug = await generateCategorySlug(name, parentId || null);
+
+    const lastSibling = await prisma.category.findFirst({
+      where: { parentId: parentId || null },
+      orderBy: { position: 'desc' },
+    });
+
+    const category = await prisma.category.create({
+      data: {
+        name,
+        slug,
+        description,
+        parentId: parentId || null,
+        position: lastSibling ? lastSibling.position + 1 : 0,
+      },
+      select: categorySelect,
+    });
+
+    logger.info(`Category created: ${category.id} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.created('Category created successfully', category);
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateCategory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    const { name, description, parentId } = req.body;
+
+    const category = await prisma.category.findUnique({ where: { id: id as string } });
+    if (!category) throw createError(404, 'Category not found');
+
+    const updateData: any = {};
+    if (description !== undefined) updateData.description = description;
+
+    let newParentId = category.parentId;
+    if (parentId !== undefined && parentId !== category.parentId) {
+      newParentId = parentId || null;
+
+      if (newParentId) {
+        const allCategories = await prisma.category.findMany({ select: { id: true, parentId: true, position: true } });
+        if (!allCategories.some((c) => c.id === newParentId)) throw createError(400, 'Parent category not found');
+        if (collectDescendantIds(allCategories, category.id).includes(newParentId)) {
+          throw createError(400, 'A category cannot be moved under itself or one of its subcategories');
+        }
+      }
+
+      const lastSibling = await prisma.category.findFirst({
+        where: { parentId: newParentId },
+        orderBy: { position: 'desc' },
+      });
+      updateData.parentId = newParentId;
+      updateData.position = lastSibling ? lastSibling.position + 1 : 0;
+    }
+
+    if (name && name !== category.name) {
+      updateData.name = name;
+      updateData.slug = await generateCategorySlug(name, newParentId, category.id);
+    }
+
+    const updatedCategory = await prisma.category.update({
+      where: { id: category.id },
+      data: updateData,
+      select: categorySelect,
+    });
+
+    logger.info(`Category updated: ${category.id} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.success('Category updated successfully', updatedCategory);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reorderCategories(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { parentId, orderedIds } = req.body as { parentId?: string | null; orderedIds: string[] };
+
+    const siblings = await prisma.category.findMany({
+      where: { parentId: parentId || null },
+      select: { id: true },
+    });
+
+    const siblingIds = siblings.map((s) => s.id);
+    const isSameSet =
+      orderedIds.length === siblingIds.length &&
+      new Set(orderedIds).size === orderedIds.length &&
+      orderedIds.every((categoryId) => siblingIds.includes(categoryId));
+    if (!isSameSet) {
+      throw createError(400, 'orderedIds must list every subcategory of the given parent exactly once');
+    }
+
+    await prisma.$transaction(
+      orderedIds.map((categoryId, index) =>
+        prisma.category.update({ where: { id: categoryId }, data: { position: index } })
+      )
+    );
+
+    logger.info(`Categories reordered under ${parentId || 'root'} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.success('Categories reordered successfully');
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function disableCategory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    const category = await prisma.category.findUnique({ where: { id: id as string } });
+    if (!category) throw createError(404, 'Category not found');
+    if (!category.status) throw createError(400, 'Category is already disabled');
+
+    await prisma.category.update({ where: { id: category.id }, data: { status: false } });
+
+    logger.info(`Category disabled: ${category.id} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.success('Category disabled successfully');
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function enableCategory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    const category = await prisma.category.findUnique({ where: { id: id as string } });
+    if (!category) throw createError(404, 'Category not found');
+    if (category.status) throw createError(400, 'Category is already enabled');
+
+    await prisma.category.update({ where: { id: category.id }, data: { status: true } });
+
+    logger.info(`Category enabled: ${category.id} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.success('Category enabled successfully');
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteCategory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    const category = await prisma.category.findUnique({
+      where: { id: id as string },
+      include: { _count: { select: { products: true, children: true } } },
+    });
+    if (!category) throw createError(404, 'Category not found');
+
+    if (category._count.products > 0) {
+      throw createError(409, `Category still has ${category._count.products} product(s). Move them to another category or disable it instead`);
+    }
+    if (category._count.children > 0) {
+      throw createError(409, 'Category still has subcategories. Move or delete them first');
+    }
+
+    await prisma.category.delete({ where: { id: category.id } });
+
+    logger.info(`Category deleted: ${category.id} by admin ${userPayload.userId}`);
+    const response = ApiResponseBuilder.success('Category deleted successfully', null);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
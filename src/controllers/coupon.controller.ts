@@ -0,0 +1,106 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  createCoupon,
+  updateCoupon,
+  deactivateCoupon,
+  getCoupon,
+  getCoupons,
+  previewCoupon,
+} from '../services/coupon.service.js';
+import type { CouponActor, CouponInput } from '../services/coupon.service.js';
+
+function getActor(req: AuthenticatedRequest): CouponActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+export async function addCoupon(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const coupon = await createCoupon(getActor(req), req.body as CouponInput);
+
+    res.status(201).json(ApiResponseBuilder.created('Coupon created successfully', coupon));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listCoupons(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+
+    const { coupons, total } = await getCoupons(getActor(req), pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Coupons retrieved', coupons, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getCouponById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const coupon = await getCoupon(getActor(req), req.params.id as string);
+
+    res.json(ApiResponseBuilder.success('Coupon retrieved', coupon));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function editCoupon(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const coupon = await updateCoupon(getActor(req), req.params.id as string, req.body as Partial<CouponInput>);
+
+    res.json(ApiResponseBuilder.success('Coupon updated successfully', coupon));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeCoupon(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const coupon = await deactivateCoupon(getActor(req), req.params.id as string);
+
+    res.json(ApiResponseBuilder.success('Coupon deactivated', coupon));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function checkCoupon(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { code } = req.body as { code: string };
+    const preview = await previewCoupon(getActor(req).userId, code);
+
+    res.json(ApiResponseBuilder.success('Coupon applies to your cart', preview));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,54 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { getExchangeRates, setExchangeRate, deleteExchangeRate } from '../services/currency.service.js';
+import type { ExchangeRateRequest } from '../utils/type.js';
+
+export async function listExchangeRates(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const rates = await getExchangeRates();
+
+    res.json(ApiResponseBuilder.success('Exchange rates retrieved', rates));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function putExchangeRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { currency } = req.params;
+    const { rate } = req.body as ExchangeRateRequest;
+
+    const exchangeRate = await setExchangeRate(userPayload.userId, (currency as string).toUpperCase(), rate);
+
+    res.json(ApiResponseBuilder.success('Exchange rate saved', exchangeRate));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeExchangeRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { currency } = req.params;
+
+    await deleteExchangeRate(userPayload.userId, (currency as string).toUpperCase());
+
+    res.json(ApiResponseBuilder.success('Exchange rate deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
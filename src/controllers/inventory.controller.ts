@@ -0,0 +1,153 @@
+import type { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import createError from 'http-errors';
+import { logger } from '../utils/logger.js';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { findSellerProduct } from './product.controller.js';
+import { recordMovement, setLowStockAlert } from '../services/inventory.service.js';
+
+const prisma = new PrismaClient();
+
+async function findProductVariant(productId: string, variantId: string) {
+  const variant = await prisma.productVariant.findFirst({ where: { id: variantId, productId, archivedAt: null } });
+  if (!variant) throw createError(404, 'Variant not found');
+  return variant;
+}
+
+export async function getProductInventory(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const variants = await prisma.productVariant.findMany({
+      where: { productId: product.id, archivedAt: null },
+      orderBy: { sku: 'asc' },
+      select: {
+        id: true,
+        sku: true,
+        attributes: true,
+        inventory: { select: { quantity: true, reserved: true, lowStockAlert: true, updatedAt: true } },
+      },
+    });
+
+    const inventory = variants.map((variant) => {
+      const quantity = variant.inventory?.quantity ?? 0;
+      const reserved = variant.inventory?.reserved ?? 0;
+      const lowStockAlert = variant.inventory?.lowStockAlert ?? null;
+      return {
+        variantId: variant.id,
+        sku: variant.sku,
+        attributes: variant.attributes,
+        quantity,
+        reserved,
+        available: quantity - reserved,
+        lowStockAlert,
+        isLowStock: lowStockAlert !== null && quantity - reserved <= lowStockAlert,
+        updatedAt: variant.inventory?.updatedAt ?? null,
+      };
+    });
+
+    const response = ApiResponseBuilder.success('Inventory retrieved', { productStatus: product.status, inventory });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createStockMovement(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, variantId } = req.params;
+    const { type, quantity, reason } = req.body;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    const variant = await findProductVariant(product.id, variantId as string);
+
+    const amount = Number(quantity);
+    if (type !== 'ADJUSTMENT' && amount <= 0) throw createError(400, `${type} quantity must be positive`);
+
+    const change = await recordMovement({ variantId: variant.id, type, quantity: amount, reason, actorId: userId });
+
+    logger.info(`Stock ${type} of ${amount} on variant ${variant.id} by user ${userId}`, { action: 'inventory' });
+    const response = ApiResponseBuilder.created('Stock movement recorded', { variantId: variant.id, available: change.available });
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getStockMovements(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, variantId } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    const variant = await findProductVariant(product.id, variantId as string);
+
+    const where = { inventory: { productVariantId: variant.id } };
+    const [movements, total] = await Promise.all([
+      prisma.inventoryMovement.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, type: true, quantity: true, balanceAfter: true, reason: true, reference: true, actorId: true, createdAt: true },
+      }),
+      prisma.inventoryMovement.count({ where }),
+    ]);
+
+    const response = ApiResponseBuilder.paginated('Stock movements retrieved', movements, { page: pageNum, limit: limitNum, totalItems: total });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateLowStockAlert(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, variantId } = req.params;
+    const { threshold } = req.body;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    const variant = await findProductVariant(product.id, variantId as string);
+
+    const inventory = await setLowStockAlert(variant.id, threshold === null ? null : Number(threshold));
+
+    const response = ApiResponseBuilder.success('Low stock alert updated', {
+      variantId: variant.id,
+      lowStockAlert: inventory.lowStockAlert,
+    });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
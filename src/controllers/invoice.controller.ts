@@ -0,0 +1,40 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { getOrderInvoice, getShopOrderInvoice } from '../services/invoice.service.js';
+import type { OrderActor } from '../services/order.service.js';
+
+function getActor(req: AuthenticatedRequest): OrderActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+export async function getOrderInvoiceLink(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { orderId } = req.params;
+    const invoice = await getOrderInvoice(getActor(req), orderId as string);
+
+    res.json(ApiResponseBuilder.success('Invoice retrieved', invoice));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getShopOrderInvoiceLink(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { shopOrderId } = req.params;
+    const invoice = await getShopOrderInvoice(getActor(req), shopOrderId as string);
+
+    res.json(ApiResponseBuilder.success('Invoice retrieved', invoice));
+  } catch (error) {
+    next(error);
+  }
+}
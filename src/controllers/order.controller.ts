@@ -0,0 +1,164 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  checkout,
+  confirmShopOrder,
+  shipShopOrder,
+  deliverShopOrder,
+  cancelOrder,
+  getSellerShopOrders,
+  getSellerShopOrder,
+  getSellerSalesStats,
+} from '../services/order.service.js';
+import type { OrderActor, SalesInterval } from '../services/order.service.js';
+import type { CheckoutRequest, OrderFilters, ShipOrderRequest } from '../utils/type.js';
+
+function getActor(req: AuthenticatedRequest): OrderActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+export async function checkoutCart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { addressId, couponCode, shipping, displayCurrency } = req.body as CheckoutRequest;
+    const idempotencyKey = (req.headers['idempotency-key'] as string).trim();
+
+    const { order, created } = await checkout(getActor(req).userId, idempotencyKey, {
+      addressId,
+      couponCode,
+      shipping,
+      displayCurrency,
+    });
+
+    if (!created) {
+      res.json(ApiResponseBuilder.success('Order already placed', order));
+      return;
+    }
+    res.status(201).json(ApiResponseBuilder.success('Order placed successfully', order));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function confirmOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const shopOrder = await confirmShopOrder(getActor(req), id as string);
+
+    res.json(ApiResponseBuilder.success('Order confirmed', shopOrder));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function shipOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { carrier, trackingNumber } = req.body as ShipOrderRequest;
+
+    const shopOrder = await shipShopOrder(getActor(req), id as string, { carrier, trackingNumber });
+
+    res.json(ApiResponseBuilder.success('Order marked as shipped', shopOrder));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deliverOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const shopOrder = await deliverShopOrder(getActor(req), id as string);
+
+    res.json(ApiResponseBuilder.success('Order marked as delivered', shopOrder));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function cancelMyOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const order = await cancelOrder(getActor(req), id as string, reason || undefined);
+
+    res.json(ApiResponseBuilder.success('Order cancelled', order));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listShopOrders(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { page = 1, limit = 20, status, paymentStatus, startDate, endDate } = req.query as any;
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const filters: OrderFilters = { status, paymentStatus, startDate, endDate };
+
+    const { shopOrders, total } = await getSellerShopOrders(getActor(req).userId, filters, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Orders retrieved', shopOrders, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getShopOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const shopOrder = await getSellerShopOrder(getActor(req).userId, id as string);
+
+    res.json(ApiResponseBuilder.success('Order retrieved', shopOrder));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getSalesStats(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { interval = 'day', startDate, endDate } = req.query as any;
+
+    const stats = await getSellerSalesStats(getActor(req).userId, interval as SalesInterval, { startDate, endDate });
+
+    res.json(ApiResponseBuilder.success('Sales stats retrieved', stats));
+  } catch (error) {
+    next(error);
+  }
+}
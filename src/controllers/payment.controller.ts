@@ -0,0 +1,163 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import { logger } from '../utils/logger.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  initiatePayment,
+  handlePaymentWebhook,
+  confirmPayment,
+  getRefunds,
+  retryRefund,
+  checkRefund,
+  resolveRefund,
+} from '../services/payment.service.js';
+import type { RefundFilters } from '../services/payment.service.js';
+import { getEnabledPaymentProviders } from '../services/payments/index.js';
+import type { InitiatePaymentRequest, ResolveRefundRequest } from '../utils/type.js';
+
+export async function getPaymentProviders(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const providers = getEnabledPaymentProviders().map((provider) => ({
+      name: provider.name,
+      label: provider.label,
+      method: provider.method,
+      requiresPhone: provider.requiresPhone,
+    }));
+
+    res.json(ApiResponseBuilder.success('Payment providers retrieved', providers));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function payOrder(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { orderId } = req.params;
+    const { provider, phone } = req.body as InitiatePaymentRequest;
+
+    const { payment, instructions } = await initiatePayment(userPayload.userId, orderId as string, provider, phone);
+
+    res.status(201).json(ApiResponseBuilder.success('Payment initiated', { ...payment, instructions }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function paymentWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { provider } = req.params;
+
+    const payment = await handlePaymentWebhook(provider as string, {
+      headers: req.headers,
+      body: req.body,
+      rawBody: (req as any).rawBody,
+    });
+
+    res.json(ApiResponseBuilder.success('Notification processed', { id: payment.id, status: payment.status }));
+  } catch (error) {
+    logger.warn(`Payment webhook from ${req.params.provider} rejected`, {
+      action: 'payment',
+      meta: { ip: req.ip, error: error instanceof Error ? error.message : String(error) },
+    });
+    next(error);
+  }
+}
+
+export async function confirmOrderPayment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    const payment = await confirmPayment({ userId: userPayload.userId, role: userPayload.role }, id as string);
+
+    res.json(ApiResponseBuilder.success('Payment status updated', payment));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listRefunds(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const { status, provider } = req.query as RefundFilters;
+
+    const { refunds, total } = await getRefunds({ status, provider }, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Refunds retrieved', refunds, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function retryFailedRefund(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const refund = await retryRefund(id as string);
+
+    res.json(ApiResponseBuilder.success('Refund retried', refund));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function checkPendingRefund(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const refund = await checkRefund(id as string);
+
+    res.json(ApiResponseBuilder.success('Refund status updated', refund));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resolvePendingRefund(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    const { status, reference } = req.body as ResolveRefundRequest;
+
+    const refund = await resolveRefund(userPayload.userId, id as string, status, reference || undefined);
+
+    res.json(ApiResponseBuilder.success('Refund resolved', refund));
+  } catch (error) {
+    next(error);
+  }
+}
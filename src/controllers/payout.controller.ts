@@ -0,0 +1,122 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getPayouts,
+  markPayoutPaid,
+  rollUpPayouts,
+  getMyPayouts,
+  getPayoutStatement,
+  getOpenBalance,
+} from '../services/payout.service.js';
+import type { PayoutFilters } from '../services/payout.service.js';
+import type { MarkPayoutPaidRequest } from '../utils/type.js';
+
+function getPagination(req: AuthenticatedRequest) {
+  const { page = 1, limit = 20 } = req.query;
+  const pageNum = Math.max(1, parseInt(page as string));
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+  return { pageNum, limitNum };
+}
+
+export async function listPayouts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { pageNum, limitNum } = getPagination(req);
+    const { status, period, sellerId, currency } = req.query as PayoutFilters;
+
+    const { payouts, total } = await getPayouts({ status, period, sellerId, currency }, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Payouts retrieved', payouts, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function payPayout(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    const { reference, note } = req.body as MarkPayoutPaidRequest;
+
+    const payout = await markPayoutPaid(userPayload.userId, id as string, {
+      reference: reference || undefined,
+      note: note || undefined,
+    });
+
+    res.json(ApiResponseBuilder.success('Payout marked as paid', payout));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function runPayoutRollup(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await rollUpPayouts();
+
+    res.json(ApiResponseBuilder.success('Payouts rolled up', result));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listMyPayouts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { pageNum, limitNum } = getPagination(req);
+
+    const { payouts, total } = await getMyPayouts(userPayload.userId, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Payouts retrieved', payouts, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyOpenBalance(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+
+    const balance = await getOpenBalance(userPayload.userId);
+
+    res.json(ApiResponseBuilder.success('Open balance retrieved', balance));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyPayoutStatement(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    const statement = await getPayoutStatement(userPayload.userId, id as string);
+
+    res.json(ApiResponseBuilder.success('Payout statement retrieved', statement));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,591 @@
+import type { Request, Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma, Product, ProductStatus, ProductVisibility } from '@prisma/client';
+import createError from 'http-errors';
+import { logger } from '../utils/logger.js';
+import { paymentConfig } from '../config/payment.config.js';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { PaginatedResponse } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { calculateEffectivePrice } from '../utils/pricing.utils.js';
+import { collectDescendantIds } from '../utils/category.utils.js';
+import { deleteFiles } from '../utils/upload.file.js';
+import { getDerivativeKeys } from '../utils/image.processing.js';
+import { getDisplayConverter, toDisplayAmounts, toPlatformPrice } from '../services/currency.service.js';
+import type { DisplayConverter } from '../services/currency.service.js';
+import { notifyWishlistPriceDrops } from '../services/wishlist.service.js';
+import { planVariantRemoval, variantRemovalOperations } from './variant.controller.js';
+import type { UpdateProductRequest, ProductFilters, PaginationParams } from '../utils/type.js';
+
+const prisma = new PrismaClient();
+
+async function findSellerShop(userId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const shop = await prisma.shop.findFirst({ where: { sellerId: seller.id } });
+  if (!shop) throw createError(404, 'Shop not found. Please create a shop first');
+
+  return { seller, shop };
+}
+
+export async function findSellerProduct(userId: string, productId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: { shop: { select: { id: true, sellerId: true, currency: true } } },
+  });
+  if (!product) throw createError(404, 'Product not found');
+  if (product.shop.sellerId !== seller.id) throw createError(403, 'You can only manage products in your own shop');
+
+  return { seller, product };
+}
+
+function formatProductResponse(product: Product) {
+  return {
+    id: product.id,
+    shopId: product.shopId,
+    categoryId: product.categoryId,
+    name: product.name,
+    description: product.description,
+    basePrice: product.basePrice,
+    discount: product.discount,
+    effectivePrice: product.effectivePrice,
+    status: product.status,
+    visibility: product.visibility,
+    createdAt: product.createdAt,
+  };
+}
+
+export async function createProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { shopId, categoryId, name, description, basePrice, discount } = req.body;
+
+    const { shop } = await findSellerShop(userId);
+    if (shopId && shopId !== shop.id) throw createError(403, 'You can only add products to your own shop');
+
+    const category = await prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) throw createError(400, 'Category not found');
+    if (!category.status) throw createError(400, 'Category is not active');
+
+    if (discount !== undefined && Number(discount) > Number(basePrice)) {
+      throw createError(400, 'Discount cannot be greater than the base price');
+    }
+
+    const effectivePrice = calculateEffectivePrice(Number(basePrice), discount !== undefined ? Number(discount) : null);
+    const product = await prisma.product.create({
+      data: {
+        shopId: shop.id,
+        categoryId,
+        name,
+        description,
+        basePrice: Number(basePrice),
+        discount: discount !== undefined ? Number(discount) : null,
+        effectivePrice,
+        normalizedPrice: await toPlatformPrice(effectivePrice, shop.currency),
+        status: 'DRAFT',
+        visibility: 'PUBLIC',
+      },
+    });
+
+    logger.info(`Product created: ${product.id} in shop ${shop.id} by user ${userId}`);
+    const response = ApiResponseBuilder.created('Product created successfully', formatProductResponse(product));
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const { categoryId, name, description, basePrice, discount } = req.body as UpdateProductRequest;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    if (categoryId && categoryId !== product.categoryId) {
+      const category = await prisma.category.findUnique({ where: { id: categoryId } });
+      if (!category) throw createError(400, 'Category not found');
+      if (!category.status) throw createError(400, 'Category is not active');
+    }
+
+    const newBasePrice = basePrice !== undefined ? Number(basePrice) : product.basePrice;
+    const newDiscount = discount !== undefined ? Number(discount) : product.discount;
+    if (newDiscount !== null && newDiscount > newBasePrice) {
+      throw createError(400, 'Discount cannot be greater than the base price');
+    }
+
+    const effectivePrice = calculateEffectivePrice(newBasePrice, newDiscount);
+    const updatedProduct = await prisma.product.update({
+      where: { id: product.id },
+      data: {
+        categoryId: categoryId || product.categoryId,
+        name: name || product.name,
+        description: description ?? product.description,
+        basePrice: newBasePrice,
+        discount: newDiscount,
+        effectivePrice,
+        normalizedPrice: await toPlatformPrice(effectivePrice, product.shop.currency),
+      },
+    });
+
+    if (updatedProduct.effectivePrice !== product.effectivePrice) await notifyWishlistPriceDrops(product.id);
+
+    logger.info(`Product updated: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product updated successfully', formatProductResponse(updatedProduct));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function publishProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    if (product.status !== 'DRAFT') throw createError(400, 'Only draft products can be published');
+
+    const category = await prisma.category.findUnique({ where: { id: product.categoryId } });
+    if (!category || !category.status) throw createError(400, 'Product category is not active');
+
+    const updatedProduct = await prisma.product.update({
+      where: { id: product.id },
+      data: { status: 'ACTIVE' },
+    });
+
+    logger.info(`Product published: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product published successfully', formatProductResponse(updatedProduct));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function hideProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    if (product.visibility === 'HIDDEN') throw createError(400, 'Product is already hidden');
+
+    const updatedProduct = await prisma.product.update({
+      where: { id: product.id },
+      data: { visibility: 'HIDDEN' },
+    });
+
+    logger.info(`Product hidden: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product hidden successfully', formatProductResponse(updatedProduct));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function unhideProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+    if (product.visibility === 'PUBLIC') throw createError(400, 'Product is already visible');
+
+    const updatedProduct = await prisma.product.update({
+      where: { id: product.id },
+      data: { visibility: 'PUBLIC' },
+    });
+
+    logger.info(`Product made visible: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product is now visible', formatProductResponse(updatedProduct));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteProduct(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const orderItemCount = await prisma.orderItem.count({ where: { productId: product.id } });
+    if (orderItemCount > 0) {
+      throw createError(400, 'Product has existing orders and cannot be deleted. Hide it instead');
+    }
+
+    // The inventory ledger is append-only, so variants that ever held stock keep the product alive
+    const variants = await prisma.productVariant.findMany({ where: { productId: product.id }, select: { id: true } });
+    const removal = await planVariantRemoval(variants.map((variant) => variant.id));
+    if (removal.archiveIds.length > 0) {
+      throw createError(400, 'Product has stock history and cannot be deleted. Hide it instead');
+    }
+
+    const images = await prisma.productImage.findMany({ where: { productId: product.id }, select: { key: true, derivatives: true } });
+
+    await prisma.$transaction(async (tx) => {
+      for (const operation of variantRemovalOperations(removal, tx)) await operation;
+      await tx.productOption.deleteMany({ where: { productId: product.id } });
+      await tx.productImage.deleteMany({ where: { productId: product.id } });
+      await tx.review.deleteMany({ where: { productId: product.id } });
+      await tx.sponsoredAd.updateMany({ where: { productId: product.id }, data: { productId: null } });
+      await tx.product.delete({ where: { id: product.id } });
+    });
+
+    const imageKeys = images.flatMap((image) => [image.key, ...getDerivativeKeys(image.derivatives)]).filter((key): key is string => !!key);
+    if (imageKeys.length > 0) {
+      await deleteFiles(imageKeys).catch((error) =>
+        logger.error(`Failed to remove images of deleted product ${product.id} from storage`, { error })
+      );
+    }
+
+    logger.info(`Product deleted: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product deleted successfully', null);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyProducts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { page = 1, limit = 20, status, visibility } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const { shop } = await findSellerShop(userId);
+
+    const where: Prisma.ProductWhereInput = { shopId: shop.id };
+    if (typeof status === 'string') where.status = status as ProductStatus;
+    if (typeof visibility === 'string') where.visibility = visibility as ProductVisibility;
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          category: { select: { id: true, name: true, slug: true } },
+          images: { where: { isPrimary: true }, take: 1 },
+          _count: { select: { variants: { where: { archivedAt: null } }, orderItems: true } },
+        },
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    const response = ApiResponseBuilder.paginated('Products retrieved successfully', products, { page: pageNum, limit: limitNum, totalItems: total });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyProductById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    await findSellerProduct(userId, id as string);
+
+    const product = await prisma.product.findUnique({
+      where: { id: id as string },
+      include: {
+        category: { select: { id: true, name: true, slug: true } },
+        options: { orderBy: { position: 'asc' } },
+        variants: { where: { archivedAt: null }, orderBy: { sku: 'asc' } },
+        images: { orderBy: { position: 'asc' } },
+        _count: { select: { orderItems: true, reviews: true } },
+      },
+    });
+
+    const response = ApiResponseBuilder.success('Product retrieved', product);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Prices are sorted in the platform currency, so shops selling in different currencies mix correctly
+const PRODUCT_SORT_FIELDS = ['createdAt', 'name', 'effectivePrice'];
+
+interface ProductFacets {
+  categories: { categoryId: string; name: string | null; slug: string | null; count: number }[];
+  priceRanges: {
+    key: string;
+    min: number;
+    max: number | null;
+    count: number;
+    display?: { currency: string; min: number | null; max: number | null };
+  }[];
+}
+
+type ProductListResponse<T> = PaginatedResponse<T> & { facets: ProductFacets };
+
+// In minor units of the platform currency, matched against Product.normalizedPrice
+const PRICE_BUCKETS = [
+  { key: 'under-5000', min: 0, max: 5000 },
+  { key: '5000-20000', min: 5000, max: 20000 },
+  { key: '20000-50000', min: 20000, max: 50000 },
+  { key: '50000-100000', min: 50000, max: 100000 },
+  { key: '100000-plus', min: 100000, max: null },
+];
+
+// Price bounds are in the display currency when one is asked for, otherwise in the platform currency
+async function parseProductFilters(query: Request['query'], converter: DisplayConverter | null): Promise<ProductFilters> {
+  const filters: ProductFilters = {};
+  if (typeof query.categoryId === 'string') {
+    // Browsing a parent category also lists products filed under its subcategories
+    const categories = await prisma.category.findMany({
+      where: { status: true },
+      select: { id: true, parentId: true, position: true },
+    });
+    filters.categoryId = query.categoryId;
+    filters.categoryIds = collectDescendantIds(categories, query.categoryId);
+  }
+  if (typeof query.shopId === 'string') filters.shopId = query.shopId;
+  const toPlatform = (amount: number) => (converter ? converter.toPlatform(amount) : amount);
+  if (typeof query.minPrice === 'string') filters.minPrice = toPlatform(Number(query.minPrice));
+  if (typeof query.maxPrice === 'string') filters.maxPrice = toPlatform(Number(query.maxPrice));
+  return filters;
+}
+
+function buildPublicProductWhere(filters: ProductFilters, exclude?: 'category' | 'price'): Prisma.ProductWhereInput {
+  const where: Prisma.ProductWhereInput = {
+    status: 'ACTIVE',
+    visibility: 'PUBLIC',
+    shop: { status: { not: 'SUSPENDED' } },
+  };
+
+  if (filters.shopId) where.shopId = filters.shopId;
+  if (filters.categoryIds && exclude !== 'category') where.categoryId = { in: filters.categoryIds };
+
+  if (exclude !== 'price' && (filters.minPrice !== undefined || filters.maxPrice !== undefined)) {
+    where.normalizedPrice = { gte: filters.minPrice, lte: filters.maxPrice };
+  }
+
+  return where;
+}
+
+async function getProductFacets(filters: ProductFilters, converter: DisplayConverter | null): Promise<ProductFacets> {
+  const categoryWhere = buildPublicProductWhere(filters, 'category');
+  const priceWhere = buildPublicProductWhere(filters, 'price');
+
+  const categoryGroups = await prisma.product.groupBy({
+    by: ['categoryId'],
+    where: categoryWhere,
+    _count: { _all: true },
+  });
+
+  const categories = await prisma.category.findMany({
+    where: { id: { in: categoryGroups.map((group) => group.categoryId) } },
+    select: { id: true, name: true, slug: true },
+  });
+
+  const categoryFacets = categoryGroups
+    .map((group) => {
+      const category = categories.find((c) => c.id === group.categoryId);
+      return {
+        categoryId: group.categoryId,
+        name: category?.name ?? null,
+        slug: category?.slug ?? null,
+        count: group._count._all,
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  const priceCounts = await Promise.all(
+    PRICE_BUCKETS.map((bucket) =>
+      prisma.product.count({
+        where: {
+          ...priceWhere,
+          normalizedPrice: bucket.max === null ? { gte: bucket.min } : { gte: bucket.min, lt: bucket.max },
+        },
+      })
+    )
+  );
+
+  const priceFacets = PRICE_BUCKETS.map((bucket, index) => ({
+    key: bucket.key,
+    min: bucket.min,
+    max: bucket.max,
+    count: priceCounts[index],
+    display: converter
+      ? {
+          currency: converter.currency,
+          min: converter.convert(bucket.min, paymentConfig.currency),
+          max: bucket.max === null ? null : converter.convert(bucket.max, paymentConfig.currency),
+        }
+      : undefined,
+  }));
+
+  return { categories: categoryFacets, priceRanges: priceFacets };
+}
+
+export async function getPublicProducts(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc' } = req.query as PaginationParams;
+
+    const pageNum = Math.max(1, parseInt(String(page)));
+    const limitNum = Math.min(100, Math.max(1, parseInt(String(limit))));
+    const skip = (pageNum - 1) * limitNum;
+
+    if (!PRODUCT_SORT_FIELDS.includes(sortBy)) {
+      throw createError(400, `sortBy must be one of: ${PRODUCT_SORT_FIELDS.join(', ')}`);
+    }
+
+    const converter = typeof req.query.currency === 'string' ? await getDisplayConverter(req.query.currency) : null;
+    const filters = await parseProductFilters(req.query, converter);
+    const where = buildPublicProductWhere(filters);
+    // Products whose currency has no exchange rate cannot be placed among the others and come last
+    const orderBy: Prisma.ProductOrderByWithRelationInput =
+      sortBy === 'effectivePrice' ? { normalizedPrice: { sort: sortOrder, nulls: 'last' } } : { [sortBy]: sortOrder };
+
+    const [products, total, facets] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: [orderBy, { id: 'asc' }],
+        select: {
+          id: true,
+          name: true,
+          basePrice: true,
+          discount: true,
+          effectivePrice: true,
+          rating: true,
+          ratingCount: true,
+          status: true,
+          createdAt: true,
+          category: { select: { id: true, name: true, slug: true } },
+          shop: { select: { id: true, name: true, slug: true, logoUrl: true, currency: true } },
+          images: { where: { isPrimary: true }, select: { imageUrl: true, derivatives: true }, take: 1 },
+        },
+      }),
+      prisma.product.count({ where }),
+      getProductFacets(filters, converter),
+    ]);
+
+    const results = products.map((product) => ({
+      ...product,
+      display: converter
+        ? toDisplayAmounts(converter, product.shop.currency, {
+            basePrice: product.basePrice,
+            effectivePrice: product.effectivePrice,
+          })
+        : undefined,
+    }));
+
+    const response: ProductListResponse<(typeof results)[number]> = {
+      ...ApiResponseBuilder.paginated('Products retrieved successfully', results, { page: pageNum, limit: limitNum, totalItems: total }),
+      facets,
+    };
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getPublicProductById(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: id as string,
+        status: { in: ['ACTIVE', 'OUT_OF_STOCK'] },
+        visibility: 'PUBLIC',
+      },
+      include: {
+        category: { select: { id: true, name: true, slug: true } },
+        shop: { select: { id: true, name: true, slug: true, logoUrl: true, rating: true, ratingCount: true, currency: true } },
+        options: { select: { name: true, values: true }, orderBy: { position: 'asc' } },
+        variants: {
+          where: { archivedAt: null },
+          select: { id: true, sku: true, price: true, stock: true, weight: true, attributes: true },
+        },
+        images: { select: { id: true, imageUrl: true, derivatives: true, isPrimary: true, position: true }, orderBy: { position: 'asc' } },
+        _count: { select: { reviews: { where: { status: 'PUBLISHED' } } } },
+      },
+    });
+
+    if (!product) throw createError(404, 'Product not found');
+
+    if (typeof req.query.currency === 'string') {
+      const converter = await getDisplayConverter(req.query.currency);
+      const { currency } = product.shop;
+      res.json(ApiResponseBuilder.success('Product retrieved', {
+        ...product,
+        variants: product.variants.map((variant) => ({
+          ...variant,
+          display: toDisplayAmounts(converter, currency, { price: variant.price }),
+        })),
+        display: toDisplayAmounts(converter, currency, { basePrice: product.basePrice, effectivePrice: product.effectivePrice }),
+      }));
+      return;
+    }
+
+    const response = ApiResponseBuilder.success('Product retrieved', product);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
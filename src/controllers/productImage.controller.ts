@@ -0,0 +1,195 @@
+import type { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import createError from 'http-errors';
+import { logger } from '../utils/logger.js';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { findSellerProduct } from './product.controller.js';
+import { uploadProductImage, deleteFiles } from '../utils/upload.file.js';
+import { getDerivativeKeys } from '../utils/image.processing.js';
+
+const prisma = new PrismaClient();
+
+const MAX_PRODUCT_IMAGES = 10;
+
+const imageSelect = { id: true, imageUrl: true, derivatives: true, isPrimary: true, position: true, createdAt: true };
+
+function getProductGallery(productId: string) {
+  return prisma.productImage.findMany({
+    where: { productId },
+    orderBy: { position: 'asc' },
+    select: imageSelect,
+  });
+}
+
+// Storage cleanup should not fail a request whose database change already went through
+async function removeImageObjects(keys: (string | null | undefined)[]) {
+  const existingKeys = keys.filter((key): key is string => !!key);
+  if (existingKeys.length === 0) return;
+
+  try {
+    await deleteFiles(existingKeys);
+  } catch (error) {
+    logger.error(`Failed to remove ${existingKeys.length} product image(s) from storage`, { error });
+  }
+}
+
+export async function addProductImages(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const files = req.files as Express.Multer.File[] | undefined;
+
+    if (!files || files.length === 0) throw createError(400, 'At least one image is required');
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const existing = await prisma.productImage.findMany({
+      where: { productId: product.id },
+      orderBy: { position: 'desc' },
+    });
+    if (existing.length + files.length > MAX_PRODUCT_IMAGES) {
+      throw createError(400, `A product can have at most ${MAX_PRODUCT_IMAGES} images (${existing.length} already uploaded)`);
+    }
+
+    const nextPosition = existing.length > 0 ? existing[0].position + 1 : 0;
+    const hasPrimary = existing.some((image) => image.isPrimary);
+
+    const uploads = await Promise.all(
+      files.map((file, index) =>
+        uploadProductImage(file.buffer, file.originalname, file.mimetype, product.id, nextPosition + index)
+      )
+    );
+
+    try {
+      await prisma.productImage.createMany({
+        data: uploads.map((upload, index) => ({
+          productId: product.id,
+          imageUrl: upload.url,
+          key: upload.key,
+          derivatives: upload.derivatives,
+          position: nextPosition + index,
+          isPrimary: !hasPrimary && index === 0,
+        })),
+      });
+    } catch (error) {
+      await removeImageObjects(uploads.flatMap((upload) => [upload.key, ...getDerivativeKeys(upload.derivatives)]));
+      throw error;
+    }
+
+    logger.info(`${uploads.length} image(s) uploaded to product ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.created('Images uploaded successfully', await getProductGallery(product.id));
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function setPrimaryImage(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, imageId } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const image = await prisma.productImage.findFirst({ where: { id: imageId as string, productId: product.id } });
+    if (!image) throw createError(404, 'Image not found');
+
+    if (!image.isPrimary) {
+      // Clear the old primary first so the one-primary-per-product index is never violated
+      await prisma.$transaction([
+        prisma.productImage.updateMany({ where: { productId: product.id, isPrimary: true }, data: { isPrimary: false } }),
+        prisma.productImage.update({ where: { id: image.id }, data: { isPrimary: true } }),
+      ]);
+    }
+
+    logger.info(`Primary image of product ${product.id} set to ${image.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Primary image updated', await getProductGallery(product.id));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reorderProductImages(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const { orderedIds } = req.body as { orderedIds: string[] };
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const images = await prisma.productImage.findMany({ where: { productId: product.id }, select: { id: true } });
+    const imageIds = images.map((image) => image.id);
+    const isSameSet =
+      orderedIds.length === imageIds.length &&
+      new Set(orderedIds).size === orderedIds.length &&
+      orderedIds.every((imageId) => imageIds.includes(imageId));
+    if (!isSameSet) throw createError(400, 'orderedIds must list every image of the product exactly once');
+
+    await prisma.$transaction(
+      orderedIds.map((imageId, index) =>
+        prisma.productImage.update({ where: { id: imageId }, data: { position: index } })
+      )
+    );
+
+    logger.info(`Images of product ${product.id} reordered by user ${userId}`);
+    const response = ApiResponseBuilder.success('Images reordered successfully', await getProductGallery(product.id));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteProductImage(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, imageId } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const image = await prisma.productImage.findFirst({ where: { id: imageId as string, productId: product.id } });
+    if (!image) throw createError(404, 'Image not found');
+
+    await prisma.$transaction(async (tx) => {
+      await tx.productImage.delete({ where: { id: image.id } });
+
+      // Promote the next image in the gallery so the product keeps a cover image
+      if (image.isPrimary) {
+        const nextImage = await tx.productImage.findFirst({
+          where: { productId: product.id },
+          orderBy: { position: 'asc' },
+        });
+        if (nextImage) await tx.productImage.update({ where: { id: nextImage.id }, data: { isPrimary: true } });
+      }
+    });
+
+    await removeImageObjects([image.key, ...getDerivativeKeys(image.derivatives)]);
+
+    logger.info(`Image ${image.id} deleted from product ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Image deleted successfully', await getProductGallery(product.id));
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,159 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getReturnEligibility,
+  createReturnRequest,
+  getMyReturns,
+  getShopReturns,
+  getReturnById,
+  approveReturn,
+  rejectReturn,
+  retryReturnRefund,
+} from '../services/return.service.js';
+import type { ReturnActor } from '../services/return.service.js';
+import type { ApproveReturnRequest, CreateReturnRequest, ReturnRequestStatus } from '../utils/type.js';
+
+function getActor(req: AuthenticatedRequest): ReturnActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+function getPagination(req: AuthenticatedRequest) {
+  const { page = 1, limit = 20 } = req.query;
+  const pageNum = Math.max(1, parseInt(page as string));
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+  return { pageNum, limitNum };
+}
+
+export async function getOrderReturnEligibility(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { orderId } = req.params;
+
+    const eligibility = await getReturnEligibility(getActor(req).userId, orderId as string);
+
+    res.json(ApiResponseBuilder.success('Return eligibility retrieved', eligibility));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requestReturn(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { reason, items } = req.body as CreateReturnRequest;
+    const photos = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    const returnRequest = await createReturnRequest(getActor(req).userId, { reason, items }, photos);
+
+    res.status(201).json(ApiResponseBuilder.created('Return requested successfully', returnRequest));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listMyReturns(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { pageNum, limitNum } = getPagination(req);
+
+    const { returns, total } = await getMyReturns(getActor(req).userId, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Returns retrieved', returns, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listShopReturns(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { pageNum, limitNum } = getPagination(req);
+    const status = req.query.status as ReturnRequestStatus | undefined;
+
+    const { returns, total } = await getShopReturns(getActor(req).userId, status, pageNum, limitNum);
+
+    res.json(ApiResponseBuilder.paginated('Returns retrieved', returns, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getReturn(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const returnRequest = await getReturnById(getActor(req), id as string);
+
+    res.json(ApiResponseBuilder.success('Return retrieved', returnRequest));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveReturnRequest(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { refundAmount, note } = req.body as ApproveReturnRequest;
+
+    const returnRequest = await approveReturn(getActor(req), id as string, { refundAmount, note: note || undefined });
+
+    res.json(ApiResponseBuilder.success('Return approved', returnRequest));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectReturnRequest(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const returnRequest = await rejectReturn(getActor(req), id as string, note);
+
+    res.json(ApiResponseBuilder.success('Return rejected', returnRequest));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function retryRefund(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const returnRequest = await retryReturnRefund(getActor(req), id as string);
+
+    res.json(ApiResponseBuilder.success('Refund retried', returnRequest));
+  } catch (error) {
+    next(error);
+  }
+}
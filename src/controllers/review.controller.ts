@@ -0,0 +1,247 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getProductReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+  reportReview,
+  replyToReview,
+  deleteReviewReply,
+  getModerationQueue,
+  moderateReview,
+} from '../services/review.service.js';
+import type { ReviewActor, ReviewKind } from '../services/review.service.js';
+import type { CreateReviewRequest, ReviewStatus, UpdateReviewRequest } from '../utils/type.js';
+
+function getActor(req: AuthenticatedRequest): ReviewActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+export async function listProductReviews(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 10, rating, verified } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+
+    const { reviews, total, summary } = await getProductReviews(
+      id as string,
+      { rating: rating ? parseInt(rating as string) : undefined, verifiedOnly: verified === 'true' },
+      pageNum,
+      limitNum
+    );
+
+    const response: any = ApiResponseBuilder.paginated('Reviews retrieved', reviews, { page: pageNum, limit: limitNum, totalItems: total });
+    response.summary = summary;
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addProductReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { rating, comment } = req.body as CreateReviewRequest;
+    const photos = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    const review = await createReview(getActor(req).userId, id as string, { rating, comment }, photos);
+
+    const message = review.status === 'PENDING' ? 'Review submitted and awaiting moderation' : 'Review added successfully';
+    res.status(201).json(ApiResponseBuilder.created(message, review));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function editProductReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, reviewId } = req.params;
+    const { rating, comment, removePhotos } = req.body as UpdateReviewRequest;
+    const photos = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    const review = await updateReview(getActor(req).userId, id as string, reviewId as string, { rating, comment, removePhotos }, photos);
+
+    res.json(ApiResponseBuilder.success('Review updated successfully', review));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeProductReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id, reviewId } = req.params;
+
+    await deleteReview(getActor(req), id as string, reviewId as string);
+
+    res.json(ApiResponseBuilder.success('Review deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function sendReport(kind: ReviewKind, req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const { id, reviewId } = req.params;
+    const { reason } = req.body as { reason: string };
+
+    await reportReview(getActor(req).userId, kind, id as string, reviewId as string, reason);
+
+    res.status(201).json(ApiResponseBuilder.created('Review reported, a moderator will look at it', null));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function sendReply(kind: ReviewKind, req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const { id, reviewId } = req.params;
+    const { reply } = req.body as { reply: string };
+
+    const review = await replyToReview(getActor(req).userId, kind, id as string, reviewId as string, reply);
+
+    res.json(ApiResponseBuilder.success('Reply saved', review));
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function removeReply(kind: ReviewKind, req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const { id, reviewId } = req.params;
+
+    await deleteReviewReply(getActor(req).userId, kind, id as string, reviewId as string);
+
+    res.json(ApiResponseBuilder.success('Reply deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reportProductReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await sendReport('product', req, res, next);
+}
+
+export async function reportShopReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await sendReport('shop', req, res, next);
+}
+
+export async function replyToProductReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await sendReply('product', req, res, next);
+}
+
+export async function replyToShopReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await sendReply('shop', req, res, next);
+}
+
+export async function removeProductReviewReply(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await removeReply('product', req, res, next);
+}
+
+export async function removeShopReviewReply(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  await removeReply('shop', req, res, next);
+}
+
+// The URL names the kind in the plural: /reviews/moderation/products/...
+function getKind(value: unknown): ReviewKind {
+  return value === 'shops' || value === 'shop' ? 'shop' : 'product';
+}
+
+export async function listModerationQueue(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { page = 1, limit = 20, type, status } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+
+    const { reviews, total } = await getModerationQueue(
+      { kind: getKind(type), status: status as ReviewStatus | undefined },
+      pageNum,
+      limitNum
+    );
+
+    res.json(ApiResponseBuilder.paginated<object>('Moderation queue retrieved', reviews, { page: pageNum, limit: limitNum, totalItems: total }));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function hideReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { kind, reviewId } = req.params;
+    const { note } = req.body as { note?: string };
+
+    const review = await moderateReview(getActor(req).userId, getKind(kind), reviewId as string, 'hide', note);
+
+    res.json(ApiResponseBuilder.success('Review hidden', review));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function restoreReview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { kind, reviewId } = req.params;
+    const { note } = req.body as { note?: string };
+
+    const review = await moderateReview(getActor(req).userId, getKind(kind), reviewId as string, 'restore', note);
+
+    res.json(ApiResponseBuilder.success('Review published', review));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,232 @@
+import type { Request, Response, NextFunction } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import createError from 'http-errors';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { SearchParams } from '../utils/type.js';
+import { getDisplayConverter, toDisplayAmounts } from '../services/currency.service.js';
+
+const prisma = new PrismaClient();
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2';
+const WORD_SIMILARITY_THRESHOLD = 0.4;
+const SUGGESTION_RESULT_THRESHOLD = 3;
+
+interface ProductSearchRow {
+  id: string;
+  name: string;
+  basePrice: number;
+  discount: number | null;
+  effectivePrice: number;
+  currency: string;
+  shopId: string;
+  shopName: string;
+  shopSlug: string;
+  categoryId: string;
+  categoryName: string;
+  imageUrl: string | null;
+  nameHighlight: string;
+  snippet: string;
+  rank: number;
+}
+
+interface ShopSearchRow {
+  id: string;
+  name: string;
+  slug: string;
+  logoUrl: string | null;
+  rating: number | null;
+  ratingCount: number;
+  nameHighlight: string;
+  snippet: string;
+  rank: number;
+}
+
+// 'simple' keeps words unstemmed so Kinyarwanda, French and English titles are matched alike
+function productDocument(): Prisma.Sql {
+  return Prisma.sql`(
+    setweight(to_tsvector('simple', coalesce(p."name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(c."name", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(s."name", '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(p."description", '')), 'C')
+  )`;
+}
+
+function shopDocument(): Prisma.Sql {
+  return Prisma.sql`(
+    setweight(to_tsvector('simple', coalesce(s."name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(s."description", '')), 'C')
+  )`;
+}
+
+async function searchProducts(term: string, limit: number, offset: number) {
+  const document = productDocument();
+  // The first condition repeats the expression index from the search migration so it can be used
+  const matches = Prisma.sql`
+    p."status" IN ('ACTIVE', 'OUT_OF_STOCK') AND p."visibility" = 'PUBLIC' AND s."status" <> 'SUSPENDED'
+    AND (
+      (setweight(to_tsvector('simple', coalesce(p."name", '')), 'A') || setweight(to_tsvector('simple', coalesce(p."description", '')), 'C')) @@ websearch_to_tsquery('simple', ${term})
+      OR to_tsvector('simple', c."name" || ' ' || s."name") @@ websearch_to_tsquery('simple', ${term})
+      OR p."name" % ${term}
+      OR word_similarity(${term}, p."name") > ${WORD_SIMILARITY_THRESHOLD}
+      OR word_similarity(${term}, c."name") > ${WORD_SIMILARITY_THRESHOLD}
+    )
+  `;
+
+  const rows = await prisma.$queryRaw<ProductSearchRow[]>`
+    SELECT
+      p."id", p."name", p."basePrice", p."discount", p."effectivePrice", s."currency",
+      s."id" AS "shopId", s."name" AS "shopName", s."slug" AS "shopSlug",
+      c."id" AS "categoryId", c."name" AS "categoryName",
+      (SELECT i."imageUrl" FROM "ProductImage" i WHERE i."productId" = p."id" AND i."isPrimary" LIMIT 1) AS "imageUrl",
+      ts_headline('simple', p."name", websearch_to_tsquery('simple', ${term}), ${HEADLINE_OPTIONS}) AS "nameHighlight",
+      ts_headline('simple', coalesce(p."description", ''), websearch_to_tsquery('simple', ${term}), ${HEADLINE_OPTIONS}) AS "snippet",
+      (
+        ts_rank(${document}, websearch_to_tsquery('simple', ${term}))
+        + similarity(p."name", ${term})
+        + 0.5 * word_similarity(${term}, c."name")
+      )::float AS "rank"
+    FROM "Product" p
+    JOIN "Shop" s ON s."id" = p."shopId"
+    JOIN "Category" c ON c."id" = p."categoryId"
+    WHERE ${matches}
+    ORDER BY "rank" DESC, p."createdAt" DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  const [{ total }] = await prisma.$queryRaw<{ total: number }[]>`
+    SELECT count(*)::int AS "total"
+    FROM "Product" p
+    JOIN "Shop" s ON s."id" = p."shopId"
+    JOIN "Category" c ON c."id" = p."categoryId"
+    WHERE ${matches}
+  `;
+
+  return { results: rows, total };
+}
+
+async function searchShops(term: string, limit: number, offset: number) {
+  const document = shopDocument();
+  const matches = Prisma.sql`
+    s."status" = 'ACTIVE'
+    AND (
+      ${document} @@ websearch_to_tsquery('simple', ${term})
+      OR s."name" % ${term}
+      OR word_similarity(${term}, s."name") > ${WORD_SIMILARITY_THRESHOLD}
+    )
+  `;
+
+  const rows = await prisma.$queryRaw<ShopSearchRow[]>`
+    SELECT
+      s."id", s."name", s."slug", s."logoUrl", s."rating", s."ratingCount",
+      ts_headline('simple', s."name", websearch_to_tsquery('simple', ${term}), ${HEADLINE_OPTIONS}) AS "nameHighlight",
+      ts_headline('simple', coalesce(s."description", ''), websearch_to_tsquery('simple', ${term}), ${HEADLINE_OPTIONS}) AS "snippet",
+      (ts_rank(${document}, websearch_to_tsquery('simple', ${term})) + similarity(s."name", ${term}))::float AS "rank"
+    FROM "Shop" s
+    WHERE ${matches}
+    ORDER BY "rank" DESC, s."createdAt" DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  const [{ total }] = await prisma.$queryRaw<{ total: number }[]>`
+    SELECT count(*)::int AS "total" FROM "Shop" s WHERE ${matches}
+  `;
+
+  return { results: rows, total };
+}
+
+/**
+ * Builds a corrected query by swapping each word for the closest word found in
+ * published product names, active category names and active shop names.
+ * Returns null when every word is already known or nothing close enough exists.
+ */
+async function getDidYouMean(term: string): Promise<string | null> {
+  const words = term.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, 6);
+  if (words.length === 0) return null;
+
+  let changed = false;
+  const corrected: string[] = [];
+
+  for (const word of words) {
+    if (word.length < 3) {
+      corrected.push(word);
+      continue;
+    }
+
+    const [closest] = await prisma.$queryRaw<{ word: string; score: number }[]>`
+      SELECT vocab."word", similarity(vocab."word", ${word})::float AS "score"
+      FROM (
+        SELECT DISTINCT lower(regexp_split_to_table(p."name", '[^[:alnum:]]+')) AS "word"
+        FROM "Product" p WHERE p."status" IN ('ACTIVE', 'OUT_OF_STOCK') AND p."visibility" = 'PUBLIC'
+        UNION
+        SELECT DISTINCT lower(regexp_split_to_table(c."name", '[^[:alnum:]]+')) FROM "Category" c WHERE c."status" = true
+        UNION
+        SELECT DISTINCT lower(regexp_split_to_table(s."name", '[^[:alnum:]]+')) FROM "Shop" s WHERE s."status" = 'ACTIVE'
+      ) vocab
+      WHERE length(vocab."word") >= 3 AND vocab."word" % ${word}
+      ORDER BY "score" DESC, vocab."word" ASC
+      LIMIT 1
+    `;
+
+    if (closest && closest.word !== word) {
+      corrected.push(closest.word);
+      changed = true;
+    } else {
+      corrected.push(word);
+    }
+  }
+
+  return changed ? corrected.join(' ') : null;
+}
+
+export async function search(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { search: rawSearch, page = 1, limit = 10 } = req.query as SearchParams;
+    const type = (req.query.type as string) || 'all';
+
+    const term = typeof rawSearch === 'string' ? rawSearch.trim() : '';
+    if (term.length < 2) throw createError(400, 'Search term must be at least 2 characters');
+
+    const pageNum = Math.max(1, parseInt(String(page)));
+    const limitNum = Math.min(50, Math.max(1, parseInt(String(limit))));
+    const offset = (pageNum - 1) * limitNum;
+
+    const [products, shops] = await Promise.all([
+      type === 'shops' ? null : searchProducts(term, limitNum, offset),
+      type === 'products' ? null : searchShops(term, limitNum, offset),
+    ]);
+
+    const converter = typeof req.query.currency === 'string' ? await getDisplayConverter(req.query.currency) : null;
+    if (products && converter) {
+      products.results = products.results.map((product) => ({
+        ...product,
+        display: toDisplayAmounts(converter, product.currency, {
+          basePrice: product.basePrice,
+          effectivePrice: product.effectivePrice,
+        }),
+      }));
+    }
+
+    const totalMatches = (products?.total ?? 0) + (shops?.total ?? 0);
+    const didYouMean = totalMatches < SUGGESTION_RESULT_THRESHOLD ? await getDidYouMean(term) : null;
+
+    const buildSection = (section: { results: unknown[]; total: number } | null) =>
+      section && {
+        results: section.results,
+        pagination: { page: pageNum, limit: limitNum, total: section.total, totalPages: Math.ceil(section.total / limitNum) },
+      };
+
+    const response = ApiResponseBuilder.success('Search results retrieved', {
+      query: term,
+      didYouMean,
+      products: buildSection(products),
+      shops: buildSection(shops),
+    });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -4,6 +4,7 @@ import createError from 'http-errors';
 import { logger } from '../utils/logger.js';
 import { ApiResponseBuilder } from '../utils/ApiResponse.js';
 import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { payoutConfig } from '../config/payment.config.js';
 
 const prisma = new PrismaClient();
 
@@ -21,7 +22,7 @@ export async function becomeSeller(
     if (existingSeller) throw createError(400, 'You are already a seller');
 
     const seller = await prisma.seller.create({
-      data: { userId, businessName, businessType, businessAddress, verificationStatus: 'PENDING', commissionRate: 0.1 },
+      data: { userId, businessName, businessType, businessAddress, verificationStatus: 'PENDING', commissionRate: payoutConfig.defaultCommissionRate },
     });
 
     await prisma.user.update({ where: { id: userId }, data: { role: 'SELLER' } });
@@ -248,7 +249,7 @@ export async function reviewSellerApplication(
           businessType: application.businessType,
           businessAddress: application.businessAddress,
           verificationStatus: 'VERIFIED',
-          commissionRate: 0.1,
+          commissionRate: payoutConfig.defaultCommissionRate,
         },
       });
 
@@ -355,3 +356,34 @@ export async function updateBusinessInfo(
     next(error);
   }
 }
+
+export async function updateSellerCommission(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const adminId = userPayload.userId;
+    const { id } = req.params;
+    const { commissionRate } = req.body;
+
+    if (Array.isArray(id)) throw createError(400, 'Invalid seller ID');
+
+    const seller = await prisma.seller.findUnique({ where: { id } });
+    if (!seller) throw createError(404, 'Seller not found');
+
+    // Applies to orders delivered from now on; booked sales keep the rate they were booked with
+    const updatedSeller = await prisma.seller.update({ where: { id }, data: { commissionRate } });
+
+    logger.info(`Commission rate of seller ${id} changed from ${seller.commissionRate} to ${commissionRate} by ${adminId}`, { action: 'payout' });
+    const response = ApiResponseBuilder.success('Commission rate updated successfully', {
+      id: updatedSeller.id,
+      businessName: updatedSeller.businessName,
+      commissionRate: updatedSeller.commissionRate,
+    });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
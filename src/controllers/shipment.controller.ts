@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import { logger } from '../utils/logger.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { addSellerTrackingEvent, getShipmentById, handleCarrierWebhook } from '../services/shipment.service.js';
+import type { OrderActor } from '../services/order.service.js';
+import type { TrackingEventRequest } from '../utils/type.js';
+
+function getActor(req: AuthenticatedRequest): OrderActor {
+  const userPayload = (req as any).user;
+  return { userId: userPayload.userId, role: userPayload.role };
+}
+
+export async function carrierWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const shipment = await handleCarrierWebhook({
+      headers: req.headers,
+      body: req.body,
+      rawBody: (req as any).rawBody,
+    });
+
+    res.json(ApiResponseBuilder.success('Tracking update processed', { id: shipment.id, status: shipment.status }));
+  } catch (error) {
+    logger.warn('Carrier webhook rejected', {
+      action: 'shipment',
+      meta: { ip: req.ip, error: error instanceof Error ? error.message : String(error) },
+    });
+    next(error);
+  }
+}
+
+export async function getShipment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const shipment = await getShipmentById(getActor(req), id as string);
+
+    res.json(ApiResponseBuilder.success('Shipment retrieved', shipment));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addTrackingEvent(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { status, description, location, occurredAt } = req.body as TrackingEventRequest;
+
+    const shipment = await addSellerTrackingEvent(getActor(req), id as string, {
+      status,
+      description: description || undefined,
+      location: location || undefined,
+      occurredAt,
+    });
+
+    res.status(201).json(ApiResponseBuilder.created('Tracking event added', shipment));
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,105 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getMyShippingZones,
+  createShippingZone,
+  updateShippingZone,
+  deleteShippingZone,
+  getShopShippingZones,
+  getCartShippingQuote,
+} from '../services/shipping.service.js';
+import type { ShippingZoneInput } from '../services/shipping.service.js';
+
+export async function listMyShippingZones(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const zones = await getMyShippingZones(userPayload.userId);
+
+    res.json(ApiResponseBuilder.success('Shipping zones retrieved', zones));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addShippingZone(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const zone = await createShippingZone(userPayload.userId, req.body as ShippingZoneInput);
+
+    res.status(201).json(ApiResponseBuilder.created('Shipping zone created successfully', zone));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function editShippingZone(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    const zone = await updateShippingZone(userPayload.userId, id as string, req.body as Partial<ShippingZoneInput>);
+
+    res.json(ApiResponseBuilder.success('Shipping zone updated successfully', zone));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeShippingZone(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    await deleteShippingZone(userPayload.userId, id as string);
+
+    res.json(ApiResponseBuilder.success('Shipping zone deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function listShopShippingZones(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { shopId } = req.params;
+    const shipping = await getShopShippingZones(shopId as string);
+
+    res.json(ApiResponseBuilder.success('Shipping options retrieved', shipping));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function quoteCartShipping(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { addressId } = req.query as { addressId: string };
+    const quote = await getCartShippingQuote(userPayload.userId, addressId);
+
+    res.json(ApiResponseBuilder.success('Shipping quote retrieved', quote));
+  } catch (error) {
+    next(error);
+  }
+}
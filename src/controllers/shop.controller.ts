@@ -4,15 +4,22 @@ import createError from 'http-errors';
 import { logger } from '../utils/logger.js';
 import { ApiResponseBuilder } from '../utils/ApiResponse.js';
 import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
-import { r2Service } from '../services/r2.service.js';
+import { generateSlug } from '../utils/slug.utils.js';
+import { uploadShopLogo, uploadShopBanner, deleteFiles, extractKeyFromUrl } from '../utils/upload.file.js';
+import { getDerivativeKeys } from '../utils/image.processing.js';
+import type { ImageDerivatives } from '../utils/image.processing.js';
+import { getShopReviews as findShopReviews, createShopReview, deleteShopReview as removeShopReview } from '../services/review.service.js';
 
 const prisma = new PrismaClient();
 
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)/g, '');
+// Removes a replaced logo or banner together with its WebP derivatives
+async function removeShopImage(url: string | null, derivatives: unknown) {
+  if (!url) return;
+  try {
+    await deleteFiles([extractKeyFromUrl(url), ...getDerivativeKeys(derivatives)]);
+  } catch (error) {
+    logger.error(`Failed to remove shop image ${url}`, { error });
+  }
 }
 
 export async function createShop(
@@ -27,7 +34,7 @@ export async function createShop(
     const seller = await prisma.seller.findUnique({ where: { userId } });
     if (!seller) throw createError(403, 'You must be a registered seller to create a shop');
 
-    const { name, description, phone, email, address, returnPolicy, shippingPolicy, facebookUrl, twitterUrl, instagramUrl, linkedinUrl, youtubeUrl, tiktokUrl } = req.body;
+    const { name, description, phone, email, address, returnPolicy, shippingPolicy, pricesIncludeTax, currency, facebookUrl, twitterUrl, instagramUrl, linkedinUrl, youtubeUrl, tiktokUrl } = req.body;
     const files = req.files as { [fieldname: string]: Express.Multer.File[] };
 
     const existingShop = await prisma.shop.findFirst({ where: { sellerId: seller.id } });
@@ -39,23 +46,20 @@ export async function createShop(
 
     let logoUrl: string | null = null;
     let bannerUrl: string | null = null;
+    let logoDerivatives: ImageDerivatives | undefined;
+    let bannerDerivatives: ImageDerivatives | undefined;
 
-    if (files?.logo?.[0]) {
-      const logoResult = await r2Service.uploadFile(files.logo[0].buffer, {
-        folder: `shops/${seller.id}`,
-        filename: `logo-${Date.now()}`,
-        contentType: files.logo[0].mimetype,
-      });
-      logoUrl = logoResult.url;
-    }
-
+    // Banner first, it is the upload that can be rejected for its dimensions
     if (files?.banner?.[0]) {
-      const bannerResult = await r2Service.uploadFile(files.banner[0].buffer, {
-        folder: `shops/${seller.id}`,
-        filename: `banner-${Date.now()}`,
-        contentType: files.banner[0].mimetype,
-      });
+      const bannerResult = await uploadShopBanner(files.banner[0].buffer, files.banner[0].originalname, files.banner[0].mimetype, seller.id);
       bannerUrl = bannerResult.url;
+      bannerDerivatives = bannerResult.derivatives;
+    }
+
+    if (files?.logo?.[0]) {
+      const logoResult = await uploadShopLogo(files.logo[0].buffer, files.logo[0].originalname, files.logo[0].mimetype, seller.id);
+      logoUrl = logoResult.url;
+      logoDerivatives = logoResult.derivatives;
     }
 
     const shop = await prisma.shop.create({
@@ -69,6 +73,8 @@ export async function createShop(
         address,
         returnPolicy,
         shippingPolicy,
+        pricesIncludeTax,
+        currency,
         facebookUrl,
         twitterUrl,
         instagramUrl,
@@ -77,6 +83,8 @@ export async function createShop(
         tiktokUrl,
         logoUrl,
         bannerUrl,
+        logoDerivatives,
+        bannerDerivatives,
         status: 'PENDING',
       },
     });
@@ -88,6 +96,8 @@ export async function createShop(
       slug: shop.slug,
       logoUrl: shop.logoUrl,
       bannerUrl: shop.bannerUrl,
+      logoDerivatives: shop.logoDerivatives,
+      bannerDerivatives: shop.bannerDerivatives,
       status: shop.status,
     });
     res.json(response);
@@ -113,30 +123,33 @@ export async function updateShop(
     if (!shop) throw createError(404, 'Shop not found');
     if (shop.sellerId !== seller.id) throw createError(403, 'You can only update your own shop');
 
-    const { name, description, phone, email, address, returnPolicy, shippingPolicy, facebookUrl, twitterUrl, instagramUrl, linkedinUrl, youtubeUrl, tiktokUrl } = req.body;
+    const { name, description, phone, email, address, returnPolicy, shippingPolicy, pricesIncludeTax, currency, facebookUrl, twitterUrl, instagramUrl, linkedinUrl, youtubeUrl, tiktokUrl } = req.body;
     const files = req.files as { [fieldname: string]: Express.Multer.File[] };
 
+    // Prices are stored in the shop's currency, so it cannot change under existing products
+    if (currency && currency !== shop.currency && (await prisma.product.count({ where: { shopId: shop.id } })) > 0) {
+      throw createError(409, 'The currency of a shop with products cannot be changed');
+    }
+
     let logoUrl = shop.logoUrl;
     let bannerUrl = shop.bannerUrl;
+    // Left undefined, so the stored derivatives stay, unless a new image replaces them
+    let logoDerivatives: ImageDerivatives | undefined;
+    let bannerDerivatives: ImageDerivatives | undefined;
 
-    if (files?.logo?.[0]) {
-      if (shop.logoUrl) await r2Service.deleteFile(shop.logoUrl);
-      const logoResult = await r2Service.uploadFile(files.logo[0].buffer, {
-        folder: `shops/${seller.id}`,
-        filename: `logo-${Date.now()}`,
-        contentType: files.logo[0].mimetype,
-      });
-      logoUrl = logoResult.url;
-    }
-
+    // The old files are only removed once the replacement has been accepted and stored
     if (files?.banner?.[0]) {
-      if (shop.bannerUrl) await r2Service.deleteFile(shop.bannerUrl);
-      const bannerResult = await r2Service.uploadFile(files.banner[0].buffer, {
-        folder: `shops/${seller.id}`,
-        filename: `banner-${Date.now()}`,
-        contentType: files.banner[0].mimetype,
-      });
+      const bannerResult = await uploadShopBanner(files.banner[0].buffer, files.banner[0].originalname, files.banner[0].mimetype, seller.id);
+      await removeShopImage(shop.bannerUrl, shop.bannerDerivatives);
       bannerUrl = bannerResult.url;
+      bannerDerivatives = bannerResult.derivatives;
+    }
+
+    if (files?.logo?.[0]) {
+      const logoResult = await uploadShopLogo(files.logo[0].buffer, files.logo[0].originalname, files.logo[0].mimetype, seller.id);
+      await removeShopImage(shop.logoUrl, shop.logoDerivatives);
+      logoUrl = logoResult.url;
+      logoDerivatives = logoResult.derivatives;
     }
 
     let slug = shop.slug;
@@ -160,6 +173,8 @@ export async function updateShop(
         address: address ?? shop.address,
         returnPolicy: returnPolicy ?? shop.returnPolicy,
         shippingPolicy: shippingPolicy ?? shop.shippingPolicy,
+        pricesIncludeTax: pricesIncludeTax ?? shop.pricesIncludeTax,
+        currency: currency ?? shop.currency,
         facebookUrl: facebookUrl ?? shop.facebookUrl,
         twitterUrl: twitterUrl ?? shop.twitterUrl,
         instagramUrl: instagramUrl ?? shop.instagramUrl,
@@ -168,6 +183,8 @@ export async function updateShop(
         tiktokUrl: tiktokUrl ?? shop.tiktokUrl,
         logoUrl,
         bannerUrl,
+        logoDerivatives,
+        bannerDerivatives,
       },
     });
 
@@ -178,6 +195,8 @@ export async function updateShop(
       slug: updatedShop.slug,
       logoUrl: updatedShop.logoUrl,
       bannerUrl: updatedShop.bannerUrl,
+      logoDerivatives: updatedShop.logoDerivatives,
+      bannerDerivatives: updatedShop.bannerDerivatives,
       status: updatedShop.status,
     });
     res.json(response);
@@ -283,8 +302,8 @@ export async function deleteShop(
     if (!shop) throw createError(404, 'Shop not found');
     if (shop.sellerId !== seller.id) throw createError(403, 'You can only delete your own shop');
 
-    if (shop.logoUrl) await r2Service.deleteFile(shop.logoUrl);
-    if (shop.bannerUrl) await r2Service.deleteFile(shop.bannerUrl);
+    await removeShopImage(shop.logoUrl, shop.logoDerivatives);
+    await removeShopImage(shop.bannerUrl, shop.bannerDerivatives);
 
     await prisma.shop.delete({ where: { id: id as string } });
 
@@ -363,35 +382,10 @@ export async function addShopReview(
     const { id } = req.params;
     const { rating, comment } = req.body;
 
-    const shop = await prisma.shop.findUnique({ where: { id: id as string } });
-    if (!shop) throw createError(404, 'Shop not found');
-    if (shop.status !== 'ACTIVE') throw createError(400, 'Cannot review inactive shop');
-
-    if (rating < 1 || rating > 5) {
-      throw createError(400, 'Rating must be between 1 and 5');
-    }
+    const review = await createShopReview(userId, id as string, { rating: Number(rating), comment });
 
-    const existingReview = await prisma.shopReview.findFirst({
-      where: { userId, shopId: id as string },
-    });
-    if (existingReview) {
-      throw createError(400, 'You have already reviewed this shop');
-    }
-
-    const review = await prisma.shopReview.create({
-      data: { userId, shopId: id as string, rating: Number(rating), comment },
-    });
-
-    const reviews = await prisma.shopReview.findMany({ where: { shopId: id as string } });
-    const avgRating = reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length;
-
-    await prisma.shop.update({
-      where: { id: id as string },
-      data: { rating: avgRating, ratingCount: reviews.length },
-    });
-
-    logger.info(`Shop review added: ${review.id} for shop ${id}`);
-    const response = ApiResponseBuilder.created('Review added successfully', review);
+    const message = review.status === 'PENDING' ? 'Review submitted and awaiting moderation' : 'Review added successfully';
+    const response = ApiResponseBuilder.created(message, review);
     res.json(response);
   } catch (error) {
     next(error);
@@ -407,20 +401,8 @@ export async function getShopReviews(
     const { id } = req.params;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
 
-    const shop = await prisma.shop.findUnique({ where: { id: id as string } });
-    if (!shop) throw createError(404, 'Shop not found');
-
-    const reviews = await prisma.shopReview.findMany({
-      where: { shopId: id as string },
-      include: { user: { select: { firstName: true, lastName: true, avatarUrl: true } } },
-      skip,
-      take: limit,
-      orderBy: { createdAt: 'desc' },
-    });
-
-    const total = await prisma.shopReview.count({ where: { shopId: id as string } });
+    const { shop, reviews, total } = await findShopReviews(id as string, page, limit);
 
     const response = ApiResponseBuilder.success('Reviews retrieved', {
       reviews,
@@ -441,24 +423,10 @@ export async function deleteShopReview(
 ): Promise<void> {
   try {
     const userPayload = (req as any).user;
-    const userId = userPayload.userId;
     const { id, reviewId } = req.params;
 
-    const review = await prisma.shopReview.findUnique({ where: { id: reviewId as string } });
-    if (!review) throw createError(404, 'Review not found');
-    if (review.userId !== userId) throw createError(403, 'Not authorized to delete this review');
-
-    await prisma.shopReview.delete({ where: { id: reviewId as string } });
-
-    const reviews = await prisma.shopReview.findMany({ where: { shopId: id as string } });
-    const avgRating = reviews.length > 0 ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : null;
-
-    await prisma.shop.update({
-      where: { id: id as string },
-      data: { rating: avgRating, ratingCount: reviews.length },
-    });
+    await removeShopReview({ userId: userPayload.userId, role: userPayload.role }, id as string, reviewId as string);
 
-    logger.info(`Shop review deleted: ${reviewId}`);
     const response = ApiResponseBuilder.success('Review deleted successfully', null);
     res.json(response);
   } catch (error) {
@@ -481,14 +449,14 @@ export async function getMyShopStats(
     const shop = await prisma.shop.findFirst({
       where: { sellerId: seller.id },
       include: {
-        _count: { select: { products: true, reviews: true, ads: true } },
-        reviews: { select: { rating: true }, orderBy: { createdAt: 'desc' }, take: 10 },
+        _count: { select: { products: true, reviews: { where: { status: 'PUBLISHED' } }, ads: true } },
+        reviews: { where: { status: 'PUBLISHED' }, select: { rating: true }, orderBy: { createdAt: 'desc' }, take: 10 },
       },
     });
 
     if (!shop) throw createError(404, 'Shop not found');
 
-    const totalReviews = await prisma.shopReview.count({ where: { shopId: shop.id } });
+    const totalReviews = await prisma.shopReview.count({ where: { shopId: shop.id, status: 'PUBLISHED' } });
     const averageRating = shop.rating;
 
     const stats = {
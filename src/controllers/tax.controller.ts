@@ -0,0 +1,95 @@
+import type { Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getTaxRates,
+  createTaxRate,
+  updateTaxRate,
+  deleteTaxRate,
+  setCategoryTaxRate,
+} from '../services/tax.service.js';
+import type { TaxRateRequest } from '../utils/type.js';
+
+export async function listTaxRates(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const taxRates = await getTaxRates();
+
+    res.json(ApiResponseBuilder.success('Tax rates retrieved', taxRates));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addTaxRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { name, rate, isDefault } = req.body as TaxRateRequest;
+
+    const taxRate = await createTaxRate(userPayload.userId, { name, rate, isDefault });
+
+    res.status(201).json(ApiResponseBuilder.created('Tax rate created successfully', taxRate));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function editTaxRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+    const { name, rate, isDefault } = req.body as Partial<TaxRateRequest>;
+
+    const taxRate = await updateTaxRate(userPayload.userId, id as string, { name, rate, isDefault });
+
+    res.json(ApiResponseBuilder.success('Tax rate updated successfully', taxRate));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeTaxRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { id } = req.params;
+
+    await deleteTaxRate(userPayload.userId, id as string);
+
+    res.json(ApiResponseBuilder.success('Tax rate deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function assignCategoryTaxRate(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const { categoryId } = req.params;
+    const { taxRateId } = req.body as { taxRateId: string | null };
+
+    const category = await setCategoryTaxRate(userPayload.userId, categoryId as string, taxRateId ?? null);
+
+    res.json(ApiResponseBuilder.success('Category tax rate updated', category));
+  } catch (error) {
+    next(error);
+  }
+}
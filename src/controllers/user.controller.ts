@@ -460,6 +460,14 @@ export async function getMyOrderById(
       where: { id, userId },
       include: {
         items: { include: { product: { select: { id: true, name: true, description: true, basePrice: true, images: { select: { imageUrl: true, isPrimary: true }, take: 1 } } } } },
+        shopOrders: {
+          include: {
+            shop: { select: { id: true, name: true, slug: true } },
+            transitions: { orderBy: { createdAt: 'asc' } },
+            shipment: { include: { events: { orderBy: { occurredAt: 'asc' } } } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
         payments: true,
       },
     });
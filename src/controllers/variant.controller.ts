@@ -0,0 +1,449 @@
+import type { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import createError from 'http-errors';
+import { logger } from '../utils/logger.js';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import { findSellerProduct } from './product.controller.js';
+import { recordMovements, setStockLevel } from '../services/inventory.service.js';
+import { notifyWishlistPriceDrops } from '../services/wishlist.service.js';
+import {
+  MAX_VARIANTS_PER_PRODUCT,
+  buildVariantMatrix,
+  buildVariantSku,
+  countVariantCombinations,
+  getCombinationKey,
+  validateVariantAttributes,
+} from '../utils/variant.utils.js';
+import type { VariantOption, VariantAttributes } from '../utils/variant.utils.js';
+import type { BulkUpdateVariantItem } from '../utils/type.js';
+
+const prisma = new PrismaClient();
+
+async function getProductOptions(productId: string): Promise<VariantOption[]> {
+  const options = await prisma.productOption.findMany({
+    where: { productId },
+    orderBy: { position: 'asc' },
+  });
+  return options.map((option) => ({ name: option.name, values: option.values }));
+}
+
+async function generateUniqueSku(base: string, reserved: Set<string>): Promise<string> {
+  const existing = await prisma.productVariant.findMany({
+    where: { sku: { startsWith: base } },
+    select: { sku: true },
+  });
+  const taken = new Set([...existing.map((variant) => variant.sku), ...reserved]);
+
+  let sku = base;
+  for (let suffix = 2; taken.has(sku); suffix++) {
+    sku = `${base}-${suffix}`;
+  }
+  reserved.add(sku);
+  return sku;
+}
+
+async function assertSkuAvailable(sku: string, excludeVariantId?: string) {
+  const existing = await prisma.productVariant.findUnique({ where: { sku } });
+  if (existing && existing.id !== excludeVariantId) throw createError(409, `SKU ${sku} is already in use`);
+}
+
+interface VariantRemoval {
+  deleteIds: string[];
+  archiveIds: string[];
+  // Archived variants whose units still on hand are written off through the ledger
+  writeOffIds: string[];
+}
+
+/**
+ * Works out how variants can be taken off a product. Variants held by a
+ * pending checkout are refused; those with stock movements or orders are
+ * archived so the inventory ledger and order history keep pointing at them,
+ * and only variants that never held stock are deleted.
+ */
+export async function planVariantRemoval(variantIds: string[]): Promise<VariantRemoval> {
+  if (variantIds.length === 0) return { deleteIds: [], archiveIds: [], writeOffIds: [] };
+
+  const held = await prisma.stockReservation.findFirst({
+    where: { productVariantId: { in: variantIds }, status: 'ACTIVE' },
+    select: { productVariant: { select: { sku: true } } },
+  });
+  if (held) throw createError(409, `Variant ${held.productVariant.sku} is held by a pending checkout. Try again later`);
+
+  const variants = await prisma.productVariant.findMany({
+    where: { id: { in: variantIds } },
+    select: {
+      id: true,
+      _count: { select: { orderItems: true } },
+      inventory: { select: { quantity: true, _count: { select: { movements: true } } } },
+    },
+  });
+
+  const removal: VariantRemoval = { deleteIds: [], archiveIds: [], writeOffIds: [] };
+  for (const variant of variants) {
+    if (variant._count.orderItems === 0 && (variant.inventory?._count.movements ?? 0) === 0) {
+      removal.deleteIds.push(variant.id);
+      continue;
+    }
+    removal.archiveIds.push(variant.id);
+    if (variant.inventory && variant.inventory.quantity !== 0) removal.writeOffIds.push(variant.id);
+  }
+  return removal;
+}
+
+// Pass the transaction client when the removal is part of a larger interactive transaction
+export function variantRemovalOperations(
+  removal: VariantRemoval,
+  db: Prisma.TransactionClient = prisma
+): Prisma.PrismaPromise<unknown>[] {
+  return [
+    db.productVariant.updateMany({ where: { id: { in: removal.archiveIds } }, data: { archivedAt: new Date() } }),
+    db.cartItem.deleteMany({ where: { productVariantId: { in: removal.archiveIds } } }),
+    db.stockReservation.deleteMany({ where: { productVariantId: { in: removal.deleteIds } } }),
+    db.inventory.deleteMany({ where: { productVariantId: { in: removal.deleteIds } } }),
+    db.productVariant.deleteMany({ where: { id: { in: removal.deleteIds } } }),
+  ];
+}
+
+async function writeOffArchivedStock(removal: VariantRemoval, actorId: string) {
+  for (const variantId of removal.writeOffIds) {
+    await setStockLevel(variantId, 0, actorId, 'Variant archived');
+  }
+}
+
+export async function setProductOptions(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const options: VariantOption[] = (req.body.options as VariantOption[]).map((option) => ({
+      name: option.name.trim(),
+      values: option.values.map((value) => value.trim()),
+    }));
+
+    const names = options.map((option) => option.name.toLowerCase());
+    if (new Set(names).size !== names.length) throw createError(400, 'Option names must be unique');
+
+    const duplicateValues = options.find((option) => new Set(option.values).size !== option.values.length);
+    if (duplicateValues) throw createError(400, `Option "${duplicateValues.name}" has duplicate values`);
+
+    if (countVariantCombinations(options) > MAX_VARIANTS_PER_PRODUCT) {
+      throw createError(400, `These options would produce more than ${MAX_VARIANTS_PER_PRODUCT} variants`);
+    }
+
+    await prisma.$transaction([
+      prisma.productOption.deleteMany({ where: { productId: product.id } }),
+      prisma.productOption.createMany({
+        data: options.map((option, index) => ({
+          productId: product.id,
+          name: option.name,
+          values: option.values,
+          position: index,
+        })),
+      }),
+    ]);
+
+    const variants = await prisma.productVariant.findMany({ where: { productId: product.id, archivedAt: null } });
+    const staleVariants = variants.filter((variant) => getCombinationKey(options, variant.attributes) === null).length;
+
+    logger.info(`Product options updated: ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Product options updated successfully', { options, staleVariants });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function generateVariants(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const { price, stock, weight } = req.body;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const options = await getProductOptions(product.id);
+    if (options.length === 0) throw createError(400, 'Declare product options before generating variants');
+
+    const allVariants = await prisma.productVariant.findMany({ where: { productId: product.id } });
+    const existingVariants = allVariants.filter((variant) => variant.archivedAt === null);
+    const existingKeys = new Map(
+      existingVariants.map((variant) => [getCombinationKey(options, variant.attributes), variant])
+    );
+    // A combination that comes back brings its archived variant back rather than a new SKU
+    const archivedKeys = new Map<string | null, string>();
+    for (const variant of allVariants) {
+      if (variant.archivedAt !== null) archivedKeys.set(getCombinationKey(options, variant.attributes), variant.id);
+    }
+
+    const matrix = buildVariantMatrix(options);
+    const matrixKeys = new Set(matrix.map((attributes) => getCombinationKey(options, attributes)));
+
+    // Variants left over from earlier axes no longer fit the picker, so they are taken off the product
+    const staleVariants = existingVariants.filter((variant) => {
+      const key = getCombinationKey(options, variant.attributes);
+      return key === null || !matrixKeys.has(key);
+    });
+
+    const reservedSkus = new Set<string>();
+    const newVariants: {
+      productId: string;
+      sku: string;
+      price: number;
+      stock: number;
+      weight: number | null;
+      attributes: VariantAttributes;
+    }[] = [];
+    const restoredIds: string[] = [];
+    for (const attributes of matrix) {
+      const key = getCombinationKey(options, attributes);
+      if (existingKeys.has(key)) continue;
+
+      const archivedId = archivedKeys.get(key);
+      if (archivedId) {
+        restoredIds.push(archivedId);
+        continue;
+      }
+
+      const sku = await generateUniqueSku(buildVariantSku(product.name, product.id, options, attributes), reservedSkus);
+      newVariants.push({
+        productId: product.id,
+        sku,
+        price: price !== undefined ? Number(price) : product.basePrice,
+        stock: 0,
+        weight: weight !== undefined ? Number(weight) : null,
+        attributes,
+      });
+    }
+
+    const removal = await planVariantRemoval(staleVariants.map((variant) => variant.id));
+    await prisma.$transaction([
+      ...variantRemovalOperations(removal),
+      prisma.productVariant.updateMany({ where: { id: { in: restoredIds } }, data: { archivedAt: null } }),
+      prisma.productVariant.createMany({ data: newVariants }),
+    ]);
+    await writeOffArchivedStock(removal, userId);
+
+    if (stock !== undefined && Number(stock) > 0) {
+      const created = await prisma.productVariant.findMany({
+        where: { sku: { in: newVariants.map((variant) => variant.sku) } },
+        select: { id: true },
+      });
+      await recordMovements(
+        created.map((variant) => ({
+          variantId: variant.id,
+          type: 'RESTOCK' as const,
+          quantity: Number(stock),
+          reason: 'Initial stock',
+          actorId: userId,
+        }))
+      );
+    }
+
+    const variants = await prisma.productVariant.findMany({
+      where: { productId: product.id, archivedAt: null },
+      orderBy: { sku: 'asc' },
+    });
+
+    logger.info(
+      `Variants generated for product ${product.id}: ${newVariants.length} created, ${restoredIds.length} restored, ` +
+        `${removal.deleteIds.length} removed, ${removal.archiveIds.length} archived`
+    );
+    const response = ApiResponseBuilder.success('Variants generated successfully', {
+      created: newVariants.length,
+      restored: restoredIds.length,
+      removed: removal.deleteIds.length,
+      archived: removal.archiveIds.length,
+      variants,
+    });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getProductVariants(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const [options, variants] = await Promise.all([
+      getProductOptions(product.id),
+      prisma.productVariant.findMany({ where: { productId: product.id, archivedAt: null }, orderBy: { sku: 'asc' } }),
+    ]);
+
+    const response = ApiResponseBuilder.success('Variants retrieved', { options, variants });
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createVariant(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const { sku, price, stock, weight, attributes } = req.body;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const options = await getProductOptions(product.id);
+    const existingVariants = await prisma.productVariant.findMany({ where: { productId: product.id, archivedAt: null } });
+
+    if (options.length === 0) {
+      // Products without options sell a single default variant
+      if (attributes !== undefined) throw createError(400, 'Declare product options before adding attributes');
+      if (existingVariants.length > 0) throw createError(400, 'Products without options can only have one variant');
+    } else {
+      const attributesError = validateVariantAttributes(options, attributes);
+      if (attributesError) throw createError(400, attributesError);
+
+      const key = getCombinationKey(options, attributes);
+      if (existingVariants.some((variant) => getCombinationKey(options, variant.attributes) === key)) {
+        throw createError(409, 'A variant with these options already exists');
+      }
+    }
+
+    const variantSku = sku
+      ? sku.trim().toUpperCase()
+      : await generateUniqueSku(buildVariantSku(product.name, product.id, options, attributes ?? {}), new Set());
+    await assertSkuAvailable(variantSku);
+
+    const variant = await prisma.productVariant.create({
+      data: {
+        productId: product.id,
+        sku: variantSku,
+        price: price !== undefined ? Number(price) : product.basePrice,
+        stock: 0,
+        weight: weight !== undefined ? Number(weight) : null,
+        attributes: options.length > 0 ? attributes : undefined,
+      },
+    });
+
+    if (stock !== undefined && Number(stock) > 0) {
+      await recordMovements([
+        { variantId: variant.id, type: 'RESTOCK', quantity: Number(stock), reason: 'Initial stock', actorId: userId },
+      ]);
+    }
+
+    logger.info(`Variant created: ${variant.id} for product ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.created('Variant created successfully', variant);
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function bulkUpdateVariants(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id } = req.params;
+    const items = req.body.variants as BulkUpdateVariantItem[];
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const ids = items.map((item) => item.id);
+    if (new Set(ids).size !== ids.length) throw createError(400, 'Each variant can only appear once');
+
+    const variants = await prisma.productVariant.findMany({ where: { id: { in: ids }, productId: product.id, archivedAt: null } });
+    if (variants.length !== ids.length) throw createError(404, 'One or more variants were not found on this product');
+
+    const skus = items.filter((item) => item.sku).map((item) => item.sku!.trim().toUpperCase());
+    if (new Set(skus).size !== skus.length) throw createError(400, 'SKUs must be unique');
+    for (const item of items) {
+      if (item.sku) await assertSkuAvailable(item.sku.trim().toUpperCase(), item.id);
+    }
+
+    await prisma.$transaction(
+      items.map((item) =>
+        prisma.productVariant.update({
+          where: { id: item.id },
+          data: {
+            ...(item.sku && { sku: item.sku.trim().toUpperCase() }),
+            ...(item.price !== undefined && { price: Number(item.price) }),
+            ...(item.weight !== undefined && { weight: item.weight === null ? null : Number(item.weight) }),
+          },
+        })
+      )
+    );
+
+    for (const item of items) {
+      if (item.stock !== undefined) await setStockLevel(item.id, Number(item.stock), userId, 'Bulk variant edit');
+    }
+    if (items.some((item) => item.price !== undefined)) await notifyWishlistPriceDrops(product.id);
+
+    const updatedVariants = await prisma.productVariant.findMany({
+      where: { productId: product.id, archivedAt: null },
+      orderBy: { sku: 'asc' },
+    });
+
+    logger.info(`Bulk updated ${items.length} variant(s) on product ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success('Variants updated successfully', updatedVariants);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteVariant(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userPayload = (req as any).user;
+    const userId = userPayload.userId;
+    const { id, variantId } = req.params;
+
+    const { product } = await findSellerProduct(userId, id as string);
+
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: variantId as string, productId: product.id, archivedAt: null },
+    });
+    if (!variant) throw createError(404, 'Variant not found');
+
+    const removal = await planVariantRemoval([variant.id]);
+    await prisma.$transaction(variantRemovalOperations(removal));
+    await writeOffArchivedStock(removal, userId);
+
+    const archived = removal.archiveIds.length > 0;
+    logger.info(`Variant ${archived ? 'archived' : 'deleted'}: ${variant.id} from product ${product.id} by user ${userId}`);
+    const response = ApiResponseBuilder.success(
+      archived ? 'Variant archived, its stock and order history are kept' : 'Variant deleted successfully',
+      null
+    );
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+}
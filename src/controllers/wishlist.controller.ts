@@ -0,0 +1,146 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ApiResponseBuilder } from '../utils/ApiResponse.js';
+import type { AuthenticatedRequest } from '../middlewares/authenticate.js';
+import {
+  getMyWishlists,
+  getMyWishlist,
+  createWishlist,
+  updateWishlist,
+  deleteWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  getSharedWishlist,
+} from '../services/wishlist.service.js';
+import type { WishlistItemRequest, WishlistRequest } from '../utils/type.js';
+
+function getUserId(req: AuthenticatedRequest): string {
+  return (req as any).user.userId;
+}
+
+export async function listMyWishlists(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const wishlists = await getMyWishlists(getUserId(req));
+
+    res.json(ApiResponseBuilder.success('Wishlists retrieved', wishlists));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { name, isPublic } = req.body as WishlistRequest;
+
+    const wishlist = await createWishlist(getUserId(req), { name, isPublic });
+
+    res.status(201).json(ApiResponseBuilder.created('Wishlist created successfully', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { wishlistId } = req.params;
+
+    const wishlist = await getMyWishlist(getUserId(req), wishlistId as string);
+
+    res.json(ApiResponseBuilder.success('Wishlist retrieved', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function editWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { wishlistId } = req.params;
+    const { name, isPublic } = req.body as Partial<WishlistRequest>;
+
+    const wishlist = await updateWishlist(getUserId(req), wishlistId as string, { name, isPublic });
+
+    res.json(ApiResponseBuilder.success('Wishlist updated successfully', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { wishlistId } = req.params;
+
+    await deleteWishlist(getUserId(req), wishlistId as string);
+
+    res.json(ApiResponseBuilder.success('Wishlist deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addItemToWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { wishlistId } = req.params;
+    const { productId, variantId } = req.body as WishlistItemRequest;
+
+    const wishlist = await addWishlistItem(getUserId(req), wishlistId as string, { productId, variantId });
+
+    res.status(201).json(ApiResponseBuilder.created('Item saved to wishlist', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function removeItemFromWishlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { wishlistId, itemId } = req.params;
+
+    const wishlist = await removeWishlistItem(getUserId(req), wishlistId as string, itemId as string);
+
+    res.json(ApiResponseBuilder.success('Item removed from wishlist', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function viewSharedWishlist(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { shareToken } = req.params;
+
+    const wishlist = await getSharedWishlist(shareToken as string);
+
+    res.json(ApiResponseBuilder.success('Wishlist retrieved', wishlist));
+  } catch (error) {
+    next(error);
+  }
+}
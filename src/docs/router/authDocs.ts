@@ -62,6 +62,12 @@
  *     summary: Login with email and password
  *     tags: [Authentication]
  *     security: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Cart-Token
+ *         schema:
+ *           type: string
+ *         description: Guest cart token. Its items are merged into the user's cart on login
  *     requestBody:
  *       required: true
  *       content:
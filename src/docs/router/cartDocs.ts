@@ -0,0 +1,156 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Cart
+ *   description: Shopping cart for guests and logged-in customers
+ */
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     CartToken:
+ *       in: header
+ *       name: X-Cart-Token
+ *       schema:
+ *         type: string
+ *       description: |
+ *         Identifies a guest cart. Returned in the X-Cart-Token response header and the `token`
+ *         field the first time a guest adds an item. Ignored when a bearer token is sent.
+ */
+
+/**
+ * @swagger
+ * /api/v1/cart:
+ *   get:
+ *     summary: Get the current cart
+ *     description: |
+ *       Prices are recalculated from the current variant price minus the product discount.
+ *       Lines whose price changed since the last view carry `previousUnitPrice`. Items that
+ *       are no longer purchasable or exceed available stock are listed in `unavailableItems`
+ *       and left out of `subtotal`.
+ *
+ *       A cart holds products priced in one currency, given in `currency`. Adding a product
+ *       from a shop selling in another currency is refused.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *       - $ref: '#/components/parameters/DisplayCurrency'
+ *     responses:
+ *       200:
+ *         description: Cart retrieved
+ *   delete:
+ *     summary: Remove every item from the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *     responses:
+ *       200:
+ *         description: Cart cleared
+ *       404:
+ *         description: Cart not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/cart/items:
+ *   post:
+ *     summary: Add a variant to the cart
+ *     description: Adding a variant already in the cart increases its quantity.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - variantId
+ *             properties:
+ *               variantId:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *                 default: 1
+ *                 minimum: 1
+ *                 maximum: 99
+ *     responses:
+ *       200:
+ *         description: Item added to cart
+ *       400:
+ *         description: Product is not available for purchase
+ *       404:
+ *         description: Variant not found
+ *       409:
+ *         description: Not enough stock
+ */
+
+/**
+ * @swagger
+ * /api/v1/cart/items/{itemId}:
+ *   patch:
+ *     summary: Change the quantity of a cart item
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart item ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 99
+ *                 description: 0 removes the item
+ *     responses:
+ *       200:
+ *         description: Cart updated
+ *       404:
+ *         description: Cart or item not found
+ *       409:
+ *         description: Not enough stock
+ *   delete:
+ *     summary: Remove an item from the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - $ref: '#/components/parameters/CartToken'
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Cart item ID
+ *     responses:
+ *       200:
+ *         description: Item removed from cart
+ *       404:
+ *         description: Cart or item not found
+ */
@@ -0,0 +1,241 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Categories
+ *   description: Product category tree
+ */
+
+// ============================================
+// PUBLIC APIS - Category Browsing
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/categories/tree:
+ *   get:
+ *     summary: Get the active category tree (public)
+ *     description: Disabled categories are left out together with their subcategories. Each node carries a count of its published products.
+ *     tags: [Categories, Public]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Category tree retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/categories/slug/{slug}:
+ *   get:
+ *     summary: Resolve a category by slug (public)
+ *     description: Returns the category with its breadcrumb (root first) and its active subcategories.
+ *     tags: [Categories, Public]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category slug
+ *     responses:
+ *       200:
+ *         description: Category retrieved
+ *       404:
+ *         description: Category not found or disabled
+ */
+
+// ============================================
+// ADMIN APIS - Category Management
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/categories:
+ *   get:
+ *     summary: Get the full category tree including disabled categories (admin)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Categories retrieved
+ *       403:
+ *         description: Admin access required
+ *   post:
+ *     summary: Create a category (admin)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Home & Kitchen"
+ *               description:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent category ID, omit for a root category
+ *     responses:
+ *       201:
+ *         description: Category created successfully
+ *       400:
+ *         description: Validation error, unknown parent or duplicate name
+ *       403:
+ *         description: Admin access required
+ */
+
+/**
+ * @swagger
+ * /api/v1/categories/reorder:
+ *   put:
+ *     summary: Reorder the subcategories of a parent (admin)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderedIds
+ *             properties:
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent category ID, omit to reorder root categories
+ *               orderedIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Every subcategory ID of the parent, in the new order
+ *     responses:
+ *       200:
+ *         description: Categories reordered successfully
+ *       400:
+ *         description: orderedIds does not match the parent's subcategories
+ *       403:
+ *         description: Admin access required
+ */
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}:
+ *   put:
+ *     summary: Rename, describe or move a category (admin)
+ *     description: Renaming regenerates the slug. Set parentId to null to move a category to the root.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Category updated successfully
+ *       400:
+ *         description: Validation error, duplicate name or move under its own subcategory
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Category not found
+ *   delete:
+ *     summary: Delete a category (admin)
+ *     description: Only empty categories can be deleted. Categories with products or subcategories should be disabled instead.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *     responses:
+ *       200:
+ *         description: Category deleted successfully
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: Category still has products or subcategories
+ */
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}/disable:
+ *   post:
+ *     summary: Disable a category (admin)
+ *     description: Hides the category and its subcategories from the public tree. Products cannot be published in a disabled category.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *     responses:
+ *       200:
+ *         description: Category disabled successfully
+ *       400:
+ *         description: Category is already disabled
+ *       404:
+ *         description: Category not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}/enable:
+ *   post:
+ *     summary: Re-enable a disabled category (admin)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *     responses:
+ *       200:
+ *         description: Category enabled successfully
+ *       400:
+ *         description: Category is already enabled
+ *       404:
+ *         description: Category not found
+ */
@@ -0,0 +1,186 @@
+/**
+ * @swagger
+ * /api/v1/coupons/validate:
+ *   post:
+ *     summary: Check a coupon against my cart
+ *     description: |
+ *       Works out what the coupon would take off the available items in the cart without using
+ *       it. The coupon is only redeemed when it is sent with the checkout. `total` is before
+ *       shipping; free shipping coupons waive the delivery fee at checkout.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME10
+ *     responses:
+ *       200:
+ *         description: Coupon applies to the cart
+ *       400:
+ *         description: Cart is empty, coupon expired, not started, or no item qualifies
+ *       404:
+ *         description: Coupon not found
+ *       409:
+ *         description: Coupon fully redeemed or already used by this customer
+ */
+
+/**
+ * @swagger
+ * /api/v1/coupons:
+ *   post:
+ *     summary: Create a coupon (Admin or Seller)
+ *     description: |
+ *       Sellers create coupons for their own shop and pay for the discount. Coupons created by an
+ *       administrator without a `shopId` are platform coupons: the platform pays the discount and
+ *       sellers are credited the full price in their payout ledger.
+ *
+ *       `scope` narrows the items a coupon applies to: `PLATFORM` (everything), `SHOP`,
+ *       `CATEGORY` (with its subcategories) or `PRODUCTS`. `PERCENTAGE` coupons may cap the
+ *       discount with `maxDiscount`; `FREE_SHIPPING` coupons need no `value`.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - type
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME10
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED_AMOUNT, FREE_SHIPPING]
+ *               value:
+ *                 type: number
+ *                 example: 10
+ *               maxDiscount:
+ *                 type: number
+ *               scope:
+ *                 type: string
+ *                 enum: [PLATFORM, SHOP, CATEGORY, PRODUCTS]
+ *               shopId:
+ *                 type: string
+ *               categoryId:
+ *                 type: string
+ *               productIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               minOrderValue:
+ *                 type: number
+ *               usageLimit:
+ *                 type: integer
+ *               perUserLimit:
+ *                 type: integer
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Coupon created successfully
+ *       400:
+ *         description: Invalid value, dates or target
+ *       404:
+ *         description: Shop or category not found
+ *       409:
+ *         description: Code already in use
+ *   get:
+ *     summary: List coupons (Admin or Seller)
+ *     description: Administrators see every coupon, sellers the coupons of their shops.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Coupons retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/coupons/{id}:
+ *   get:
+ *     summary: Get a coupon with its total discount given (Admin or Seller)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon retrieved
+ *       404:
+ *         description: Coupon not found
+ *   patch:
+ *     summary: Update a coupon (Admin or Seller)
+ *     description: |
+ *       Takes the same fields as creation. Once a coupon has been redeemed only its description,
+ *       limits, dates and `isActive` can change.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon updated successfully
+ *       404:
+ *         description: Coupon not found
+ *       409:
+ *         description: Code already in use or coupon already redeemed
+ *   delete:
+ *     summary: Deactivate a coupon (Admin or Seller)
+ *     description: The coupon is kept for the orders that used it but can no longer be redeemed.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deactivated
+ *       404:
+ *         description: Coupon not found
+ */
@@ -0,0 +1,85 @@
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     DisplayCurrency:
+ *       in: query
+ *       name: currency
+ *       schema:
+ *         type: string
+ *         enum: [RWF, USD, EUR, KES]
+ *       description: |
+ *         Adds a `display` object with the prices converted into this currency. Only for showing
+ *         prices; amounts are charged in the shop's currency. Omitted for shops whose currency
+ *         has no exchange rate.
+ */
+
+/**
+ * @swagger
+ * /api/v1/currencies:
+ *   get:
+ *     summary: List supported currencies and exchange rates (public)
+ *     description: |
+ *       Shops sell and are paid in their own currency, chosen when the shop is created. All
+ *       amounts in the API are whole minor units of their currency, e.g. 1250 USD is $12.50 and
+ *       1500 RWF is RWF 1,500. Exchange rates are given against the platform currency and are
+ *       only used to show prices in another currency (`?currency=` on products, search and the
+ *       cart, `displayCurrency` at checkout); orders are always charged in the shop's currency.
+ *     tags: [Currencies, Public]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Exchange rates retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/currencies/rates/{currency}:
+ *   put:
+ *     summary: Set the exchange rate of a currency (Admin only)
+ *     tags: [Currencies, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [USD, EUR, KES]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rate
+ *             properties:
+ *               rate:
+ *                 type: number
+ *                 description: Units of the currency worth one unit of the platform currency
+ *                 example: 0.00075
+ *     responses:
+ *       200:
+ *         description: Exchange rate saved
+ *       400:
+ *         description: Unsupported currency, the platform currency or an invalid rate
+ *   delete:
+ *     summary: Delete the exchange rate of a currency (Admin only)
+ *     description: Prices can no longer be shown in the currency; shops pricing in it keep selling.
+ *     tags: [Currencies, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted successfully
+ *       404:
+ *         description: Exchange rate not found
+ */
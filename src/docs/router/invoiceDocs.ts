@@ -0,0 +1,86 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InvoiceLink:
+ *       type: object
+ *       properties:
+ *         number:
+ *           type: string
+ *           example: INV-2026-000042
+ *         issuedAt:
+ *           type: string
+ *           format: date-time
+ *         total:
+ *           type: number
+ *         currency:
+ *           type: string
+ *           example: RWF
+ *         url:
+ *           type: string
+ *           description: Signed link to the PDF, valid until expiresAt
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/invoices/orders/{orderId}:
+ *   get:
+ *     summary: Get the invoice of an order
+ *     description: |
+ *       Covers every shop's part of the order except cancelled ones. The invoice is numbered
+ *       and stored the first time it is requested, once the order is paid; later requests
+ *       return the same PDF behind a new short-lived link. Available to the customer and administrators.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InvoiceLink'
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is not paid yet or was cancelled
+ */
+
+/**
+ * @swagger
+ * /api/v1/invoices/shop-orders/{shopOrderId}:
+ *   get:
+ *     summary: Get the invoice of one shop's part of an order
+ *     description: |
+ *       Issued in the name of the shop, with its contact details. Available to the customer,
+ *       the seller of the shop and administrators.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: shopOrderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InvoiceLink'
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is not paid yet or this part was cancelled
+ */
@@ -0,0 +1,329 @@
+/**
+ * @swagger
+ * /api/v1/orders/checkout:
+ *   post:
+ *     summary: Place an order from the cart
+ *     description: |
+ *       Creates one order for the customer with a sub-order per shop. Prices, product names and
+ *       variant details are copied onto the order items, stock is reserved under the order ID
+ *       and the purchased items are removed from the cart. Sending the same Idempotency-Key
+ *       again returns the order created by the first request instead of a new one. A
+ *       `couponCode` is checked against the cart and its discount is spread over the eligible
+ *       items; each order item keeps its share in `discount`.
+ *
+ *       Each shop sub-order is charged the delivery option chosen for its shop in `shipping`, or
+ *       the cheapest option the shop offers for the address city (see `GET /shipping/quote`).
+ *       Free shipping coupons waive the fee of the shops they apply to. Shops without shipping
+ *       zones ship at no charge.
+ *
+ *       Tax is calculated per item at the rate of its category (see Taxes) and kept in
+ *       `taxRate` and `taxAmount`. It is added to the total for shops whose prices exclude tax.
+ *
+ *       The order is charged in the currency of the cart. With `displayCurrency`, the order also
+ *       keeps the exchange rate at checkout so totals can be shown in that currency later.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Unique per checkout attempt; reuse it when retrying the same checkout
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - addressId
+ *             properties:
+ *               addressId:
+ *                 type: string
+ *                 description: One of the customer's saved addresses
+ *               couponCode:
+ *                 type: string
+ *                 example: WELCOME10
+ *               shipping:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - shopId
+ *                     - method
+ *                   properties:
+ *                     shopId:
+ *                       type: string
+ *                     method:
+ *                       type: string
+ *                       enum: [STANDARD, EXPRESS, PICKUP]
+ *               displayCurrency:
+ *                 type: string
+ *                 enum: [RWF, USD, EUR, KES]
+ *                 description: Currency the customer views prices in; must have an exchange rate
+ *     responses:
+ *       200:
+ *         description: Order already placed with this Idempotency-Key
+ *       201:
+ *         description: Order placed successfully
+ *       400:
+ *         description: Cart is empty, the coupon does not apply, a chosen delivery option is not offered or validation failed
+ *       404:
+ *         description: Address or coupon not found
+ *       409:
+ *         description: Items are unavailable, out of stock, their prices changed since the cart was last viewed, or the coupon is used up, or a shop does not deliver to the address
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel one of my orders
+ *     description: |
+ *       Cancels every shop order of the order. Only possible while none of them has shipped.
+ *       Held stock is released and stock already sold to the order is returned to inventory.
+ *       Completed payments are refunded in full through their provider, see `payments[].refunds`.
+ *       Pending cash on delivery payments are voided; a payment still open at an online provider
+ *       is refunded automatically if the customer completes it after cancelling.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Order ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Order cancelled
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order has shipped or is already cancelled
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders:
+ *   get:
+ *     summary: List the orders of my shop
+ *     description: |
+ *       Each entry is the seller's part of a customer order (a shop order) with the order's
+ *       payment status and the customer's name.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, CONFIRMED, SHIPPED, DELIVERED, CANCELLED]
+ *       - in: query
+ *         name: paymentStatus
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, COMPLETED, FAILED, REFUNDED]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Orders retrieved
+ *       403:
+ *         description: Not a seller
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders/stats:
+ *   get:
+ *     summary: Revenue and units sold of my shop over time
+ *     description: |
+ *       Orders, units and revenue per day, week (starting Monday) or month in UTC, with totals,
+ *       in one entry per order currency. Revenue is in minor units of that currency, before
+ *       returns, and cancelled orders are excluded. Defaults to the last 30 days, 12 weeks or
+ *       12 months depending on the interval.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Sales stats retrieved
+ *       403:
+ *         description: Not a seller
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders/{id}:
+ *   get:
+ *     summary: Get one order of my shop
+ *     description: |
+ *       Only the seller's own line items are included, with the shipping address, the status
+ *       history and any return requests.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop order ID
+ *     responses:
+ *       200:
+ *         description: Order retrieved
+ *       403:
+ *         description: Not a seller or not your shop's order
+ *       404:
+ *         description: Order not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders/{id}/confirm:
+ *   post:
+ *     summary: Confirm a shop order
+ *     description: |
+ *       Moves the seller's part of an order from PENDING to CONFIRMED and turns the stock held
+ *       at checkout into a sale. Every status change is recorded in `transitions` with the
+ *       acting user, and the customer is notified.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop order ID
+ *     responses:
+ *       200:
+ *         description: Order confirmed
+ *       403:
+ *         description: Not a seller or not your shop's order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Transition not allowed from the current status, or not enough stock
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders/{id}/ship:
+ *   post:
+ *     summary: Mark a shop order as shipped
+ *     description: |
+ *       Starts the shipment's tracking timeline. Later updates come from the carrier webhook or
+ *       from the seller (see Shipments); a delivery event marks the shop order delivered.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - carrier
+ *               - trackingNumber
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *                 maxLength: 100
+ *               trackingNumber:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       200:
+ *         description: Order marked as shipped
+ *       403:
+ *         description: Not a seller or not your shop's order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Only confirmed orders can be shipped
+ */
+
+/**
+ * @swagger
+ * /api/v1/orders/shop-orders/{id}/deliver:
+ *   post:
+ *     summary: Mark a shop order as delivered
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop order ID
+ *     responses:
+ *       200:
+ *         description: Order marked as delivered
+ *       403:
+ *         description: Not a seller or not your shop's order
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Only shipped orders can be delivered
+ */
@@ -0,0 +1,242 @@
+/**
+ * @swagger
+ * /api/v1/payments/providers:
+ *   get:
+ *     summary: List the payment providers customers can choose from
+ *     tags: [Payments]
+ *     responses:
+ *       200:
+ *         description: Payment providers retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/orders/{orderId}:
+ *   post:
+ *     summary: Pay an order
+ *     description: |
+ *       Starts a payment of the order total with the chosen provider. Checkout providers such as
+ *       Afripay return a `checkoutUrl` to redirect the customer to; mobile money providers send a
+ *       prompt to `phone` and return `instructions`. The result arrives through the provider's
+ *       webhook and is reflected in the payment `status` and the order `paymentStatus`. An order
+ *       has one payment in progress at a time: calling this again while a payment with the same
+ *       provider is pending returns that payment, and a payment pending with another provider (or
+ *       to another phone) is re-checked and has to finish or expire first. Unfinished cash on
+ *       delivery is called off when the customer switches to another provider. A payment that
+ *       still completes after the order was paid or cancelled is refunded automatically.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - provider
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [AFRIPAY, MTN_MOMO, AIRTEL_MONEY, CASH_ON_DELIVERY]
+ *               phone:
+ *                 type: string
+ *                 example: '0788123456'
+ *                 description: Required for mobile money providers
+ *     responses:
+ *       201:
+ *         description: Payment initiated
+ *       400:
+ *         description: Provider not available or phone number missing
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is cancelled or already paid, or another payment is in progress
+ *       502:
+ *         description: The provider could not be reached
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/{id}/confirm:
+ *   post:
+ *     summary: Re-check a payment with its provider
+ *     description: |
+ *       Fetches the current status from the provider, useful when a webhook was missed. For cash
+ *       on delivery this records the cash as received and is limited to administrators.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment status updated
+ *       403:
+ *         description: Only administrators can confirm this payment
+ *       404:
+ *         description: Payment not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Payment provider notification
+ *     description: |
+ *       Called by the providers, e.g. `/webhooks/afripay`, `/webhooks/mtn-momo`, `/webhooks/airtel-money`.
+ *       Afripay notifications must carry an X-Afripay-Signature header with the hex HMAC-SHA256 of the
+ *       raw body keyed with AFRIPAY_WEBHOOK_SECRET. Mobile money notifications are unsigned, so their
+ *       status is fetched from the provider instead of read from the body. Only the first final
+ *       status of a payment is applied; repeated notifications are acknowledged without changes.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification processed
+ *       400:
+ *         description: Invalid payload or unknown provider
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Payment not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/refunds:
+ *   get:
+ *     summary: List refunds (Admin only)
+ *     description: |
+ *       Refunds issued for returns and cancelled orders. Refunds that stay `PENDING` at providers
+ *       without a refund status call (Airtel Money, Afripay) have to be resolved
+ *       by hand once the provider confirmed them; MTN MoMo refunds are checked every 15 minutes.
+ *     tags: [Payments, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, COMPLETED, FAILED]
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [AFRIPAY, MTN_MOMO, AIRTEL_MONEY, CASH_ON_DELIVERY]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/refunds/{id}/retry:
+ *   post:
+ *     summary: Retry a failed refund (Admin only)
+ *     tags: [Payments, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund retried
+ *       404:
+ *         description: Refund not found
+ *       409:
+ *         description: The refund has not failed, is already being retried, or the payment has nothing left to refund
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/refunds/{id}/check:
+ *   post:
+ *     summary: Fetch the status of a pending refund from its provider (Admin only)
+ *     tags: [Payments, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund status updated
+ *       404:
+ *         description: Refund not found
+ *       409:
+ *         description: The refund is already settled or its provider cannot be asked
+ */
+
+/**
+ * @swagger
+ * /api/v1/payments/refunds/{id}/resolve:
+ *   post:
+ *     summary: Record the outcome of a pending refund (Admin only)
+ *     description: |
+ *       For refunds confirmed or rejected by the provider outside the API. A completed refund of a
+ *       return completes the return and is booked in the seller's payout ledger; a failed one can
+ *       be retried.
+ *     tags: [Payments, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [COMPLETED, FAILED]
+ *               reference:
+ *                 type: string
+ *                 description: Refund transaction reference at the provider
+ *     responses:
+ *       200:
+ *         description: Refund resolved
+ *       404:
+ *         description: Refund not found
+ *       409:
+ *         description: The refund is already settled
+ */
@@ -0,0 +1,161 @@
+/**
+ * @swagger
+ * /api/v1/payouts/mine:
+ *   get:
+ *     summary: List my payouts
+ *     description: |
+ *       Every shop order that is delivered and paid is booked in the seller's ledger as a sale
+ *       with the platform commission at the seller's rate; cash on delivery counts as paid once
+ *       the cash collected is confirmed. Commission is charged on the items before tax, not on
+ *       shipping or tax. Refunded returns are booked as negative lines. Each night the lines of
+ *       closed months are rolled into one payout per month.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Payouts retrieved
+ *       403:
+ *         description: Not a seller
+ */
+
+/**
+ * @swagger
+ * /api/v1/payouts/mine/open:
+ *   get:
+ *     summary: Earnings not yet rolled into a payout
+ *     description: Totals are given per currency in `balances`, one entry for each currency the seller sold in.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Open balance retrieved
+ *       403:
+ *         description: Not a seller
+ */
+
+/**
+ * @swagger
+ * /api/v1/payouts/mine/{id}:
+ *   get:
+ *     summary: Statement of one of my payouts
+ *     description: |
+ *       Lists the ledger lines the payout was computed from, with the order, gross amount,
+ *       commission rate, commission and net amount of each, and the totals of sales, refunds,
+ *       commission and net.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payout statement retrieved
+ *       404:
+ *         description: Payout not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/payouts:
+ *   get:
+ *     summary: List seller payouts (Admin only)
+ *     tags: [Payouts, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, PAID]
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           example: '2026-03'
+ *       - in: query
+ *         name: sellerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [RWF, USD, EUR, KES]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Payouts retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/payouts/rollup:
+ *   post:
+ *     summary: Roll closed months into payouts now (Admin only)
+ *     description: |
+ *       Runs the nightly job immediately. Lines of a month whose payout was already paid, or whose
+ *       refunds outweigh its sales, are carried into the current month.
+ *     tags: [Payouts, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Payouts rolled up
+ */
+
+/**
+ * @swagger
+ * /api/v1/payouts/{id}/pay:
+ *   post:
+ *     summary: Mark a payout as paid (Admin only)
+ *     tags: [Payouts, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reference:
+ *                 type: string
+ *                 description: Bank or mobile money transfer reference
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payout marked as paid
+ *       404:
+ *         description: Payout not found
+ *       409:
+ *         description: Payout already paid
+ */
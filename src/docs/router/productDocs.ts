@@ -0,0 +1,1220 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Products
+ *   description: Product catalog management for sellers
+ */
+
+// ============================================
+// SELLER APIS - Product Management
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products:
+ *   post:
+ *     summary: Create a product in the seller's shop
+ *     description: New products are created as DRAFT and must be published before they appear in the storefront.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - categoryId
+ *               - name
+ *               - basePrice
+ *             properties:
+ *               shopId:
+ *                 type: string
+ *                 description: Optional, must be the seller's own shop
+ *               categoryId:
+ *                 type: string
+ *                 description: Category ID
+ *               name:
+ *                 type: string
+ *                 example: "Handwoven Agaseke Basket"
+ *                 description: Product name (2-200 characters)
+ *               description:
+ *                 type: string
+ *                 description: Product description (max 5000 characters)
+ *               basePrice:
+ *                 type: number
+ *                 example: 15000
+ *               discount:
+ *                 type: number
+ *                 example: 1500
+ *                 description: Amount deducted from the base price
+ *     responses:
+ *       201:
+ *         description: Product created successfully
+ *       400:
+ *         description: Validation error or unknown category
+ *       403:
+ *         description: Not a registered seller or not the shop owner
+ *       404:
+ *         description: Seller has no shop
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/mine:
+ *   get:
+ *     summary: List products in the seller's shop
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, ACTIVE, OUT_OF_STOCK]
+ *         description: Filter by status
+ *       - in: query
+ *         name: visibility
+ *         schema:
+ *           type: string
+ *           enum: [PUBLIC, HIDDEN]
+ *         description: Filter by visibility
+ *     responses:
+ *       200:
+ *         description: Products retrieved successfully
+ *       403:
+ *         description: Not a registered seller
+ *       404:
+ *         description: Seller has no shop
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/mine/{id}:
+ *   get:
+ *     summary: Get one of the seller's products with variants and images
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product retrieved successfully
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}:
+ *   put:
+ *     summary: Update a product
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               categoryId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               basePrice:
+ *                 type: number
+ *               discount:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/publish:
+ *   post:
+ *     summary: Publish a draft product (DRAFT → ACTIVE)
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product published successfully
+ *       400:
+ *         description: Product is not a draft or its category is inactive
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/hide:
+ *   post:
+ *     summary: Hide a product from the storefront
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product hidden successfully
+ *       400:
+ *         description: Product is already hidden
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/unhide:
+ *   post:
+ *     summary: Make a hidden product visible again
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product is now visible
+ *       400:
+ *         description: Product is already visible
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}:
+ *   delete:
+ *     summary: Delete a product
+ *     description: Products that already appear in orders or have stock history cannot be deleted and should be hidden instead.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Product deleted successfully
+ *       400:
+ *         description: Product has existing orders or stock history
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: A variant is held by a pending checkout
+ */
+
+// ============================================
+// SELLER APIS - Variant Management
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/options:
+ *   put:
+ *     summary: Declare the option axes of a product
+ *     description: |
+ *       Replaces the product's option axes (at most 3). Variant attributes are validated
+ *       against these axes. The response reports how many existing variants no longer
+ *       match; regenerate the variants to clean them up.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - options
+ *             properties:
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                       example: "Size"
+ *                     values:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["S", "M", "L"]
+ *     responses:
+ *       200:
+ *         description: Product options updated successfully
+ *       400:
+ *         description: Duplicate names or values, or too many combinations
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants:
+ *   get:
+ *     summary: List a product's options and variants
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Variants retrieved
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ *   post:
+ *     summary: Add a single variant
+ *     description: Attributes must hold one declared value for every option. Products without options can have a single default variant.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               sku:
+ *                 type: string
+ *                 description: Generated from the product name and option values when omitted
+ *               price:
+ *                 type: number
+ *                 description: Price before the product discount, defaults to the product's base price
+ *               weight:
+ *                 type: number
+ *                 description: Kilograms, used by weight-based shipping rates
+ *               stock:
+ *                 type: integer
+ *                 default: 0
+ *               attributes:
+ *                 type: object
+ *                 example: { "Size": "M", "Color": "Red" }
+ *     responses:
+ *       201:
+ *         description: Variant created successfully
+ *       400:
+ *         description: Attributes do not match the declared options
+ *       409:
+ *         description: SKU or option combination already exists
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/generate:
+ *   post:
+ *     summary: Generate the full variant matrix from the declared options
+ *     description: |
+ *       Creates a variant with an auto-generated unique SKU for every missing option
+ *       combination and takes off variants that no longer match the options. Existing
+ *       matching variants keep their SKU, price and stock. Variants with stock movements
+ *       or orders are archived rather than deleted, with any units on hand written off,
+ *       and come back when their combination is generated again.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               price:
+ *                 type: number
+ *                 description: Price for new variants, defaults to the product's base price
+ *               weight:
+ *                 type: number
+ *                 description: Weight in kilograms for new variants
+ *               stock:
+ *                 type: integer
+ *                 description: Stock for new variants, defaults to 0
+ *     responses:
+ *       200:
+ *         description: Variants generated successfully
+ *       400:
+ *         description: Product has no options
+ *       409:
+ *         description: A variant to be removed is held by a pending checkout
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/bulk:
+ *   patch:
+ *     summary: Bulk edit variant SKUs, prices and stock
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - variants
+ *             properties:
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - id
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     sku:
+ *                       type: string
+ *                     price:
+ *                       type: number
+ *                     weight:
+ *                       type: number
+ *                       nullable: true
+ *                     stock:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Variants updated successfully
+ *       404:
+ *         description: A variant does not belong to this product
+ *       409:
+ *         description: SKU already in use
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/{variantId}:
+ *   delete:
+ *     summary: Delete a variant
+ *     description: |
+ *       Variants with stock movements or orders are archived instead: they disappear from
+ *       the product and carts, units on hand are written off, and their ledger is kept.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     responses:
+ *       200:
+ *         description: Variant deleted or archived
+ *       404:
+ *         description: Variant not found
+ *       409:
+ *         description: Variant is held by a pending checkout
+ */
+
+// ============================================
+// SELLER APIS - Inventory
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/inventory:
+ *   get:
+ *     summary: Get on-hand, reserved and available stock for every variant
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Inventory retrieved
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/{variantId}/stock-movements:
+ *   post:
+ *     summary: Record a stock movement for a variant
+ *     description: |
+ *       Every change is written to the inventory ledger. RESTOCK and RETURN add stock,
+ *       ADJUSTMENT takes a signed quantity. Sales are recorded by checkout. The seller
+ *       receives a LOW_STOCK notification when available stock drops to the alert threshold,
+ *       and the product switches to OUT_OF_STOCK when no variant has stock left.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - quantity
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [RESTOCK, RETURN, ADJUSTMENT]
+ *               quantity:
+ *                 type: integer
+ *                 example: 10
+ *               reason:
+ *                 type: string
+ *                 example: "Damaged in storage"
+ *     responses:
+ *       201:
+ *         description: Stock movement recorded
+ *       400:
+ *         description: Stock would go below zero
+ *       404:
+ *         description: Variant not found
+ *       409:
+ *         description: Stock is reserved by pending checkouts
+ *   get:
+ *     summary: List the stock ledger of a variant
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: Stock movements retrieved
+ *       404:
+ *         description: Variant not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/{variantId}/low-stock-alert:
+ *   put:
+ *     summary: Set the low stock alert threshold of a variant
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               threshold:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 5
+ *                 description: Null turns the alert off
+ *     responses:
+ *       200:
+ *         description: Low stock alert updated
+ *       404:
+ *         description: Variant not found
+ */
+
+// ============================================
+// SELLER APIS - Image Gallery
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images:
+ *   post:
+ *     summary: Upload images to a product gallery
+ *     description: |
+ *       Up to 10 images per product. The first image uploaded to an empty gallery becomes the primary image.
+ *       EXIF metadata is stripped and each image gets WebP `thumbnail` (200px), `medium` (600px) and
+ *       `large` (1200px) derivatives, returned in `derivatives` for use in `srcset`.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - images
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Images uploaded successfully, returns the gallery
+ *       400:
+ *         description: No images, unsupported file type or gallery limit reached
+ *       403:
+ *         description: Not the owner of this product
+ *       404:
+ *         description: Product not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/reorder:
+ *   put:
+ *     summary: Reorder the product gallery
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderedIds
+ *             properties:
+ *               orderedIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Every image ID of the product, in the new order
+ *     responses:
+ *       200:
+ *         description: Images reordered successfully
+ *       400:
+ *         description: orderedIds does not match the product's images
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/{imageId}/primary:
+ *   put:
+ *     summary: Mark an image as the product's primary image
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Image ID
+ *     responses:
+ *       200:
+ *         description: Primary image updated
+ *       404:
+ *         description: Image not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/images/{imageId}:
+ *   delete:
+ *     summary: Delete an image from the gallery and storage
+ *     description: When the primary image is deleted, the next image in the gallery becomes primary.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: imageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Image ID
+ *     responses:
+ *       200:
+ *         description: Image deleted successfully
+ *       404:
+ *         description: Image not found
+ */
+
+// ============================================
+// PUBLIC APIS - Product Browsing
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products:
+ *   get:
+ *     summary: Browse active public products (public)
+ *     description: |
+ *       Returns ACTIVE, PUBLIC products with pagination and a `facets` object holding
+ *       per-category counts and price-range counts. Each facet ignores its own filter so
+ *       the sidebar can show alternative choices. Price ranges are fixed amounts in the platform
+ *       currency; with `currency` each range also carries its bounds converted in `display`.
+ *     tags: [Products, Public]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, name, effectivePrice]
+ *           default: createdAt
+ *         description: |
+ *           Field to sort by. effectivePrice is the base price minus the discount, compared in the
+ *           platform currency so shops selling in different currencies sort together; products whose
+ *           currency has no exchange rate come last
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort order
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: string
+ *         description: Filter by category, including its subcategories
+ *       - in: query
+ *         name: shopId
+ *         schema:
+ *           type: string
+ *         description: Filter by shop
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: integer
+ *         description: |
+ *           Minimum effective price, in minor units of the `currency` asked for, or of the platform
+ *           currency (RWF) without one. Products whose currency has no exchange rate are left out
+ *           of price filters and price ranges
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: integer
+ *         description: Maximum effective price, in the same currency as minPrice
+ *       - $ref: '#/components/parameters/DisplayCurrency'
+ *     responses:
+ *       200:
+ *         description: Products and facets retrieved successfully
+ *       400:
+ *         description: Invalid filter or sort field
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}:
+ *   get:
+ *     summary: Get a public product with its variants and images (public)
+ *     tags: [Products, Public]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - $ref: '#/components/parameters/DisplayCurrency'
+ *     responses:
+ *       200:
+ *         description: Product retrieved successfully
+ *       404:
+ *         description: Product not found
+ */
+
+// ============================================
+// REVIEWS
+// ============================================
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews:
+ *   get:
+ *     summary: List reviews of a public product (public)
+ *     description: |
+ *       Published reviews, newest first. `summary` holds the product's average `rating`,
+ *       `ratingCount` and a `distribution` of how many reviews gave each number of stars.
+ *     tags: [Products, Public]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Only reviews with this number of stars
+ *       - in: query
+ *         name: verified
+ *         schema:
+ *           type: boolean
+ *         description: Only verified purchase reviews
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Reviews retrieved
+ *       404:
+ *         description: Product not found
+ *   post:
+ *     summary: Review a product
+ *     description: |
+ *       Only customers with a delivered order containing the product can review it, once per
+ *       product. The review is flagged `verifiedPurchase`.
+ *       Comments with offensive words or links are held with status PENDING until an admin
+ *       approves them; only PUBLISHED reviews are listed and count towards the rating.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rating
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 example: 4
+ *               comment:
+ *                 type: string
+ *                 description: At most 2000 characters
+ *               photos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: JPEG, PNG or WebP photos, max 5MB each
+ *     responses:
+ *       201:
+ *         description: Review added successfully
+ *       403:
+ *         description: The customer has no delivered order containing the product
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: The product was already reviewed by the customer
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews/{reviewId}:
+ *   put:
+ *     summary: Edit your review of a product
+ *     description: |
+ *       New photos replace the existing ones; `removePhotos` clears them. A new comment goes
+ *       through the content filter again. Reviews hidden by a moderator stay hidden.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *               removePhotos:
+ *                 type: boolean
+ *               photos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       200:
+ *         description: Review updated successfully
+ *       403:
+ *         description: Not the author of the review
+ *       404:
+ *         description: Review not found
+ *   delete:
+ *     summary: Delete a product review (author or admin)
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     responses:
+ *       200:
+ *         description: Review deleted successfully
+ *       403:
+ *         description: Not authorized to delete this review
+ *       404:
+ *         description: Review not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews/{reviewId}/report:
+ *   post:
+ *     summary: Report an abusive product review
+ *     description: The review goes to the admin moderation queue. Each user can report a review once.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Insults the seller"
+ *     responses:
+ *       201:
+ *         description: Review reported
+ *       400:
+ *         description: Validation error or reporting your own review
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Already reported by the user
+ */
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reviews/{reviewId}/reply:
+ *   put:
+ *     summary: Post or edit the seller's public reply to a product review
+ *     description: Each review has at most one reply; posting again replaces it. The reviewer is notified.
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reply
+ *             properties:
+ *               reply:
+ *                 type: string
+ *                 example: "Thank you for your feedback!"
+ *     responses:
+ *       200:
+ *         description: Reply saved
+ *       403:
+ *         description: Not the seller of this product
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: The review is not published
+ *   delete:
+ *     summary: Delete the seller's reply to a product review
+ *     tags: [Products]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     responses:
+ *       200:
+ *         description: Reply deleted successfully
+ *       403:
+ *         description: Not the seller of this product
+ *       404:
+ *         description: Review not found
+ */
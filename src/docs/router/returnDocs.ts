@@ -0,0 +1,244 @@
+/**
+ * @swagger
+ * /api/v1/returns/eligibility/{orderId}:
+ *   get:
+ *     summary: What can still be returned from an order
+ *     description: |
+ *       Lists each shop order with the quantity of every item that can still be returned, the end
+ *       of the return window (counted from delivery, 14 days by default) and the shop's
+ *       `returnPolicy` to show on the return request screen.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Return eligibility retrieved
+ *       404:
+ *         description: Order not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns:
+ *   post:
+ *     summary: Request a return
+ *     description: |
+ *       Asks the shop to take back items of one delivered shop order. Photos are optional; their
+ *       EXIF metadata is removed on upload.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *               - items
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: The shoes are a size too small
+ *               items:
+ *                 type: string
+ *                 description: JSON list of the items to return
+ *                 example: '[{"orderItemId":"a1b2c3","quantity":1}]'
+ *               photos:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Return requested successfully
+ *       400:
+ *         description: Items from different shop orders or invalid input
+ *       404:
+ *         description: Order item not found
+ *       409:
+ *         description: Not delivered, return window closed or quantity already returned
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/mine:
+ *   get:
+ *     summary: List my return requests
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Returns retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/shop:
+ *   get:
+ *     summary: List return requests sent to my shop
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, REFUNDED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Returns retrieved
+ *       403:
+ *         description: Not a seller
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}:
+ *   get:
+ *     summary: Get a return request
+ *     description: Available to the customer who asked for it, the seller of the shop and administrators.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Return retrieved
+ *       404:
+ *         description: Return not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/approve:
+ *   post:
+ *     summary: Approve a return
+ *     description: |
+ *       Puts the returned items back into stock and refunds the customer through the provider of
+ *       the order's payment. Without `refundAmount` the full value of the returned items is
+ *       refunded; a lower amount gives a partial refund. The return becomes `REFUNDED`, and the
+ *       refund is booked in the seller's payout ledger, once the provider confirms the refund.
+ *       Providers that refund asynchronously leave it `APPROVED` with `refundStatus` `PENDING`
+ *       until the refund reconciliation job or an administrator settles it.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refundAmount:
+ *                 type: number
+ *                 example: 15000
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return approved
+ *       400:
+ *         description: Refund amount above the value of the returned items
+ *       403:
+ *         description: Not the seller of this shop
+ *       409:
+ *         description: Already handled or more than what is left to refund
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/reject:
+ *   post:
+ *     summary: Reject a return
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 example: The item shows signs of use
+ *     responses:
+ *       200:
+ *         description: Return rejected
+ *       403:
+ *         description: Not the seller of this shop
+ *       409:
+ *         description: Already handled
+ */
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/refund:
+ *   post:
+ *     summary: Retry a failed refund
+ *     description: Available to the seller of the shop and administrators.
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund retried
+ *       403:
+ *         description: Not the seller of this shop
+ *       409:
+ *         description: The refund has not failed or is already being retried
+ */
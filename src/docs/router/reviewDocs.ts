@@ -0,0 +1,111 @@
+/**
+ * @swagger
+ * /api/v1/reviews/moderation:
+ *   get:
+ *     summary: Reviews waiting for moderation (Admin only)
+ *     description: |
+ *       Without `status`, lists reviews held by the content filter (PENDING) and reviews with
+ *       open reports, oldest first. Each review carries its open `reports`. With `status`,
+ *       lists every review in that state instead.
+ *     tags: [Reviews, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [product, shop]
+ *           default: product
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PUBLISHED, PENDING, HIDDEN]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Moderation queue retrieved
+ */
+
+/**
+ * @swagger
+ * /api/v1/reviews/moderation/{kind}/{reviewId}/hide:
+ *   post:
+ *     summary: Hide a review (Admin only)
+ *     description: Removes the review from listings and from the rating average, resolves its open reports and notifies the reviewer.
+ *     tags: [Reviews, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [products, shops]
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Reason shown to the reviewer
+ *     responses:
+ *       200:
+ *         description: Review hidden
+ *       404:
+ *         description: Review not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/reviews/moderation/{kind}/{reviewId}/restore:
+ *   post:
+ *     summary: Publish a held or hidden review, or dismiss its reports (Admin only)
+ *     description: The review is listed and counted in the rating average again; its open reports are resolved.
+ *     tags: [Reviews, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [products, shops]
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review published
+ *       404:
+ *         description: Review not found
+ */
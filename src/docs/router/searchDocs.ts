@@ -0,0 +1,53 @@
+/**
+ * @swagger
+ * tags:
+ *   name: Search
+ *   description: Product and shop search
+ */
+
+/**
+ * @swagger
+ * /api/v1/search:
+ *   get:
+ *     summary: Search products and shops by relevance (public)
+ *     description: |
+ *       Ranks results with PostgreSQL full-text search over product name, description,
+ *       category name and shop name, combined with trigram similarity so small typos still
+ *       match. Matched words are wrapped in `<mark>` tags in `nameHighlight` and `snippet`.
+ *       When few results are found, `didYouMean` holds a corrected query if one exists.
+ *     tags: [Search, Public]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "lether bag"
+ *         description: Search term (2-100 characters)
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [all, products, shops]
+ *           default: all
+ *         description: Restrict results to products or shops
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Number of results per page (max 50)
+ *       - $ref: '#/components/parameters/DisplayCurrency'
+ *     responses:
+ *       200:
+ *         description: Search results retrieved successfully
+ *       400:
+ *         description: Missing or invalid search term
+ */
@@ -286,3 +286,41 @@
  *       404:
  *         description: Application not found
  */
+
+/**
+ * @swagger
+ * /api/v1/sellers/{id}/commission:
+ *   put:
+ *     summary: Set a seller's commission rate (Admin only)
+ *     description: |
+ *       The platform's share of each order the seller delivers from now on. New sellers start at
+ *       `DEFAULT_COMMISSION_RATE` (0.1 unless configured). Sales already booked keep their rate.
+ *     tags: [Sellers, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - commissionRate
+ *             properties:
+ *               commissionRate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 example: 0.08
+ *     responses:
+ *       200:
+ *         description: Commission rate updated successfully
+ *       404:
+ *         description: Seller not found
+ */
@@ -0,0 +1,126 @@
+/**
+ * @swagger
+ * /api/v1/shipments/webhooks/carrier:
+ *   post:
+ *     summary: Tracking update from a carrier
+ *     description: |
+ *       Carriers sign the raw request body with HMAC-SHA256 using the shared
+ *       `CARRIER_WEBHOOK_SECRET` and send the hex digest in `X-Carrier-Signature`. The shipment is
+ *       found by carrier (case-insensitive) and tracking number. Updates with an `eventId` that
+ *       was already received are ignored. A `DELIVERED` update marks the shop order delivered.
+ *     tags: [Shipments]
+ *     parameters:
+ *       - in: header
+ *         name: X-Carrier-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - carrier
+ *               - trackingNumber
+ *               - status
+ *             properties:
+ *               carrier:
+ *                 type: string
+ *                 example: DHL
+ *               trackingNumber:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [IN_TRANSIT, OUT_FOR_DELIVERY, DELIVERED, FAILED_ATTEMPT, RETURNED]
+ *               eventId:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *                 example: Kigali sorting center
+ *               occurredAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Tracking update processed
+ *       400:
+ *         description: Invalid payload
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Shipment not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/shipments/{id}:
+ *   get:
+ *     summary: Get a shipment with its tracking timeline
+ *     description: Available to the customer of the order, the seller of the shop and administrators.
+ *     tags: [Shipments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipment retrieved
+ *       404:
+ *         description: Shipment not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/shipments/{id}/events:
+ *   post:
+ *     summary: Add a tracking event by hand
+ *     description: |
+ *       For carriers that do not send updates. The shipment takes the status of its latest event;
+ *       a `DELIVERED` event marks the shop order delivered.
+ *     tags: [Shipments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [IN_TRANSIT, OUT_FOR_DELIVERY, DELIVERED, FAILED_ATTEMPT, RETURNED]
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               occurredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *     responses:
+ *       201:
+ *         description: Tracking event added
+ *       400:
+ *         description: Event in the future or invalid input
+ *       403:
+ *         description: Not a seller
+ *       404:
+ *         description: Shipment not found
+ */
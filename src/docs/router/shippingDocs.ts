@@ -0,0 +1,175 @@
+/**
+ * @swagger
+ * /api/v1/shipping/quote:
+ *   get:
+ *     summary: Delivery options for my cart
+ *     description: |
+ *       Quotes every shop in the cart for the city of one of the customer's addresses. Options are
+ *       sorted cheapest first; the first one is used at checkout when no option is chosen. Shops
+ *       that have not set up shipping zones have no options and ship at no charge;
+ *       `shipsToAddress` is false when a shop does not deliver to the city at all.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: addressId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping quote retrieved
+ *       400:
+ *         description: Cart is empty
+ *       404:
+ *         description: Address not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/shipping/shops/{shopId}:
+ *   get:
+ *     summary: Shipping zones and rates of a shop
+ *     tags: [Shipping]
+ *     parameters:
+ *       - in: path
+ *         name: shopId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping options retrieved
+ *       404:
+ *         description: Shop not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/shipping/zones:
+ *   get:
+ *     summary: List my shipping zones
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shipping zones retrieved
+ *       403:
+ *         description: Not a seller
+ *   post:
+ *     summary: Create a shipping zone
+ *     description: |
+ *       A zone lists the cities it covers, compared with the city of the delivery address without
+ *       regard to case. A zone with no cities covers every city no other zone lists. Each zone
+ *       offers up to one rate per delivery method: `FLAT` rates charge `baseFee`, `WEIGHT` rates
+ *       add `perKgFee` for every started kilogram of the shop's items. A rate is free once the
+ *       shop subtotal reaches `freeShippingThreshold`.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - cities
+ *               - rates
+ *             properties:
+ *               shopId:
+ *                 type: string
+ *                 description: Defaults to the seller's shop
+ *               name:
+ *                 type: string
+ *                 example: Kigali
+ *               cities:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [Kigali]
+ *               isActive:
+ *                 type: boolean
+ *               rates:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - method
+ *                     - minDeliveryDays
+ *                     - maxDeliveryDays
+ *                   properties:
+ *                     method:
+ *                       type: string
+ *                       enum: [STANDARD, EXPRESS, PICKUP]
+ *                     rateType:
+ *                       type: string
+ *                       enum: [FLAT, WEIGHT]
+ *                       default: FLAT
+ *                     baseFee:
+ *                       type: number
+ *                       example: 1500
+ *                     perKgFee:
+ *                       type: number
+ *                     freeShippingThreshold:
+ *                       type: number
+ *                       example: 50000
+ *                     minDeliveryDays:
+ *                       type: integer
+ *                       example: 1
+ *                     maxDeliveryDays:
+ *                       type: integer
+ *                       example: 3
+ *     responses:
+ *       201:
+ *         description: Shipping zone created successfully
+ *       400:
+ *         description: Duplicate delivery method or invalid delivery days
+ *       403:
+ *         description: Not a seller
+ *       409:
+ *         description: A city is already part of another zone, or a catch-all zone already exists
+ */
+
+/**
+ * @swagger
+ * /api/v1/shipping/zones/{id}:
+ *   put:
+ *     summary: Update a shipping zone
+ *     description: Takes the same fields as creation. Rates sent replace all the rates of the zone.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping zone updated successfully
+ *       404:
+ *         description: Shipping zone not found
+ *       409:
+ *         description: A city is already part of another zone
+ *   delete:
+ *     summary: Delete a shipping zone
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shipping zone deleted successfully
+ *       404:
+ *         description: Shipping zone not found
+ */
@@ -51,6 +51,15 @@
  *                 type: string
  *                 example: "Free shipping on orders over $50"
  *                 description: Shipping policy text (max 2000 characters)
+ *               pricesIncludeTax:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Whether product prices already contain VAT; when false, tax is added at checkout
+ *               currency:
+ *                 type: string
+ *                 enum: [RWF, USD, EUR, KES]
+ *                 default: RWF
+ *                 description: Currency the shop prices its products in and is paid in
  *               facebookUrl:
  *                 type: string
  *                 format: url
@@ -84,16 +93,16 @@
  *               logo:
  *                 type: file
  *                 format: binary
- *                 description: Shop logo image (JPEG, PNG, GIF, WebP, max 5MB)
+ *                 description: Shop logo image (JPEG, PNG, GIF, WebP, max 5MB). WebP derivatives are returned in logoDerivatives
  *               banner:
  *                 type: file
  *                 format: binary
- *                 description: Shop banner image (JPEG, PNG, GIF, WebP, max 5MB)
+ *                 description: Shop banner image (JPEG, PNG, GIF, WebP, max 5MB), 1200x300 to 6000x2000 px with a width:height ratio between 2.5 and 6. WebP derivatives are returned in bannerDerivatives
  *     responses:
  *       201:
  *         description: Shop created successfully
  *       400:
- *         description: Validation error or shop already exists
+ *         description: Validation error, shop already exists or banner has the wrong size or proportions
  *       403:
  *         description: Not a registered seller
  */
@@ -142,6 +151,13 @@
  *               shippingPolicy:
  *                 type: string
  *                 description: Shipping policy text (max 2000 characters)
+ *               pricesIncludeTax:
+ *                 type: boolean
+ *                 description: Whether product prices already contain VAT; when false, tax is added at checkout
+ *               currency:
+ *                 type: string
+ *                 enum: [RWF, USD, EUR, KES]
+ *                 description: Can only be changed while the shop has no products
  *               facebookUrl:
  *                 type: string
  *                 format: url
@@ -173,7 +189,7 @@
  *               banner:
  *                 type: file
  *                 format: binary
- *                 description: New shop banner image
+ *                 description: New shop banner image, same size and proportion rules as on creation
  *     responses:
  *       200:
  *         description: Shop updated successfully
@@ -183,6 +199,8 @@
  *         description: Not authorized to update this shop
  *       404:
  *         description: Shop not found
+ *       409:
+ *         description: The currency cannot change while the shop has products
  */
 
 /**
@@ -319,6 +337,9 @@
  * /api/v1/shop/{id}/reviews:
  *   post:
  *     summary: Add a review to a shop
+ *     description: |
+ *       Comments with offensive words or links are held with status PENDING until an admin
+ *       approves them; only PUBLISHED reviews are listed and count towards the shop rating.
  *     tags: [Shops]
  *     security:
  *       - bearerAuth: []
@@ -390,7 +411,7 @@
  * @swagger
  * /api/v1/shop/{id}/reviews/{reviewId}:
  *   delete:
- *     summary: Delete a shop review
+ *     summary: Delete a shop review (author or admin)
  *     tags: [Shops]
  *     security:
  *       - bearerAuth: []
@@ -432,3 +453,118 @@
  *       404:
  *         description: Shop not found
  */
+
+/**
+ * @swagger
+ * /api/v1/shop/{id}/reviews/{reviewId}/report:
+ *   post:
+ *     summary: Report an abusive shop review
+ *     description: The review goes to the admin moderation queue. Each user can report a review once.
+ *     tags: [Shops]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Insults the seller"
+ *     responses:
+ *       201:
+ *         description: Review reported
+ *       400:
+ *         description: Validation error or reporting your own review
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Already reported by the user
+ */
+
+/**
+ * @swagger
+ * /api/v1/shop/{id}/reviews/{reviewId}/reply:
+ *   put:
+ *     summary: Post or edit the seller's public reply to a shop review
+ *     description: Each review has at most one reply; posting again replaces it. The reviewer is notified.
+ *     tags: [Shops]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reply
+ *             properties:
+ *               reply:
+ *                 type: string
+ *                 example: "Thank you for your feedback!"
+ *     responses:
+ *       200:
+ *         description: Reply saved
+ *       403:
+ *         description: Not the seller of this shop
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: The review is not published
+ *   delete:
+ *     summary: Delete the seller's reply to a shop review
+ *     tags: [Shops]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Shop ID
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Review ID
+ *     responses:
+ *       200:
+ *         description: Reply deleted successfully
+ *       403:
+ *         description: Not the seller of this shop
+ *       404:
+ *         description: Review not found
+ */
@@ -0,0 +1,134 @@
+/**
+ * @swagger
+ * /api/v1/taxes:
+ *   get:
+ *     summary: List tax rates (Admin only)
+ *     description: |
+ *       Each product is taxed at the rate of its category, or of the nearest parent category with
+ *       a rate, or else at the default rate. Give a category a 0% rate to exempt it. Shops choose
+ *       whether their prices include tax (`pricesIncludeTax`); for shops that do not, tax is added
+ *       at checkout. Orders keep the rate and amount of each item, so changes only apply to new
+ *       orders. Shipping fees are not taxed.
+ *     tags: [Taxes, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax rates retrieved
+ *   post:
+ *     summary: Create a tax rate (Admin only)
+ *     tags: [Taxes, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - rate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: VAT
+ *               rate:
+ *                 type: number
+ *                 description: Fraction between 0 and 1
+ *                 example: 0.18
+ *               isDefault:
+ *                 type: boolean
+ *                 description: Replaces the current default rate
+ *     responses:
+ *       201:
+ *         description: Tax rate created successfully
+ */
+
+/**
+ * @swagger
+ * /api/v1/taxes/{id}:
+ *   put:
+ *     summary: Update a tax rate (Admin only)
+ *     tags: [Taxes, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *               isDefault:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Tax rate updated successfully
+ *       404:
+ *         description: Tax rate not found
+ *       409:
+ *         description: The default rate can only be replaced by making another rate the default
+ *   delete:
+ *     summary: Delete a tax rate (Admin only)
+ *     description: Categories using the rate fall back to their parent's or the default rate.
+ *     tags: [Taxes, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate deleted successfully
+ *       404:
+ *         description: Tax rate not found
+ *       409:
+ *         description: The default rate cannot be deleted
+ */
+
+/**
+ * @swagger
+ * /api/v1/taxes/categories/{categoryId}:
+ *   put:
+ *     summary: Set the tax rate of a category (Admin only)
+ *     tags: [Taxes, Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - taxRateId
+ *             properties:
+ *               taxRateId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: null to inherit the parent's or the default rate
+ *     responses:
+ *       200:
+ *         description: Category tax rate updated
+ *       404:
+ *         description: Category or tax rate not found
+ */
@@ -393,6 +393,7 @@
  * /api/v1/users/me/orders/{id}:
  *   get:
  *     summary: Get user order by ID
+ *     description: Each shop order includes its `shipment` with the tracking timeline in `events`.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -0,0 +1,199 @@
+/**
+ * @swagger
+ * /api/v1/users/me/wishlists:
+ *   get:
+ *     summary: List my wishlists
+ *     description: |
+ *       Customers can keep several named lists (e.g. "Wishlist", "Saved for later"). Items on
+ *       any list are watched: the owner gets a `WISHLIST_PRICE_DROP` notification when the
+ *       price goes below the one they last saw, and `WISHLIST_BACK_IN_STOCK` when a saved
+ *       variant, or a saved product that had no stock at all, can be bought again.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Wishlists retrieved, each with its item count and share link
+ *   post:
+ *     summary: Create a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 60
+ *               isPublic:
+ *                 type: boolean
+ *                 description: Public lists get a `shareUrl` anyone can open
+ *     responses:
+ *       201:
+ *         description: Wishlist created successfully
+ *       400:
+ *         description: Validation error or too many lists
+ *       409:
+ *         description: A list with this name already exists
+ */
+
+/**
+ * @swagger
+ * /api/v1/users/me/wishlists/{wishlistId}:
+ *   get:
+ *     summary: Get a wishlist with its items
+ *     description: Each item shows its current price, the shop's currency and whether it can still be bought.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: wishlistId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist retrieved
+ *       404:
+ *         description: Wishlist not found
+ *   put:
+ *     summary: Rename a wishlist or change its visibility
+ *     description: Making a list private disables its share link; sharing it again creates a new one.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: wishlistId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 60
+ *               isPublic:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Wishlist updated successfully
+ *       404:
+ *         description: Wishlist not found
+ *       409:
+ *         description: A list with this name already exists
+ *   delete:
+ *     summary: Delete a wishlist and its items
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: wishlistId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist deleted successfully
+ *       404:
+ *         description: Wishlist not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/users/me/wishlists/{wishlistId}/items:
+ *   post:
+ *     summary: Save a product or variant to a wishlist
+ *     description: Leave out `variantId` to save the product as a whole. Returns the updated list.
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: wishlistId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               variantId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Item saved to wishlist
+ *       400:
+ *         description: Validation error or the list is full
+ *       404:
+ *         description: Wishlist, product or variant not found
+ *       409:
+ *         description: The item is already in the list
+ */
+
+/**
+ * @swagger
+ * /api/v1/users/me/wishlists/{wishlistId}/items/{itemId}:
+ *   delete:
+ *     summary: Remove an item from a wishlist
+ *     tags: [Wishlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: wishlistId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Item removed from wishlist
+ *       404:
+ *         description: Wishlist or item not found
+ */
+
+/**
+ * @swagger
+ * /api/v1/wishlists/shared/{shareToken}:
+ *   get:
+ *     summary: View a shared wishlist (public)
+ *     description: Shows the list's name, its owner's first name and the items that are still on sale.
+ *     tags: [Wishlists, Public]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: shareToken
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wishlist retrieved
+ *       404:
+ *         description: Wishlist not found or no longer shared
+ */
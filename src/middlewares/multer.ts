@@ -258,3 +258,18 @@ export const uploadShopImages = createMulterUpload({
   ),
   maxFields: 10,
 });
+
+// Only formats that get re-encoded, so no EXIF location data survives the upload
+export const uploadReturnPhotos = createMulterUpload({
+  folder: 'returns',
+  maxSize: FILE_SIZE_LIMITS.image,
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  maxFields: 5,
+});
+
+export const uploadReviewPhotos = createMulterUpload({
+  folder: 'reviews',
+  maxSize: FILE_SIZE_LIMITS.image,
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  maxFields: 5,
+});
@@ -0,0 +1,23 @@
+import { body } from 'express-validator';
+import { MAX_CART_ITEM_QUANTITY } from '../../services/cart.service.js';
+
+export const addCartItemValidation = [
+  body('variantId')
+    .notEmpty()
+    .withMessage('Variant ID is required')
+    .isString()
+    .withMessage('Variant ID must be a string'),
+
+  body('quantity')
+    .optional()
+    .isInt({ min: 1, max: MAX_CART_ITEM_QUANTITY })
+    .withMessage(`Quantity must be between 1 and ${MAX_CART_ITEM_QUANTITY}`),
+];
+
+export const updateCartItemValidation = [
+  body('quantity')
+    .notEmpty()
+    .withMessage('Quantity is required')
+    .isInt({ min: 0, max: MAX_CART_ITEM_QUANTITY })
+    .withMessage(`Quantity must be between 0 and ${MAX_CART_ITEM_QUANTITY}, 0 removes the item`),
+];
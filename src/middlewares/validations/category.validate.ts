@@ -0,0 +1,59 @@
+import { body } from 'express-validator';
+
+// =====================
+// CATEGORY VALIDATIONS
+// =====================
+
+export const createCategoryValidation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Category name is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Category name must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+
+  body('parentId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Parent ID must be a string'),
+];
+
+export const updateCategoryValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Category name must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+
+  body('parentId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Parent ID must be a string or null to move the category to the root'),
+];
+
+export const reorderCategoriesValidation = [
+  body('parentId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Parent ID must be a string'),
+
+  body('orderedIds')
+    .isArray({ min: 1 })
+    .withMessage('orderedIds must be a non-empty array'),
+
+  body('orderedIds.*')
+    .isString()
+    .withMessage('Each category ID must be a string'),
+];
@@ -0,0 +1,95 @@
+import { body } from 'express-validator';
+import { CouponScope, CouponType } from '../../utils/type.js';
+
+const couponFields = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+  return [
+    field('code')
+      .trim()
+      .matches(/^[A-Za-z0-9_-]{3,50}$/)
+      .withMessage('Code must be 3 to 50 letters, digits, dashes or underscores'),
+
+    field('type')
+      .isIn(Object.values(CouponType))
+      .withMessage(`Type must be one of ${Object.values(CouponType).join(', ')}`),
+
+    body('value')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Value must be a positive number')
+      .toFloat(),
+
+    body('maxDiscount')
+      .optional({ values: 'null' })
+      .isInt({ gt: 0 })
+      .withMessage('Maximum discount must be a positive whole amount in minor units')
+      .toInt(),
+
+    body('scope')
+      .optional()
+      .isIn(Object.values(CouponScope))
+      .withMessage(`Scope must be one of ${Object.values(CouponScope).join(', ')}`),
+
+    body('shopId')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Shop ID must be a string'),
+
+    body('categoryId')
+      .optional({ values: 'null' })
+      .isString()
+      .withMessage('Category ID must be a string'),
+
+    body('productIds')
+      .optional()
+      .isArray({ max: 100 })
+      .withMessage('Product IDs must be a list of at most 100 IDs'),
+
+    body('productIds.*')
+      .isString()
+      .withMessage('Product ID must be a string'),
+
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Description must be at most 500 characters'),
+
+    body('minOrderValue')
+      .optional({ values: 'null' })
+      .isInt({ min: 0 })
+      .withMessage('Minimum order value must be a positive whole amount in minor units')
+      .toInt(),
+
+    body(['usageLimit', 'perUserLimit'])
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Limits must be positive integers')
+      .toInt(),
+
+    body(['startsAt', 'endsAt'])
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Dates must be valid ISO 8601 dates')
+      .toDate(),
+
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean')
+      .toBoolean(),
+  ];
+};
+
+export const createCouponValidation = couponFields(true);
+
+export const updateCouponValidation = couponFields(false);
+
+export const previewCouponValidation = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Coupon code is required')
+    .isLength({ max: 50 })
+    .withMessage('Coupon code must be at most 50 characters'),
+];
@@ -0,0 +1,15 @@
+import { body, param } from 'express-validator';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils.js';
+
+export const exchangeRateValidation = [
+  param('currency')
+    .toUpperCase()
+    .isIn(SUPPORTED_CURRENCIES)
+    .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+
+  // Units of the currency worth one unit of the platform currency
+  body('rate')
+    .isFloat({ gt: 0 })
+    .withMessage('Rate must be a positive number')
+    .toFloat(),
+];
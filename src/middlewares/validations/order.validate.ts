@@ -0,0 +1,106 @@
+import { body, header, query } from 'express-validator';
+import { OrderStatus, PaymentStatus, ShippingMethod } from '../../utils/type.js';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils.js';
+
+export const checkoutValidation = [
+  header('idempotency-key')
+    .trim()
+    .notEmpty()
+    .withMessage('Idempotency-Key header is required')
+    .isLength({ max: 255 })
+    .withMessage('Idempotency-Key must be at most 255 characters'),
+
+  body('addressId')
+    .notEmpty()
+    .withMessage('Address ID is required')
+    .isString()
+    .withMessage('Address ID must be a string'),
+
+  body('couponCode')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Coupon code cannot be empty')
+    .isLength({ max: 50 })
+    .withMessage('Coupon code must be at most 50 characters'),
+
+  body('shipping')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Shipping must be a list of delivery choices'),
+
+  body('shipping.*.shopId')
+    .isString()
+    .withMessage('Shop ID must be a string'),
+
+  body('shipping.*.method')
+    .isIn(Object.values(ShippingMethod))
+    .withMessage(`Delivery method must be one of ${Object.values(ShippingMethod).join(', ')}`),
+
+  body('displayCurrency')
+    .optional()
+    .toUpperCase()
+    .isIn(SUPPORTED_CURRENCIES)
+    .withMessage(`Display currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+];
+
+export const shipOrderValidation = [
+  body('carrier')
+    .trim()
+    .notEmpty()
+    .withMessage('Carrier is required')
+    .isLength({ max: 100 })
+    .withMessage('Carrier must be at most 100 characters'),
+
+  body('trackingNumber')
+    .trim()
+    .notEmpty()
+    .withMessage('Tracking number is required')
+    .isLength({ max: 100 })
+    .withMessage('Tracking number must be at most 100 characters'),
+];
+
+export const cancelOrderValidation = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason must be at most 500 characters'),
+];
+
+const dateRangeValidation = [
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid date')
+    .toDate(),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date')
+    .toDate(),
+];
+
+export const shopOrderListValidation = [
+  query('status')
+    .optional()
+    .isIn(Object.values(OrderStatus))
+    .withMessage(`Status must be one of: ${Object.values(OrderStatus).join(', ')}`),
+
+  query('paymentStatus')
+    .optional()
+    .isIn(Object.values(PaymentStatus))
+    .withMessage(`Payment status must be one of: ${Object.values(PaymentStatus).join(', ')}`),
+
+  ...dateRangeValidation,
+];
+
+export const salesStatsValidation = [
+  query('interval')
+    .optional()
+    .isIn(['day', 'week', 'month'])
+    .withMessage('Interval must be one of: day, week, month'),
+
+  ...dateRangeValidation,
+];
@@ -0,0 +1,39 @@
+import { body, query } from 'express-validator';
+
+export const initiatePaymentValidation = [
+  body('provider')
+    .notEmpty()
+    .withMessage('Payment provider is required')
+    .isString()
+    .withMessage('Payment provider must be a string'),
+
+  body('phone')
+    .optional()
+    .trim()
+    .matches(/^\+?[0-9\s-]{9,15}$/)
+    .withMessage('Phone number is invalid'),
+];
+
+export const refundListValidation = [
+  query('status')
+    .optional()
+    .isIn(['PENDING', 'COMPLETED', 'FAILED'])
+    .withMessage('Status must be one of: PENDING, COMPLETED, FAILED'),
+
+  query('provider')
+    .optional()
+    .isString()
+    .withMessage('Provider must be a string'),
+];
+
+export const resolveRefundValidation = [
+  body('status')
+    .isIn(['COMPLETED', 'FAILED'])
+    .withMessage('Status must be either COMPLETED or FAILED'),
+
+  body('reference')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Reference must be at most 100 characters'),
+];
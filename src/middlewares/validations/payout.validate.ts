@@ -0,0 +1,38 @@
+import { body, query } from 'express-validator';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils.js';
+
+export const payoutListValidation = [
+  query('status')
+    .optional()
+    .isIn(['PENDING', 'PAID'])
+    .withMessage('Status must be either PENDING or PAID'),
+
+  query('period')
+    .optional()
+    .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .withMessage('Period must be a month in the format YYYY-MM'),
+
+  query('sellerId')
+    .optional()
+    .isString()
+    .withMessage('Seller ID must be a string'),
+
+  query('currency')
+    .optional()
+    .isIn(SUPPORTED_CURRENCIES)
+    .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+];
+
+export const markPayoutPaidValidation = [
+  body('reference')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Reference must be at most 100 characters'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be at most 500 characters'),
+];
@@ -0,0 +1,250 @@
+import { body, query } from 'express-validator';
+
+// =====================
+// PRODUCT VALIDATIONS
+// =====================
+
+export const createProductValidation = [
+  body('shopId')
+    .optional()
+    .isString()
+    .withMessage('Shop ID must be a string'),
+
+  body('categoryId')
+    .notEmpty()
+    .withMessage('Category is required')
+    .isString()
+    .withMessage('Category ID must be a string'),
+
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Product name is required')
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Product name must be between 2 and 200 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage('Description must be at most 5000 characters'),
+
+  body('basePrice')
+    .notEmpty()
+    .withMessage('Base price is required')
+    .isInt({ gt: 0 })
+    .withMessage('Base price must be a positive whole amount in minor units'),
+
+  body('discount')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Discount must be a non-negative whole amount in minor units'),
+];
+
+export const updateProductValidation = [
+  body('categoryId')
+    .optional()
+    .isString()
+    .withMessage('Category ID must be a string'),
+
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Product name must be between 2 and 200 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage('Description must be at most 5000 characters'),
+
+  body('basePrice')
+    .optional()
+    .isInt({ gt: 0 })
+    .withMessage('Base price must be a positive whole amount in minor units'),
+
+  body('discount')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Discount must be a non-negative whole amount in minor units'),
+];
+
+export const myProductsFiltersValidation = [
+  query('status')
+    .optional()
+    .isIn(['DRAFT', 'ACTIVE', 'OUT_OF_STOCK'])
+    .withMessage('Invalid status filter'),
+
+  query('visibility')
+    .optional()
+    .isIn(['PUBLIC', 'HIDDEN'])
+    .withMessage('Invalid visibility filter'),
+];
+
+export const productFiltersValidation = [
+  query('categoryId')
+    .optional()
+    .isString()
+    .withMessage('categoryId must be a string'),
+
+  query('shopId')
+    .optional()
+    .isString()
+    .withMessage('shopId must be a string'),
+
+  query('minPrice')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('minPrice must be a non-negative whole amount in minor units'),
+
+  query('maxPrice')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('maxPrice must be a non-negative whole amount in minor units'),
+];
+
+// =====================
+// VARIANT VALIDATIONS
+// =====================
+
+export const setProductOptionsValidation = [
+  body('options')
+    .isArray({ max: 3 })
+    .withMessage('options must be an array of at most 3 option axes'),
+
+  body('options.*.name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Option name must be between 1 and 50 characters'),
+
+  body('options.*.values')
+    .isArray({ min: 1, max: 30 })
+    .withMessage('Each option must have between 1 and 30 values'),
+
+  body('options.*.values.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Option values must be between 1 and 50 characters'),
+];
+
+export const generateVariantsValidation = [
+  body('price')
+    .optional()
+    .isInt({ gt: 0 })
+    .withMessage('Price must be a positive whole amount in minor units'),
+
+  body('weight')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Weight must be a positive number of kilograms'),
+
+  body('stock')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Stock must be a non-negative integer'),
+];
+
+export const createVariantValidation = [
+  body('sku')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9-]{3,40}$/)
+    .withMessage('SKU must be 3-40 letters, digits or dashes'),
+
+  body('price')
+    .optional()
+    .isInt({ gt: 0 })
+    .withMessage('Price must be a positive whole amount in minor units'),
+
+  body('weight')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Weight must be a positive number of kilograms'),
+
+  body('stock')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Stock must be a non-negative integer'),
+
+  body('attributes')
+    .optional()
+    .isObject()
+    .withMessage('Attributes must be an object'),
+];
+
+export const bulkUpdateVariantsValidation = [
+  body('variants')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('variants must be an array of 1 to 100 items'),
+
+  body('variants.*.id')
+    .isString()
+    .withMessage('Variant ID is required'),
+
+  body('variants.*.sku')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9-]{3,40}$/)
+    .withMessage('SKU must be 3-40 letters, digits or dashes'),
+
+  body('variants.*.price')
+    .optional()
+    .isInt({ gt: 0 })
+    .withMessage('Price must be a positive whole amount in minor units'),
+
+  body('variants.*.weight')
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0 })
+    .withMessage('Weight must be a positive number of kilograms'),
+
+  body('variants.*.stock')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Stock must be a non-negative integer'),
+];
+
+// =====================
+// INVENTORY VALIDATIONS
+// =====================
+
+export const stockMovementValidation = [
+  body('type')
+    .isIn(['RESTOCK', 'RETURN', 'ADJUSTMENT'])
+    .withMessage('type must be one of RESTOCK, RETURN or ADJUSTMENT'),
+
+  body('quantity')
+    .isInt()
+    .withMessage('Quantity must be an integer')
+    .custom((value) => Number(value) !== 0)
+    .withMessage('Quantity cannot be zero'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('Reason must be at most 255 characters'),
+];
+
+export const lowStockAlertValidation = [
+  body('threshold')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('Threshold must be a non-negative integer or null to turn alerts off'),
+];
+
+// =====================
+// IMAGE VALIDATIONS
+// =====================
+
+export const reorderProductImagesValidation = [
+  body('orderedIds')
+    .isArray({ min: 1 })
+    .withMessage('orderedIds must be a non-empty array'),
+
+  body('orderedIds.*')
+    .isString()
+    .withMessage('Each image ID must be a string'),
+];
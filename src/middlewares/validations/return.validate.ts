@@ -0,0 +1,63 @@
+import { body, query } from 'express-validator';
+import { ReturnRequestStatus } from '../../utils/type.js';
+
+export const createReturnValidation = [
+  // Sent as a JSON string when the request is multipart with photos
+  body('items')
+    .customSanitizer((value) => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    })
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Items must be a non-empty list'),
+
+  body('items.*.orderItemId')
+    .isString()
+    .withMessage('Order item ID must be a string'),
+
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer')
+    .toInt(),
+
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ max: 1000 })
+    .withMessage('Reason must be at most 1000 characters'),
+];
+
+export const approveReturnValidation = [
+  body('refundAmount')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Refund amount must be a positive whole amount in minor units')
+    .toInt(),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be at most 500 characters'),
+];
+
+export const rejectReturnValidation = [
+  body('note')
+    .trim()
+    .notEmpty()
+    .withMessage('A note explaining the rejection is required')
+    .isLength({ max: 500 })
+    .withMessage('Note must be at most 500 characters'),
+];
+
+export const returnListValidation = [
+  query('status')
+    .optional()
+    .isIn(Object.values(ReturnRequestStatus))
+    .withMessage(`Status must be one of: ${Object.values(ReturnRequestStatus).join(', ')}`),
+];
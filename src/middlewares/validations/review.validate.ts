@@ -0,0 +1,91 @@
+import { body, param, query } from 'express-validator';
+import { ReviewStatus } from '../../utils/type.js';
+
+export const createReviewValidation = [
+  body('rating')
+    .notEmpty()
+    .withMessage('Rating is required')
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5')
+    .toInt(),
+
+  body('comment')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Comment must be at most 2000 characters'),
+];
+
+export const updateReviewValidation = [
+  body('rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5')
+    .toInt(),
+
+  body('comment')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Comment must be at most 2000 characters'),
+
+  body('removePhotos')
+    .optional()
+    .isBoolean()
+    .withMessage('removePhotos must be a boolean')
+    .toBoolean(),
+];
+
+export const reviewListValidation = [
+  query('rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5'),
+
+  query('verified')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('verified must be true or false'),
+];
+
+export const reportReviewValidation = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason must be at most 500 characters'),
+];
+
+export const reviewReplyValidation = [
+  body('reply')
+    .trim()
+    .notEmpty()
+    .withMessage('Reply is required')
+    .isLength({ max: 1000 })
+    .withMessage('Reply must be at most 1000 characters'),
+];
+
+export const moderationQueueValidation = [
+  query('type')
+    .optional()
+    .isIn(['product', 'shop'])
+    .withMessage('Type must be either product or shop'),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(ReviewStatus))
+    .withMessage(`Status must be one of: ${Object.values(ReviewStatus).join(', ')}`),
+];
+
+export const moderateReviewValidation = [
+  param('kind')
+    .isIn(['products', 'shops'])
+    .withMessage('Review kind must be either products or shops'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be at most 500 characters'),
+];
@@ -0,0 +1,25 @@
+import { query } from 'express-validator';
+
+export const searchValidation = [
+  query('search')
+    .trim()
+    .notEmpty()
+    .withMessage('Search term is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search term must be between 2 and 100 characters'),
+
+  query('type')
+    .optional()
+    .isIn(['all', 'products', 'shops'])
+    .withMessage('type must be one of all, products or shops'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+];
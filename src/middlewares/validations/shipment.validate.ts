@@ -0,0 +1,26 @@
+import { body } from 'express-validator';
+import { ShipmentStatus } from '../../utils/type.js';
+
+export const trackingEventValidation = [
+  body('status')
+    .isIn(Object.values(ShipmentStatus))
+    .withMessage(`Status must be one of ${Object.values(ShipmentStatus).join(', ')}`),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+
+  body('location')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Location must be at most 200 characters'),
+
+  body('occurredAt')
+    .optional()
+    .isISO8601()
+    .withMessage('occurredAt must be a valid ISO 8601 date')
+    .toDate(),
+];
@@ -0,0 +1,79 @@
+import { body, query } from 'express-validator';
+import { ShippingMethod, ShippingRateType } from '../../utils/type.js';
+
+const zoneFields = (required: boolean) => {
+  const field = (name: string) => (required ? body(name) : body(name).optional());
+  return [
+    field('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Zone name is required')
+      .isLength({ max: 100 })
+      .withMessage('Zone name must be at most 100 characters'),
+
+    field('cities')
+      .isArray({ max: 200 })
+      .withMessage('Cities must be a list; leave it empty to cover every other city'),
+
+    body('cities.*')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('City names must be between 1 and 100 characters'),
+
+    field('rates')
+      .isArray({ min: 1, max: 3 })
+      .withMessage('Rates must list between 1 and 3 delivery options'),
+
+    body('rates.*.method')
+      .isIn(Object.values(ShippingMethod))
+      .withMessage(`Delivery method must be one of ${Object.values(ShippingMethod).join(', ')}`),
+
+    body('rates.*.rateType')
+      .optional()
+      .isIn(Object.values(ShippingRateType))
+      .withMessage(`Rate type must be one of ${Object.values(ShippingRateType).join(', ')}`),
+
+    body(['rates.*.baseFee', 'rates.*.perKgFee'])
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Fees must be positive whole amounts in minor units')
+      .toInt(),
+
+    body('rates.*.freeShippingThreshold')
+      .optional({ values: 'null' })
+      .isInt({ min: 0 })
+      .withMessage('Free shipping threshold must be a positive whole amount in minor units')
+      .toInt(),
+
+    body(['rates.*.minDeliveryDays', 'rates.*.maxDeliveryDays'])
+      .isInt({ min: 0, max: 90 })
+      .withMessage('Delivery days must be whole numbers between 0 and 90')
+      .toInt(),
+
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean')
+      .toBoolean(),
+  ];
+};
+
+export const createShippingZoneValidation = [
+  body('shopId')
+    .optional()
+    .isString()
+    .withMessage('Shop ID must be a string'),
+
+  ...zoneFields(true),
+];
+
+export const updateShippingZoneValidation = zoneFields(false);
+
+export const shippingQuoteValidation = [
+  query('addressId')
+    .notEmpty()
+    .withMessage('Address ID is required')
+    .isString()
+    .withMessage('Address ID must be a string'),
+];
@@ -0,0 +1,50 @@
+import { body } from 'express-validator';
+
+export const createTaxRateValidation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('rate')
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Rate must be a fraction between 0 and 1, e.g. 0.18 for 18%')
+    .toFloat(),
+
+  body('isDefault')
+    .optional()
+    .isBoolean()
+    .withMessage('isDefault must be a boolean')
+    .toBoolean(),
+];
+
+export const updateTaxRateValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name must be at most 100 characters'),
+
+  body('rate')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Rate must be a fraction between 0 and 1, e.g. 0.18 for 18%')
+    .toFloat(),
+
+  body('isDefault')
+    .optional()
+    .isBoolean()
+    .withMessage('isDefault must be a boolean')
+    .toBoolean(),
+];
+
+export const categoryTaxRateValidation = [
+  // null clears the override, so the category inherits its parent's or the default rate
+  body('taxRateId')
+    .custom((value) => value === null || (typeof value === 'string' && value.length > 0))
+    .withMessage('taxRateId must be a tax rate ID or null'),
+];
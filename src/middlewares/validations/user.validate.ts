@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from 'express';
 import { body, query, validationResult } from 'express-validator';
 import createError from 'http-errors';
+import { SUPPORTED_CURRENCIES } from '../../utils/currency.utils.js';
 
 // User management validations (admin)
 export const createUserValidation = [
@@ -240,6 +241,15 @@ export const reviewSellerApplicationValidation = [
     .withMessage('Admin message must be at most 500 characters'),
 ];
 
+export const commissionRateValidation = [
+  body('commissionRate')
+    .notEmpty()
+    .withMessage('Commission rate is required')
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Commission rate must be between 0 and 1')
+    .toFloat(),
+];
+
 export const businessInfoValidation = [
   body('businessName')
     .trim()
@@ -416,6 +426,17 @@ export const createShopValidation = [
     .isLength({ max: 2000 })
     .withMessage('Shipping policy must be at most 2000 characters'),
   
+  body('pricesIncludeTax')
+    .optional()
+    .isBoolean()
+    .withMessage('pricesIncludeTax must be a boolean')
+    .toBoolean(),
+  
+  body('currency')
+    .optional()
+    .isIn(SUPPORTED_CURRENCIES)
+    .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+  
   body('facebookUrl')
     .optional()
     .trim()
@@ -497,6 +518,17 @@ export const updateShopValidation = [
     .isLength({ max: 2000 })
     .withMessage('Shipping policy must be at most 2000 characters'),
   
+  body('pricesIncludeTax')
+    .optional()
+    .isBoolean()
+    .withMessage('pricesIncludeTax must be a boolean')
+    .toBoolean(),
+  
+  body('currency')
+    .optional()
+    .isIn(SUPPORTED_CURRENCIES)
+    .withMessage(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`),
+  
   body('facebookUrl')
     .optional()
     .trim()
@@ -0,0 +1,45 @@
+import { body } from 'express-validator';
+
+export const createWishlistValidation = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('List name is required')
+    .isLength({ max: 60 })
+    .withMessage('List name must be at most 60 characters'),
+
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean')
+    .toBoolean(),
+];
+
+export const updateWishlistValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('List name cannot be empty')
+    .isLength({ max: 60 })
+    .withMessage('List name must be at most 60 characters'),
+
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean')
+    .toBoolean(),
+];
+
+export const addWishlistItemValidation = [
+  body('productId')
+    .notEmpty()
+    .withMessage('Product ID is required')
+    .isString()
+    .withMessage('Product ID must be a string'),
+
+  body('variantId')
+    .optional()
+    .isString()
+    .withMessage('Variant ID must be a string'),
+];
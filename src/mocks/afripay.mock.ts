@@ -0,0 +1,128 @@
+/**
+ * Stand-in for the Afripay API to exercise payments locally.
+ *
+ *   AFRIPAY_BASE_URL=http://localhost:4010 npm run start:dev
+ *   npm run mock:afripay
+ *
+ * Opening the returned checkout URL shows buttons to approve or decline the
+ * payment; either sends a signed webhook to the callback URL of the checkout.
+ */
+import crypto from 'crypto';
+import express, { type Request, type Response } from 'express';
+import axios from 'axios';
+import { afripayConfig } from '../config/payment.config.js';
+import { signAfripayPayload } from '../services/payments/afripay.provider.js';
+import { logger } from '../utils/logger.js';
+
+interface MockSession {
+  transactionRef: string;
+  amount: number;
+  currency: string;
+  clientToken: string;
+  comment: string;
+  callbackUrl: string;
+  returnUrl: string;
+  status: 'pending' | 'success' | 'failed' | 'refunded';
+}
+
+const PORT = parseInt(process.env.AFRIPAY_MOCK_PORT || '4010', 10);
+const sessions = new Map<string, MockSession>();
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+app.post('/api/checkout', (req: Request, res: Response) => {
+  const { app_id, app_secret, amount, currency, client_token, comment, callback_url, return_url } = req.body;
+  if (app_id !== afripayConfig.appId || app_secret !== afripayConfig.appSecret) {
+    res.status(401).json({ error: 'Invalid app credentials' });
+    return;
+  }
+
+  const transactionRef = `MOCK-${crypto.randomBytes(6).toString('hex').toUpperCase()}`;
+  sessions.set(transactionRef, {
+    transactionRef,
+    amount: Number(amount),
+    currency,
+    clientToken: client_token,
+    comment,
+    callbackUrl: callback_url,
+    returnUrl: return_url,
+    status: 'pending',
+  });
+
+  res.json({ transaction_ref: transactionRef, checkout_url: `http://localhost:${PORT}/checkout/${transactionRef}` });
+});
+
+app.get('/checkout/:ref', (req: Request, res: Response) => {
+  const session = sessions.get(req.params.ref as string);
+  if (!session) {
+    res.status(404).send('Unknown checkout');
+    return;
+  }
+
+  res.send(`<h1>Afripay mock</h1>
+<p>${session.comment}: ${session.amount} ${session.currency}</p>
+<form method="post" action="/checkout/${session.transactionRef}/complete"><input type="hidden" name="status" value="success"><button>Pay</button></form>
+<form method="post" action="/checkout/${session.transactionRef}/complete"><input type="hidden" name="status" value="failed"><button>Decline</button></form>`);
+});
+
+app.post('/checkout/:ref/complete', async (req: Request, res: Response) => {
+  const session = sessions.get(req.params.ref as string);
+  if (!session) {
+    res.status(404).send('Unknown checkout');
+    return;
+  }
+
+  session.status = req.body.status === 'success' ? 'success' : 'failed';
+  const body = JSON.stringify({
+    transaction_ref: session.transactionRef,
+    client_token: session.clientToken,
+    status: session.status,
+    amount: session.amount,
+    currency: session.currency,
+    payment_method: 'MOMO',
+  });
+
+  try {
+    await axios.post(session.callbackUrl, body, {
+      headers: { 'Content-Type': 'application/json', 'X-Afripay-Signature': signAfripayPayload(body) },
+    });
+    logger.info(`Afripay mock delivered payment webhook for ${session.transactionRef}`, { action: 'payment' });
+  } catch (error) {
+    logger.error(`Afripay mock failed to deliver payment webhook for ${session.transactionRef}`, { action: 'payment', error });
+  }
+
+  res.redirect(session.returnUrl);
+});
+
+app.get('/api/transactions/:ref', (req: Request, res: Response) => {
+  const session = sessions.get(req.params.ref as string);
+  if (!session) {
+    res.status(404).json({ error: 'Unknown transaction' });
+    return;
+  }
+
+  res.json({
+    transaction_ref: session.transactionRef,
+    client_token: session.clientToken,
+    status: session.status,
+    amount: session.amount,
+    currency: session.currency,
+  });
+});
+
+app.post('/api/refund', (req: Request, res: Response) => {
+  const session = sessions.get(req.body.transaction_ref);
+  if (!session || session.status !== 'success') {
+    res.status(400).json({ error: 'Transaction cannot be refunded' });
+    return;
+  }
+
+  if (Number(req.body.amount) >= session.amount) session.status = 'refunded';
+  res.json({ status: 'success', refund_ref: `MOCK-REFUND-${crypto.randomBytes(4).toString('hex').toUpperCase()}` });
+});
+
+app.listen(PORT, () => {
+  logger.info(`Afripay mock listening on http://localhost:${PORT}`);
+});
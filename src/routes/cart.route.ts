@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  getCart,
+  addItemToCart,
+  updateCartItemQuantity,
+  removeItemFromCart,
+  emptyCart,
+} from '../controllers/cart.controller.js';
+import { optionalAuth } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import { addCartItemValidation, updateCartItemValidation } from '../middlewares/validations/cart.validate.js';
+
+const router = Router();
+
+// Guests are identified by the X-Cart-Token header, logged-in customers by their access token
+router.use(optionalAuth);
+
+router.get('/', getCart);
+router.delete('/', emptyCart);
+router.post('/items', addCartItemValidation, validate, addItemToCart);
+router.patch('/items/:itemId', updateCartItemValidation, validate, updateCartItemQuantity);
+router.delete('/items/:itemId', removeItemFromCart);
+
+export default router;
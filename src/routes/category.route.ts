@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import {
+  getCategoryTree,
+  getCategoryBySlug,
+  getAllCategories,
+  createCategory,
+  updateCategory,
+  reorderCategories,
+  disableCategory,
+  enableCategory,
+  deleteCategory,
+} from '../controllers/category.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import {
+  createCategoryValidation,
+  updateCategoryValidation,
+  reorderCategoriesValidation,
+} from '../middlewares/validations/category.validate.js';
+
+const router = Router();
+
+// Public routes
+router.get('/tree', getCategoryTree);
+router.get('/slug/:slug', getCategoryBySlug);
+
+// Admin routes
+router.get('/', authenticate, adminOnly, getAllCategories);
+router.post('/', authenticate, adminOnly, createCategoryValidation, validate, createCategory);
+router.put('/reorder', authenticate, adminOnly, reorderCategoriesValidation, validate, reorderCategories);
+router.put('/:id', authenticate, adminOnly, updateCategoryValidation, validate, updateCategory);
+router.post('/:id/disable', authenticate, adminOnly, disableCategory);
+router.post('/:id/enable', authenticate, adminOnly, enableCategory);
+router.delete('/:id', authenticate, adminOnly, deleteCategory);
+
+export default router;
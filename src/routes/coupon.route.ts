@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  addCoupon,
+  listCoupons,
+  getCouponById,
+  editCoupon,
+  removeCoupon,
+  checkCoupon,
+} from '../controllers/coupon.controller.js';
+import { authenticate, adminOrSeller } from '../middlewares/authenticate.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import {
+  createCouponValidation,
+  updateCouponValidation,
+  previewCouponValidation,
+} from '../middlewares/validations/coupon.validate.js';
+
+const router = Router();
+
+// Customers check a code against their cart before checkout
+router.post('/validate', authenticate, previewCouponValidation, validate, checkCoupon);
+
+router.post('/', authenticate, adminOrSeller, createCouponValidation, validate, addCoupon);
+router.get('/', authenticate, adminOrSeller, paginationValidation, validate, listCoupons);
+router.get('/:id', authenticate, adminOrSeller, getCouponById);
+router.patch('/:id', authenticate, adminOrSeller, updateCouponValidation, validate, editCoupon);
+router.delete('/:id', authenticate, adminOrSeller, removeCoupon);
+
+export default router;
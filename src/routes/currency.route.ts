@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { listExchangeRates, putExchangeRate, removeExchangeRate } from '../controllers/currency.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import { exchangeRateValidation } from '../middlewares/validations/currency.validate.js';
+
+const router = Router();
+
+router.get('/', listExchangeRates);
+router.put('/rates/:currency', authenticate, adminOnly, exchangeRateValidation, validate, putExchangeRate);
+router.delete('/rates/:currency', authenticate, adminOnly, removeExchangeRate);
+
+export default router;
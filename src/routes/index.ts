@@ -3,6 +3,22 @@ import authRoute from "./aurh.route.js"
 import userRoute from "./user.route.js"
 import sellerRoute from "./seller.route.js"
 import shopRoute from "./shop.route.js"
+import productRoute from "./product.route.js"
+import searchRoute from "./search.route.js"
+import categoryRoute from "./category.route.js"
+import cartRoute from "./cart.route.js"
+import orderRoute from "./order.route.js"
+import paymentRoute from "./payment.route.js"
+import returnRoute from "./return.route.js"
+import payoutRoute from "./payout.route.js"
+import couponRoute from "./coupon.route.js"
+import shippingRoute from "./shipping.route.js"
+import shipmentRoute from "./shipment.route.js"
+import taxRoute from "./tax.route.js"
+import invoiceRoute from "./invoice.route.js"
+import currencyRoute from "./currency.route.js"
+import reviewRoute from "./review.route.js"
+import wishlistRoute from "./wishlist.route.js"
 
 const mainRoute = Router()
 
@@ -10,6 +26,22 @@ mainRoute.use('/auth', authRoute)
 mainRoute.use('/users', userRoute)
 mainRoute.use('/sellers', sellerRoute)
 mainRoute.use('/shop', shopRoute)
+mainRoute.use('/products', productRoute)
+mainRoute.use('/search', searchRoute)
+mainRoute.use('/categories', categoryRoute)
+mainRoute.use('/cart', cartRoute)
+mainRoute.use('/orders', orderRoute)
+mainRoute.use('/payments', paymentRoute)
+mainRoute.use('/returns', returnRoute)
+mainRoute.use('/payouts', payoutRoute)
+mainRoute.use('/coupons', couponRoute)
+mainRoute.use('/shipping', shippingRoute)
+mainRoute.use('/shipments', shipmentRoute)
+mainRoute.use('/taxes', taxRoute)
+mainRoute.use('/invoices', invoiceRoute)
+mainRoute.use('/currencies', currencyRoute)
+mainRoute.use('/reviews', reviewRoute)
+mainRoute.use('/wishlists', wishlistRoute)
 
 
 export default mainRoute
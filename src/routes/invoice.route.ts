@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getOrderInvoiceLink, getShopOrderInvoiceLink } from '../controllers/invoice.controller.js';
+import { authenticate } from '../middlewares/authenticate.js';
+
+const router = Router();
+
+// Issued on first request, then the same PDF behind a fresh signed link
+router.get('/orders/:orderId', authenticate, getOrderInvoiceLink);
+router.get('/shop-orders/:shopOrderId', authenticate, getShopOrderInvoiceLink);
+
+export default router;
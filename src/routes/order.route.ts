@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import {
+  checkoutCart,
+  confirmOrder,
+  shipOrder,
+  deliverOrder,
+  cancelMyOrder,
+  listShopOrders,
+  getShopOrder,
+  getSalesStats,
+} from '../controllers/order.controller.js';
+import { authenticate } from '../middlewares/authenticate.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import {
+  checkoutValidation,
+  shipOrderValidation,
+  cancelOrderValidation,
+  shopOrderListValidation,
+  salesStatsValidation,
+} from '../middlewares/validations/order.validate.js';
+
+const router = Router();
+
+router.post('/checkout', authenticate, checkoutValidation, validate, checkoutCart);
+
+router.post('/:id/cancel', authenticate, cancelOrderValidation, validate, cancelMyOrder);
+
+// Seller dashboard
+router.get('/shop-orders', authenticate, paginationValidation, shopOrderListValidation, validate, listShopOrders);
+router.get('/shop-orders/stats', authenticate, salesStatsValidation, validate, getSalesStats);
+router.get('/shop-orders/:id', authenticate, getShopOrder);
+
+// Seller fulfilment of their part of an order
+router.post('/shop-orders/:id/confirm', authenticate, confirmOrder);
+router.post('/shop-orders/:id/ship', authenticate, shipOrderValidation, validate, shipOrder);
+router.post('/shop-orders/:id/deliver', authenticate, deliverOrder);
+
+export default router;
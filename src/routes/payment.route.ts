@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import {
+  getPaymentProviders,
+  payOrder,
+  paymentWebhook,
+  confirmOrderPayment,
+  listRefunds,
+  retryFailedRefund,
+  checkPendingRefund,
+  resolvePendingRefund,
+} from '../controllers/payment.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import {
+  initiatePaymentValidation,
+  refundListValidation,
+  resolveRefundValidation,
+} from '../middlewares/validations/payment.validate.js';
+
+const router = Router();
+
+router.get('/providers', getPaymentProviders);
+
+router.post('/orders/:orderId', authenticate, initiatePaymentValidation, validate, payOrder);
+
+router.post('/:id/confirm', authenticate, confirmOrderPayment);
+
+// Admin
+router.get('/refunds', authenticate, adminOnly, paginationValidation, refundListValidation, validate, listRefunds);
+router.post('/refunds/:id/retry', authenticate, adminOnly, retryFailedRefund);
+router.post('/refunds/:id/check', authenticate, adminOnly, checkPendingRefund);
+router.post('/refunds/:id/resolve', authenticate, adminOnly, resolveRefundValidation, validate, resolvePendingRefund);
+
+// Called by the providers; each provider verifies its own notifications
+router.post('/webhooks/:provider', paymentWebhook);
+router.put('/webhooks/:provider', paymentWebhook);
+
+export default router;
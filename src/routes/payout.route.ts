@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  listPayouts,
+  payPayout,
+  runPayoutRollup,
+  listMyPayouts,
+  getMyOpenBalance,
+  getMyPayoutStatement,
+} from '../controllers/payout.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import { payoutListValidation, markPayoutPaidValidation } from '../middlewares/validations/payout.validate.js';
+
+const router = Router();
+
+// Seller statements
+router.get('/mine', authenticate, paginationValidation, validate, listMyPayouts);
+router.get('/mine/open', authenticate, getMyOpenBalance);
+router.get('/mine/:id', authenticate, getMyPayoutStatement);
+
+// Admin
+router.get('/', authenticate, adminOnly, paginationValidation, payoutListValidation, validate, listPayouts);
+router.post('/rollup', authenticate, adminOnly, runPayoutRollup);
+router.post('/:id/pay', authenticate, adminOnly, markPayoutPaidValidation, validate, payPayout);
+
+export default router;
@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import {
+  createProduct,
+  updateProduct,
+  publishProduct,
+  hideProduct,
+  unhideProduct,
+  deleteProduct,
+  getMyProducts,
+  getMyProductById,
+  getPublicProducts,
+  getPublicProductById,
+} from '../controllers/product.controller.js';
+import {
+  setProductOptions,
+  generateVariants,
+  getProductVariants,
+  createVariant,
+  bulkUpdateVariants,
+  deleteVariant,
+} from '../controllers/variant.controller.js';
+import {
+  getProductInventory,
+  createStockMovement,
+  getStockMovements,
+  updateLowStockAlert,
+} from '../controllers/inventory.controller.js';
+import {
+  addProductImages,
+  setPrimaryImage,
+  reorderProductImages,
+  deleteProductImage,
+} from '../controllers/productImage.controller.js';
+import {
+  listProductReviews,
+  addProductReview,
+  editProductReview,
+  removeProductReview,
+  reportProductReview,
+  replyToProductReview,
+  removeProductReviewReply,
+} from '../controllers/review.controller.js';
+import { uploadProductImages, uploadReviewPhotos } from '../middlewares/multer.js';
+import { authenticate } from '../middlewares/authenticate.js';
+import {
+  paginationValidation,
+  validate,
+} from '../middlewares/validations/user.validate.js';
+import {
+  createProductValidation,
+  updateProductValidation,
+  myProductsFiltersValidation,
+  productFiltersValidation,
+  setProductOptionsValidation,
+  generateVariantsValidation,
+  createVariantValidation,
+  bulkUpdateVariantsValidation,
+  stockMovementValidation,
+  lowStockAlertValidation,
+  reorderProductImagesValidation,
+} from '../middlewares/validations/product.validate.js';
+import {
+  createReviewValidation,
+  updateReviewValidation,
+  reviewListValidation,
+  reportReviewValidation,
+  reviewReplyValidation,
+} from '../middlewares/validations/review.validate.js';
+
+const router = Router();
+
+router.get(
+  '/',
+  paginationValidation,
+  productFiltersValidation,
+  validate,
+  getPublicProducts
+);
+
+router.post(
+  '/',
+  authenticate,
+  createProductValidation,
+  validate,
+  createProduct
+);
+
+router.get(
+  '/mine',
+  authenticate,
+  paginationValidation,
+  myProductsFiltersValidation,
+  validate,
+  getMyProducts
+);
+
+router.get('/mine/:id', authenticate, getMyProductById);
+
+router.get('/:id', getPublicProductById);
+
+router.put(
+  '/:id',
+  authenticate,
+  updateProductValidation,
+  validate,
+  updateProduct
+);
+
+router.post('/:id/publish', authenticate, publishProduct);
+
+router.post('/:id/hide', authenticate, hideProduct);
+
+router.post('/:id/unhide', authenticate, unhideProduct);
+
+router.delete('/:id', authenticate, deleteProduct);
+
+// Variant management
+router.put(
+  '/:id/options',
+  authenticate,
+  setProductOptionsValidation,
+  validate,
+  setProductOptions
+);
+
+router.get('/:id/variants', authenticate, getProductVariants);
+
+router.post(
+  '/:id/variants',
+  authenticate,
+  createVariantValidation,
+  validate,
+  createVariant
+);
+
+router.post(
+  '/:id/variants/generate',
+  authenticate,
+  generateVariantsValidation,
+  validate,
+  generateVariants
+);
+
+router.patch(
+  '/:id/variants/bulk',
+  authenticate,
+  bulkUpdateVariantsValidation,
+  validate,
+  bulkUpdateVariants
+);
+
+router.delete('/:id/variants/:variantId', authenticate, deleteVariant);
+
+// Inventory
+router.get('/:id/inventory', authenticate, getProductInventory);
+
+router.post(
+  '/:id/variants/:variantId/stock-movements',
+  authenticate,
+  stockMovementValidation,
+  validate,
+  createStockMovement
+);
+
+router.get(
+  '/:id/variants/:variantId/stock-movements',
+  authenticate,
+  paginationValidation,
+  validate,
+  getStockMovements
+);
+
+router.put(
+  '/:id/variants/:variantId/low-stock-alert',
+  authenticate,
+  lowStockAlertValidation,
+  validate,
+  updateLowStockAlert
+);
+
+// Image gallery
+router.post(
+  '/:id/images',
+  authenticate,
+  uploadProductImages.array('images', 10),
+  addProductImages
+);
+
+router.put(
+  '/:id/images/reorder',
+  authenticate,
+  reorderProductImagesValidation,
+  validate,
+  reorderProductImages
+);
+
+router.put('/:id/images/:imageId/primary', authenticate, setPrimaryImage);
+
+router.delete('/:id/images/:imageId', authenticate, deleteProductImage);
+
+// Reviews
+router.get(
+  '/:id/reviews',
+  paginationValidation,
+  reviewListValidation,
+  validate,
+  listProductReviews
+);
+
+router.post(
+  '/:id/reviews',
+  authenticate,
+  uploadReviewPhotos.array('photos', 5),
+  createReviewValidation,
+  validate,
+  addProductReview
+);
+
+router.put(
+  '/:id/reviews/:reviewId',
+  authenticate,
+  uploadReviewPhotos.array('photos', 5),
+  updateReviewValidation,
+  validate,
+  editProductReview
+);
+
+router.delete('/:id/reviews/:reviewId', authenticate, removeProductReview);
+
+router.post(
+  '/:id/reviews/:reviewId/report',
+  authenticate,
+  reportReviewValidation,
+  validate,
+  reportProductReview
+);
+
+router.put(
+  '/:id/reviews/:reviewId/reply',
+  authenticate,
+  reviewReplyValidation,
+  validate,
+  replyToProductReview
+);
+
+router.delete('/:id/reviews/:reviewId/reply', authenticate, removeProductReviewReply);
+
+export default router;
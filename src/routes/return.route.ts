@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import {
+  getOrderReturnEligibility,
+  requestReturn,
+  listMyReturns,
+  listShopReturns,
+  getReturn,
+  approveReturnRequest,
+  rejectReturnRequest,
+  retryRefund,
+} from '../controllers/return.controller.js';
+import { authenticate } from '../middlewares/authenticate.js';
+import { uploadReturnPhotos } from '../middlewares/multer.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import {
+  createReturnValidation,
+  approveReturnValidation,
+  rejectReturnValidation,
+  returnListValidation,
+} from '../middlewares/validations/return.validate.js';
+
+const router = Router();
+
+router.get('/eligibility/:orderId', authenticate, getOrderReturnEligibility);
+
+router.post('/', authenticate, uploadReturnPhotos.array('photos', 5), createReturnValidation, validate, requestReturn);
+
+router.get('/mine', authenticate, paginationValidation, validate, listMyReturns);
+
+// Returns sent to the seller's shop
+router.get('/shop', authenticate, paginationValidation, returnListValidation, validate, listShopReturns);
+
+router.get('/:id', authenticate, getReturn);
+
+router.post('/:id/approve', authenticate, approveReturnValidation, validate, approveReturnRequest);
+router.post('/:id/reject', authenticate, rejectReturnValidation, validate, rejectReturnRequest);
+router.post('/:id/refund', authenticate, retryRefund);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { listModerationQueue, hideReview, restoreReview } from '../controllers/review.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { paginationValidation, validate } from '../middlewares/validations/user.validate.js';
+import { moderationQueueValidation, moderateReviewValidation } from '../middlewares/validations/review.validate.js';
+
+const router = Router();
+
+router.get('/moderation', authenticate, adminOnly, paginationValidation, moderationQueueValidation, validate, listModerationQueue);
+router.post('/moderation/:kind/:reviewId/hide', authenticate, adminOnly, moderateReviewValidation, validate, hideReview);
+router.post('/moderation/:kind/:reviewId/restore', authenticate, adminOnly, moderateReviewValidation, validate, restoreReview);
+
+export default router;
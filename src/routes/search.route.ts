@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { search } from '../controllers/search.controller.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import { searchValidation } from '../middlewares/validations/search.validate.js';
+
+const router = Router();
+
+router.get('/', searchValidation, validate, search);
+
+export default router;
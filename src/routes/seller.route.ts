@@ -9,6 +9,7 @@ import {
   reviewSellerApplication,
   updateBusinessInfo,
   getBusinessInfo,
+  updateSellerCommission,
 } from '../controllers/seller.controller.js';
 import { authenticate } from '../middlewares/authenticate.js';
 import { adminOnly } from '../middlewares/authenticate.js';
@@ -17,6 +18,7 @@ import {
   sellerApplicationValidation,
   businessInfoValidation,
   reviewSellerApplicationValidation,
+  commissionRateValidation,
   paginationValidation,
   validate,
 } from '../middlewares/validations/user.validate.js';
@@ -91,4 +93,13 @@ router.post(
   reviewSellerApplication
 );
 
+router.put(
+  '/:id/commission',
+  authenticate,
+  adminOnly,
+  commissionRateValidation,
+  validate,
+  updateSellerCommission
+);
+
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { carrierWebhook, getShipment, addTrackingEvent } from '../controllers/shipment.controller.js';
+import { authenticate } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import { trackingEventValidation } from '../middlewares/validations/shipment.validate.js';
+
+const router = Router();
+
+// Carriers authenticate with a signature over the body, not a user token
+router.post('/webhooks/carrier', carrierWebhook);
+
+router.get('/:id', authenticate, getShipment);
+router.post('/:id/events', authenticate, trackingEventValidation, validate, addTrackingEvent);
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  listMyShippingZones,
+  addShippingZone,
+  editShippingZone,
+  removeShippingZone,
+  listShopShippingZones,
+  quoteCartShipping,
+} from '../controllers/shipping.controller.js';
+import { authenticate } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import {
+  createShippingZoneValidation,
+  updateShippingZoneValidation,
+  shippingQuoteValidation,
+} from '../middlewares/validations/shipping.validate.js';
+
+const router = Router();
+
+// Delivery options for the customer's cart, per shop
+router.get('/quote', authenticate, shippingQuoteValidation, validate, quoteCartShipping);
+
+router.get('/shops/:shopId', listShopShippingZones);
+
+// Seller zone management
+router.get('/zones', authenticate, listMyShippingZones);
+router.post('/zones', authenticate, createShippingZoneValidation, validate, addShippingZone);
+router.put('/zones/:id', authenticate, updateShippingZoneValidation, validate, editShippingZone);
+router.delete('/zones/:id', authenticate, removeShippingZone);
+
+export default router;
@@ -13,6 +13,11 @@ import {
   deleteShopReview,
   getMyShopStats,
 } from '../controllers/shop.controller.js';
+import {
+  reportShopReview,
+  replyToShopReview,
+  removeShopReviewReply,
+} from '../controllers/review.controller.js';
 import { authenticate } from '../middlewares/authenticate.js';
 import { uploadShopImages } from '../middlewares/multer.js';
 import {
@@ -22,6 +27,7 @@ import {
   shopReviewValidation,
   validate,
 } from '../middlewares/validations/user.validate.js';
+import { reportReviewValidation, reviewReplyValidation } from '../middlewares/validations/review.validate.js';
 
 const router = Router();
 
@@ -73,6 +79,24 @@ router.get('/:id/reviews', paginationValidation, validate, getShopReviews);
 
 router.delete('/:id/reviews/:reviewId', authenticate, deleteShopReview);
 
+router.post(
+  '/:id/reviews/:reviewId/report',
+  authenticate,
+  reportReviewValidation,
+  validate,
+  reportShopReview
+);
+
+router.put(
+  '/:id/reviews/:reviewId/reply',
+  authenticate,
+  reviewReplyValidation,
+  validate,
+  replyToShopReview
+);
+
+router.delete('/:id/reviews/:reviewId/reply', authenticate, removeShopReviewReply);
+
 router.delete('/:id', authenticate, deleteShop);
 
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  listTaxRates,
+  addTaxRate,
+  editTaxRate,
+  removeTaxRate,
+  assignCategoryTaxRate,
+} from '../controllers/tax.controller.js';
+import { authenticate, adminOnly } from '../middlewares/authenticate.js';
+import { validate } from '../middlewares/validations/user.validate.js';
+import {
+  createTaxRateValidation,
+  updateTaxRateValidation,
+  categoryTaxRateValidation,
+} from '../middlewares/validations/tax.validate.js';
+
+const router = Router();
+
+router.get('/', authenticate, adminOnly, listTaxRates);
+router.post('/', authenticate, adminOnly, createTaxRateValidation, validate, addTaxRate);
+router.put('/categories/:categoryId', authenticate, adminOnly, categoryTaxRateValidation, validate, assignCategoryTaxRate);
+router.put('/:id', authenticate, adminOnly, updateTaxRateValidation, validate, editTaxRate);
+router.delete('/:id', authenticate, adminOnly, removeTaxRate);
+
+export default router;
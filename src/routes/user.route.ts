@@ -38,6 +38,20 @@ import {
   suspendUserValidation,
   validate,
 } from '../middlewares/validations/user.validate.js';
+import {
+  createWishlistValidation,
+  updateWishlistValidation,
+  addWishlistItemValidation,
+} from '../middlewares/validations/wishlist.validate.js';
+import {
+  listMyWishlists,
+  addWishlist,
+  getWishlist,
+  editWishlist,
+  removeWishlist,
+  addItemToWishlist,
+  removeItemFromWishlist,
+} from '../controllers/wishlist.controller.js';
 
 const router = Router();
 
@@ -151,4 +165,24 @@ router.delete(
 
 router.get('/me/activity', authenticate, paginationValidation, validate, getMyActivity);
 
+router.get('/me/wishlists', authenticate, listMyWishlists);
+
+router.post('/me/wishlists', authenticate, createWishlistValidation, validate, addWishlist);
+
+router.get('/me/wishlists/:wishlistId', authenticate, getWishlist);
+
+router.put('/me/wishlists/:wishlistId', authenticate, updateWishlistValidation, validate, editWishlist);
+
+router.delete('/me/wishlists/:wishlistId', authenticate, removeWishlist);
+
+router.post(
+  '/me/wishlists/:wishlistId/items',
+  authenticate,
+  addWishlistItemValidation,
+  validate,
+  addItemToWishlist
+);
+
+router.delete('/me/wishlists/:wishlistId/items/:itemId', authenticate, removeItemFromWishlist);
+
 export default router;
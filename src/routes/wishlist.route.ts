@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { viewSharedWishlist } from '../controllers/wishlist.controller.js';
+
+const router = Router();
+
+router.get('/shared/:shareToken', viewSharedWishlist);
+
+export default router;
@@ -10,6 +10,9 @@ import { prisma } from "./config/db.js";
 import { logger, initializeLogCleanupJob } from "./utils/logger.js";
 import { ApiResponseBuilder, ResponseStatus } from "./utils/ApiResponse.js";
 import { isAppError, AppError, extractErrorInfo } from "./utils/AppError.js";
+import { initializeReservationCleanupJob } from "./services/inventory.service.js";
+import { initializePayoutRollupJob } from "./services/payout.service.js";
+import { initializeRefundReconciliationJob } from "./services/payment.service.js";
 
 import mainRoute from "./routes/index.js";
 
@@ -37,8 +40,8 @@ app.use(
     origin: process.env.CORS_ORIGIN || "http://localhost:3000",
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
-    exposedHeaders: ["X-Total-Count", "X-Page-Count"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "X-Cart-Token", "Idempotency-Key"],
+    exposedHeaders: ["X-Total-Count", "X-Page-Count", "X-Cart-Token"],
   })
 );
 
@@ -63,7 +66,15 @@ const limiter = rateLimit({
 
 app.use("/api", limiter);
 
-app.use(express.json({ limit: "10mb" }));
+app.use(
+  express.json({
+    limit: "10mb",
+    // Webhook signatures are computed over the exact bytes received
+    verify: (req, res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
 if (NODE_ENV === "development") {
@@ -188,6 +199,15 @@ async function startServer(): Promise<void> {
     initializeLogCleanupJob();
     logger.info("Log cleanup job initialized", { action: "server_startup" });
 
+    initializeReservationCleanupJob();
+    logger.info("Stock reservation cleanup job initialized", { action: "server_startup" });
+
+    initializePayoutRollupJob();
+    logger.info("Seller payout rollup job initialized", { action: "server_startup" });
+
+    initializeRefundReconciliationJob();
+    logger.info("Refund reconciliation job initialized", { action: "server_startup" });
+
     const server = app.listen(PORT, () => {
       logger.info(`Server running in ${NODE_ENV} mode`, {
         action: "server_startup",
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import createError from 'http-errors';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { calculateEffectivePrice } from '../utils/pricing.utils.js';
+
+export const MAX_CART_ITEM_QUANTITY = 99;
+
+export interface CartOwner {
+  userId?: string;
+  token?: string;
+}
+
+export type CartItemStatus = 'AVAILABLE' | 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'INSUFFICIENT_STOCK';
+
+const cartItemInclude = {
+  productVariant: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          categoryId: true,
+          discount: true,
+          status: true,
+          visibility: true,
+          shop: { select: { id: true, name: true, slug: true, status: true, currency: true } },
+          images: { where: { isPrimary: true }, select: { imageUrl: true, derivatives: true }, take: 1 },
+        },
+      },
+    },
+  },
+};
+
+function generateCartToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+// Selling price of a variant: its own price minus the product-level discount
+export function getVariantUnitPrice(variantPrice: number, productDiscount: number | null): number {
+  return calculateEffectivePrice(variantPrice, productDiscount);
+}
+
+export async function findCart(owner: CartOwner) {
+  if (owner.userId) return prisma.cart.findUnique({ where: { userId: owner.userId } });
+  if (owner.token) return prisma.cart.findFirst({ where: { token: owner.token, userId: null } });
+  return null;
+}
+
+export async function getOrCreateCart(owner: CartOwner) {
+  const existing = await findCart(owner);
+  if (existing) return existing;
+
+  if (owner.userId) {
+    return prisma.cart.upsert({ where: { userId: owner.userId }, create: { userId: owner.userId }, update: {} });
+  }
+  return prisma.cart.create({ data: { token: generateCartToken() } });
+}
+
+async function findPurchasableVariant(variantId: string) {
+  const variant = await prisma.productVariant.findUnique({
+    where: { id: variantId },
+    include: {
+      product: { select: { discount: true, status: true, visibility: true, shop: { select: { status: true, currency: true } } } },
+    },
+  });
+  if (!variant || variant.archivedAt) throw createError(404, 'Variant not found');
+
+  const { product } = variant;
+  if (product.status === 'DRAFT' || product.visibility !== 'PUBLIC' || product.shop.status === 'SUSPENDED') {
+    throw createError(400, 'This product is not available for purchase');
+  }
+
+  return variant;
+}
+
+// Currency of the items already in a cart, null when it is empty
+async function getCartCurrency(cartId: string, excludeVariantId?: string) {
+  const item = await prisma.cartItem.findFirst({
+    where: { cartId, ...(excludeVariantId && { productVariantId: { not: excludeVariantId } }) },
+    select: { productVariant: { select: { product: { select: { shop: { select: { currency: true } } } } } } },
+  });
+  return item?.productVariant.product.shop.currency ?? null;
+}
+
+export async function addCartItem(cartId: string, variantId: string, quantity: number) {
+  const variant = await findPurchasableVariant(variantId);
+
+  // An order is paid in one currency, so a cart only holds items priced in one
+  const cartCurrency = await getCartCurrency(cartId, variantId);
+  const { currency } = variant.product.shop;
+  if (cartCurrency && cartCurrency !== currency) {
+    throw createError(409, `Your cart holds items priced in ${cartCurrency}, check them out before adding items priced in ${currency}`);
+  }
+
+  const existing = await prisma.cartItem.findUnique({
+    where: { cartId_productVariantId: { cartId, productVariantId: variantId } },
+  });
+  const newQuantity = (existing?.quantity ?? 0) + quantity;
+
+  if (newQuantity > MAX_CART_ITEM_QUANTITY) {
+    throw createError(400, `You can add at most ${MAX_CART_ITEM_QUANTITY} units of an item`);
+  }
+  if (newQuantity > variant.stock) {
+    throw createError(409, variant.stock > 0 ? `Only ${variant.stock} unit(s) available` : 'This item is out of stock');
+  }
+
+  const unitPrice = getVariantUnitPrice(variant.price, variant.product.discount);
+  await prisma.cartItem.upsert({
+    where: { cartId_productVariantId: { cartId, productVariantId: variantId } },
+    create: { cartId, productVariantId: variantId, quantity: newQuantity, unitPrice },
+    update: { quantity: newQuantity, unitPrice },
+  });
+  await prisma.cart.update({ where: { id: cartId }, data: { updatedAt: new Date() } });
+}
+
+export async function updateCartItem(cartId: string, itemId: string, quantity: number) {
+  const item = await prisma.cartItem.findFirst({ where: { id: itemId, cartId } });
+  if (!item) throw createError(404, 'Cart item not found');
+
+  if (quantity === 0) {
+    await prisma.cartItem.delete({ where: { id: item.id } });
+    return;
+  }
+
+  const variant = await findPurchasableVariant(item.productVariantId);
+  if (quantity > variant.stock) {
+    throw createError(409, variant.stock > 0 ? `Only ${variant.stock} unit(s) available` : 'This item is out of stock');
+  }
+
+  await prisma.cartItem.update({
+    where: { id: item.id },
+    data: { quantity, unitPrice: getVariantUnitPrice(variant.price, variant.product.discount) },
+  });
+}
+
+export async function removeCartItem(cartId: string, itemId: string) {
+  const item = await prisma.cartItem.findFirst({ where: { id: itemId, cartId } });
+  if (!item) throw createError(404, 'Cart item not found');
+  await prisma.cartItem.delete({ where: { id: item.id } });
+}
+
+export async function clearCart(cartId: string) {
+  await prisma.cartItem.deleteMany({ where: { cartId } });
+}
+
+/**
+ * Re-prices every line from the current variant price and product discount,
+ * checks it against available stock, and returns the cart with totals.
+ * Items that can no longer be bought stay in the cart but are excluded from
+ * the totals and listed in `unavailableItems`.
+ */
+export async function getCartView(cartId: string) {
+  const cart = await prisma.cart.findUniqueOrThrow({
+    where: { id: cartId },
+    include: { items: { include: cartItemInclude, orderBy: { createdAt: 'asc' } } },
+  });
+
+  const priceUpdates: { id: string; unitPrice: number }[] = [];
+
+  const items = cart.items.map((item) => {
+    const variant = item.productVariant;
+    const { product } = variant;
+    const unitPrice = getVariantUnitPrice(variant.price, product.discount);
+
+    let status: CartItemStatus = 'AVAILABLE';
+    if (product.status === 'DRAFT' || product.visibility !== 'PUBLIC' || product.shop.status === 'SUSPENDED') {
+      status = 'UNAVAILABLE';
+    } else if (variant.stock <= 0) {
+      status = 'OUT_OF_STOCK';
+    } else if (item.quantity > variant.stock) {
+      status = 'INSUFFICIENT_STOCK';
+    }
+
+    const priceChanged = item.unitPrice !== unitPrice;
+    if (priceChanged) priceUpdates.push({ id: item.id, unitPrice });
+
+    return {
+      id: item.id,
+      variantId: variant.id,
+      sku: variant.sku,
+      attributes: variant.attributes,
+      product: { id: product.id, name: product.name, categoryId: product.categoryId, image: product.images[0] ?? null },
+      shop: { id: product.shop.id, name: product.shop.name, slug: product.shop.slug, currency: product.shop.currency },
+      quantity: item.quantity,
+      availableQuantity: Math.max(variant.stock, 0),
+      weight: variant.weight,
+      unitPrice,
+      ...(priceChanged && { previousUnitPrice: item.unitPrice }),
+      lineTotal: unitPrice * item.quantity,
+      status,
+    };
+  });
+
+  // Store the new prices so each change is only reported once
+  if (priceUpdates.length > 0) {
+    await prisma.$transaction(
+      priceUpdates.map((update) =>
+        prisma.cartItem.update({ where: { id: update.id }, data: { unitPrice: update.unitPrice } })
+      )
+    );
+  }
+
+  const availableItems = items.filter((item) => item.status === 'AVAILABLE');
+
+  return {
+    id: cart.id,
+    token: cart.userId ? null : cart.token,
+    currency: items[0]?.shop.currency ?? null,
+    items,
+    unavailableItems: items
+      .filter((item) => item.status !== 'AVAILABLE')
+      .map((item) => ({ id: item.id, sku: item.sku, status: item.status, availableQuantity: item.availableQuantity })),
+    itemCount: availableItems.reduce((count, item) => count + item.quantity, 0),
+    subtotal: availableItems.reduce((total, item) => total + item.lineTotal, 0),
+    updatedAt: cart.updatedAt,
+  };
+}
+
+/**
+ * Moves the items of a guest cart into the user's cart after login. Quantities
+ * of items present in both carts are added up, capped by available stock.
+ * Guest items priced in another currency than the user's cart are dropped.
+ */
+export async function mergeGuestCart(userId: string, token: string) {
+  const guestCart = await prisma.cart.findFirst({
+    where: { token, userId: null },
+    include: {
+      items: {
+        include: {
+          productVariant: { select: { stock: true, product: { select: { shop: { select: { currency: true } } } } } },
+        },
+      },
+    },
+  });
+  if (!guestCart) return;
+
+  const userCart = await getOrCreateCart({ userId });
+  const currency = (await getCartCurrency(userCart.id)) ?? guestCart.items[0]?.productVariant.product.shop.currency;
+
+  await prisma.$transaction(async (tx) => {
+    for (const item of guestCart.items) {
+      if (item.productVariant.product.shop.currency !== currency) continue;
+
+      const existing = await tx.cartItem.findUnique({
+        where: { cartId_productVariantId: { cartId: userCart.id, productVariantId: item.productVariantId } },
+      });
+      const quantity = Math.min(
+        (existing?.quantity ?? 0) + item.quantity,
+        Math.max(item.productVariant.stock, 1),
+        MAX_CART_ITEM_QUANTITY
+      );
+
+      await tx.cartItem.upsert({
+        where: { cartId_productVariantId: { cartId: userCart.id, productVariantId: item.productVariantId } },
+        create: { cartId: userCart.id, productVariantId: item.productVariantId, quantity, unitPrice: item.unitPrice },
+        update: { quantity },
+      });
+    }
+
+    await tx.cart.delete({ where: { id: guestCart.id } });
+  });
+
+  logger.info(`Guest cart ${guestCart.id} merged into cart of user ${userId}`);
+}
@@ -0,0 +1,420 @@
+import createError from 'http-errors';
+import type { Coupon, CouponScope, CouponType, Prisma } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { findCart, getCartView } from './cart.service.js';
+import { logger } from '../utils/logger.js';
+import { collectDescendantIds } from '../utils/category.utils.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { formatMoney } from '../utils/currency.utils.js';
+import { paymentConfig } from '../config/payment.config.js';
+
+type Tx = Prisma.TransactionClient;
+
+export interface CouponActor {
+  userId: string;
+  role: string;
+}
+
+export interface CouponInput {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value?: number;
+  maxDiscount?: number | null;
+  scope?: CouponScope;
+  shopId?: string | null;
+  categoryId?: string | null;
+  productIds?: string[];
+  minOrderValue?: number | null;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  isActive?: boolean;
+}
+
+// An order line as the coupon sees it; lineTotal is before any coupon
+export interface CouponLine {
+  id: string;
+  productId: string;
+  categoryId: string;
+  shopId: string;
+  lineTotal: number;
+}
+
+export interface CouponApplication {
+  coupon: Coupon;
+  discount: number;
+  freeShipping: boolean;
+  lineDiscounts: Map<string, number>;
+  shopIds: string[]; // shops with items the coupon applies to
+}
+
+const couponInclude = {
+  products: { select: { productId: true } },
+  shop: { select: { id: true, name: true } },
+  category: { select: { id: true, name: true } },
+} satisfies Prisma.CouponInclude;
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Sellers always create coupons for their own shop; admins may target any shop or none
+async function resolveCouponShop(actor: CouponActor, shopId?: string | null) {
+  if (actor.role === 'ADMIN') {
+    if (!shopId) return null;
+    const shop = await prisma.shop.findUnique({ where: { id: shopId } });
+    if (!shop) throw createError(404, 'Shop not found');
+    return shop.id;
+  }
+
+  const seller = await prisma.seller.findUnique({ where: { userId: actor.userId }, include: { shops: true } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+  const shop = shopId ? seller.shops.find((candidate) => candidate.id === shopId) : seller.shops[0];
+  if (!shop) throw createError(404, 'Shop not found');
+  return shop.id;
+}
+
+async function validateCouponTarget(
+  data: Pick<CouponInput, 'type' | 'value' | 'scope' | 'categoryId' | 'productIds' | 'startsAt' | 'endsAt'>,
+  shopId: string | null
+) {
+  if (data.type === 'PERCENTAGE' && (!data.value || data.value <= 0 || data.value > 100)) {
+    throw createError(400, 'Percentage coupons need a value between 0 and 100');
+  }
+  if (data.type === 'FIXED_AMOUNT' && (!data.value || data.value <= 0 || !Number.isInteger(data.value))) {
+    throw createError(400, 'Fixed amount coupons need a positive whole amount in minor units');
+  }
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    throw createError(400, 'The coupon must start before it ends');
+  }
+
+  if (data.scope === 'SHOP' && !shopId) throw createError(400, 'Shop coupons need a shop');
+  if (data.scope === 'CATEGORY') {
+    if (!data.categoryId) throw createError(400, 'Category coupons need a category');
+    const category = await prisma.category.findUnique({ where: { id: data.categoryId } });
+    if (!category) throw createError(404, 'Category not found');
+  }
+  if (data.scope === 'PRODUCTS') {
+    const productIds = [...new Set(data.productIds ?? [])];
+    if (productIds.length === 0) throw createError(400, 'Product coupons need at least one product');
+    const count = await prisma.product.count({
+      where: { id: { in: productIds }, ...(shopId ? { shopId } : {}) },
+    });
+    if (count !== productIds.length) throw createError(400, 'Some products do not exist or belong to another shop');
+  }
+}
+
+async function findManageableCoupon(actor: CouponActor, couponId: string) {
+  const coupon = await prisma.coupon.findUnique({ where: { id: couponId }, include: couponInclude });
+  if (!coupon) throw createError(404, 'Coupon not found');
+  if (actor.role === 'ADMIN') return coupon;
+
+  const seller = await prisma.seller.findUnique({ where: { userId: actor.userId }, include: { shops: { select: { id: true } } } });
+  if (!seller || !coupon.shopId || !seller.shops.some((shop) => shop.id === coupon.shopId)) {
+    throw createError(404, 'Coupon not found');
+  }
+  return coupon;
+}
+
+export async function createCoupon(actor: CouponActor, input: CouponInput) {
+  const shopId = await resolveCouponShop(actor, input.shopId);
+  // A coupon tied to a shop never applies to other shops, whatever its scope
+  const scope = input.scope === 'PLATFORM' && shopId ? 'SHOP' : input.scope ?? (shopId ? 'SHOP' : 'PLATFORM');
+  await validateCouponTarget({ ...input, scope }, shopId);
+
+  const code = normalizeCouponCode(input.code);
+  const existing = await prisma.coupon.findUnique({ where: { code } });
+  if (existing) throw createError(409, 'A coupon with this code already exists');
+
+  const coupon = await prisma.coupon.create({
+    data: {
+      code,
+      description: input.description,
+      type: input.type,
+      value: input.type === 'FREE_SHIPPING' ? 0 : input.value ?? 0,
+      maxDiscount: input.type === 'PERCENTAGE' ? input.maxDiscount ?? null : null,
+      scope,
+      shopId,
+      categoryId: scope === 'CATEGORY' ? input.categoryId : null,
+      minOrderValue: input.minOrderValue ?? null,
+      usageLimit: input.usageLimit ?? null,
+      perUserLimit: input.perUserLimit ?? null,
+      startsAt: input.startsAt ?? null,
+      endsAt: input.endsAt ?? null,
+      isActive: input.isActive ?? true,
+      createdById: actor.userId,
+      products:
+        scope === 'PRODUCTS'
+          ? { create: [...new Set(input.productIds)].map((productId) => ({ productId })) }
+          : undefined,
+    },
+    include: couponInclude,
+  });
+
+  logger.info(`Coupon ${coupon.code} created by user ${actor.userId}`, { action: 'coupon', meta: { shopId, scope } });
+  return coupon;
+}
+
+/**
+ * Changes the conditions of a coupon. The code, type and target stay fixed
+ * once the coupon has been redeemed, so past orders keep making sense.
+ */
+export async function updateCoupon(actor: CouponActor, couponId: string, input: Partial<CouponInput>) {
+  const coupon = await findManageableCoupon(actor, couponId);
+
+  const changesTarget = ['code', 'type', 'value', 'scope', 'categoryId', 'productIds', 'shopId'].some(
+    (field) => (input as Record<string, unknown>)[field] !== undefined
+  );
+  if (changesTarget && coupon.usedCount > 0) {
+    throw createError(409, 'The code, discount and scope of a redeemed coupon cannot be changed');
+  }
+
+  const merged = {
+    type: input.type ?? coupon.type,
+    value: input.value ?? coupon.value,
+    scope: input.scope ?? coupon.scope,
+    categoryId: input.categoryId !== undefined ? input.categoryId : coupon.categoryId,
+    productIds: input.productIds ?? coupon.products.map((product) => product.productId),
+    startsAt: input.startsAt !== undefined ? input.startsAt : coupon.startsAt,
+    endsAt: input.endsAt !== undefined ? input.endsAt : coupon.endsAt,
+  };
+  const shopId = input.shopId !== undefined ? await resolveCouponShop(actor, input.shopId) : coupon.shopId;
+  if (merged.scope === 'PLATFORM' && shopId) merged.scope = 'SHOP';
+  await validateCouponTarget(merged, shopId);
+
+  let code: string | undefined;
+  if (input.code) {
+    code = normalizeCouponCode(input.code);
+    const existing = await prisma.coupon.findUnique({ where: { code } });
+    if (existing && existing.id !== coupon.id) throw createError(409, 'A coupon with this code already exists');
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.productIds || input.scope) {
+      await tx.couponProduct.deleteMany({ where: { couponId: coupon.id } });
+      if (merged.scope === 'PRODUCTS') {
+        await tx.couponProduct.createMany({
+          data: [...new Set(merged.productIds)].map((productId) => ({ couponId: coupon.id, productId })),
+        });
+      }
+    }
+
+    return tx.coupon.update({
+      where: { id: coupon.id },
+      data: {
+        code,
+        description: input.description,
+        type: input.type,
+        value: merged.type === 'FREE_SHIPPING' ? 0 : input.value,
+        maxDiscount: merged.type === 'PERCENTAGE' ? input.maxDiscount : null,
+        scope: merged.scope,
+        shopId,
+        categoryId: merged.scope === 'CATEGORY' ? merged.categoryId : null,
+        minOrderValue: input.minOrderValue,
+        usageLimit: input.usageLimit,
+        perUserLimit: input.perUserLimit,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        isActive: input.isActive,
+      },
+      include: couponInclude,
+    });
+  });
+
+  logger.info(`Coupon ${updated.code} updated by user ${actor.userId}`, { action: 'coupon' });
+  return updated;
+}
+
+export async function deactivateCoupon(actor: CouponActor, couponId: string) {
+  const coupon = await findManageableCoupon(actor, couponId);
+  const updated = await prisma.coupon.update({ where: { id: coupon.id }, data: { isActive: false }, include: couponInclude });
+
+  logger.info(`Coupon ${coupon.code} deactivated by user ${actor.userId}`, { action: 'coupon' });
+  return updated;
+}
+
+export async function getCoupon(actor: CouponActor, couponId: string) {
+  const coupon = await findManageableCoupon(actor, couponId);
+  const redemptions = await prisma.couponRedemption.aggregate({ where: { couponId: coupon.id }, _sum: { discount: true } });
+  return { ...coupon, totalDiscount: roundMoney(redemptions._sum.discount ?? 0) };
+}
+
+// Admins see every coupon, sellers the coupons of their shop
+export async function getCoupons(actor: CouponActor, page: number, limit: number) {
+  let where: Prisma.CouponWhereInput = {};
+  if (actor.role !== 'ADMIN') {
+    const seller = await prisma.seller.findUnique({ where: { userId: actor.userId }, include: { shops: { select: { id: true } } } });
+    if (!seller) throw createError(403, 'You must be a registered seller');
+    where = { shopId: { in: seller.shops.map((shop) => shop.id) } };
+  }
+
+  const [coupons, total] = await Promise.all([
+    prisma.coupon.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: couponInclude,
+    }),
+    prisma.coupon.count({ where }),
+  ]);
+  return { coupons, total };
+}
+
+async function getEligibleLines(
+  coupon: Coupon & { products: { productId: string }[] },
+  lines: CouponLine[]
+): Promise<CouponLine[]> {
+  let eligible = coupon.shopId ? lines.filter((line) => line.shopId === coupon.shopId) : lines;
+
+  if (coupon.scope === 'CATEGORY' && coupon.categoryId) {
+    // Subcategories count as part of the category
+    const categories = await prisma.category.findMany({ select: { id: true, parentId: true, position: true } });
+    const categoryIds = new Set(collectDescendantIds(categories, coupon.categoryId));
+    eligible = eligible.filter((line) => categoryIds.has(line.categoryId));
+  } else if (coupon.scope === 'PRODUCTS') {
+    const productIds = new Set(coupon.products.map((product) => product.productId));
+    eligible = eligible.filter((line) => productIds.has(line.productId));
+  }
+
+  return eligible;
+}
+
+// Spreads the discount over the lines in proportion to their value, to the minor unit
+function allocateDiscount(discount: number, lines: CouponLine[]) {
+  const base = lines.reduce((total, line) => total + line.lineTotal, 0);
+  const lineDiscounts = new Map<string, number>();
+
+  let allocated = 0;
+  lines.forEach((line, index) => {
+    const share = index === lines.length - 1
+      ? roundMoney(discount - allocated)
+      : roundMoney((discount * line.lineTotal) / base);
+    allocated = roundMoney(allocated + share);
+    lineDiscounts.set(line.id, share);
+  });
+
+  return lineDiscounts;
+}
+
+function assertRedeemable(coupon: Coupon, userRedemptions: number) {
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    throw createError(409, 'This coupon has been fully redeemed');
+  }
+  if (coupon.perUserLimit !== null && userRedemptions >= coupon.perUserLimit) {
+    throw createError(409, 'You have already used this coupon');
+  }
+}
+
+/**
+ * Checks a coupon code against the customer and the lines of their order and
+ * works out the discount on each line. Nothing is recorded; see redeemCoupon.
+ * Amounts of shop coupons are in the shop's currency, those of platform
+ * coupons in the platform currency, so the latter only apply to orders in it.
+ */
+export async function applyCoupon(
+  code: string,
+  userId: string,
+  lines: CouponLine[],
+  currency: string
+): Promise<CouponApplication> {
+  const coupon = await prisma.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+    include: { products: { select: { productId: true } } },
+  });
+  if (!coupon || !coupon.isActive) throw createError(404, 'Coupon not found');
+
+  const now = new Date();
+  if (coupon.startsAt && coupon.startsAt > now) throw createError(400, 'This coupon is not active yet');
+  if (coupon.endsAt && coupon.endsAt < now) throw createError(400, 'This coupon has expired');
+  if (!coupon.shopId && currency !== paymentConfig.currency) {
+    throw createError(400, `This coupon is only valid for orders in ${paymentConfig.currency}`);
+  }
+
+  const userRedemptions = await prisma.couponRedemption.count({ where: { couponId: coupon.id, userId } });
+  assertRedeemable(coupon, userRedemptions);
+
+  const eligible = await getEligibleLines(coupon, lines);
+  if (eligible.length === 0) throw createError(400, 'This coupon does not apply to any item in your cart');
+
+  const base = eligible.reduce((total, line) => total + line.lineTotal, 0);
+  if (coupon.minOrderValue !== null && base < coupon.minOrderValue) {
+    throw createError(400, `Spend at least ${formatMoney(coupon.minOrderValue, currency)} on eligible items to use this coupon`);
+  }
+
+  let discount = 0;
+  if (coupon.type === 'PERCENTAGE') {
+    discount = (base * coupon.value) / 100;
+    if (coupon.maxDiscount !== null) discount = Math.min(discount, coupon.maxDiscount);
+  } else if (coupon.type === 'FIXED_AMOUNT') {
+    discount = Math.min(coupon.value, base);
+  }
+  discount = roundMoney(discount);
+
+  const { products, ...details } = coupon;
+  return {
+    coupon: details,
+    discount,
+    freeShipping: coupon.type === 'FREE_SHIPPING',
+    lineDiscounts: discount > 0 ? allocateDiscount(discount, eligible) : new Map(),
+    shopIds: [...new Set(eligible.map((line) => line.shopId))],
+  };
+}
+
+export function toCouponLines(
+  items: { id: string; product: { id: string; categoryId: string }; shop: { id: string }; lineTotal: number }[]
+): CouponLine[] {
+  return items.map((item) => ({
+    id: item.id,
+    productId: item.product.id,
+    categoryId: item.product.categoryId,
+    shopId: item.shop.id,
+    lineTotal: item.lineTotal,
+  }));
+}
+
+// What a coupon would take off the customer's current cart, before checkout
+export async function previewCoupon(userId: string, code: string) {
+  const cart = await findCart({ userId });
+  const view = cart ? await getCartView(cart.id) : null;
+  const items = view?.items.filter((item) => item.status === 'AVAILABLE') ?? [];
+  if (items.length === 0) throw createError(400, 'Your cart is empty');
+
+  const application = await applyCoupon(code, userId, toCouponLines(items), view!.currency!);
+  return {
+    code: application.coupon.code,
+    type: application.coupon.type,
+    currency: view!.currency,
+    subtotal: view!.subtotal,
+    discount: application.discount,
+    freeShipping: application.freeShipping,
+    total: roundMoney(view!.subtotal - application.discount),
+  };
+}
+
+/**
+ * Records the use of a coupon by an order. The coupon row is locked and its
+ * limits checked again, so concurrent checkouts cannot go over them.
+ */
+export async function redeemCoupon(tx: Tx, application: CouponApplication, userId: string, orderId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Coupon" WHERE "id" = ${application.coupon.id} FOR UPDATE`;
+  const coupon = await tx.coupon.findUniqueOrThrow({ where: { id: application.coupon.id } });
+  if (!coupon.isActive) throw createError(409, 'This coupon is no longer active');
+
+  const userRedemptions = await tx.couponRedemption.count({ where: { couponId: coupon.id, userId } });
+  assertRedeemable(coupon, userRedemptions);
+
+  await tx.couponRedemption.create({ data: { couponId: coupon.id, userId, orderId, discount: application.discount } });
+  await tx.coupon.update({ where: { id: coupon.id }, data: { usedCount: { increment: 1 } } });
+}
+
+// A cancelled order gives its coupon use back
+export async function releaseCouponRedemption(tx: Tx, orderId: string) {
+  const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+  if (!redemption) return;
+
+  await tx.couponRedemption.delete({ where: { id: redemption.id } });
+  await tx.coupon.update({ where: { id: redemption.couponId }, data: { usedCount: { decrement: 1 } } });
+}
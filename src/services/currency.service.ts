@@ -0,0 +1,112 @@
+import createError from 'http-errors';
+import { prisma } from '../config/db.js';
+import { paymentConfig } from '../config/payment.config.js';
+import { logger } from '../utils/logger.js';
+import {
+  CURRENCY_DECIMALS,
+  SUPPORTED_CURRENCIES,
+  convertAmount,
+  isSupportedCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from '../utils/currency.utils.js';
+
+export interface DisplayConverter {
+  currency: string;
+  // Null when the amount's currency has no exchange rate
+  convert(amount: number, from: string): number | null;
+  rate(from: string): number | null;
+  // An amount in the display currency, in the platform currency
+  toPlatform(amount: number): number;
+}
+
+export async function getExchangeRates() {
+  const rates = await prisma.exchangeRate.findMany({ orderBy: { currency: 'asc' } });
+  return { baseCurrency: paymentConfig.currency, supportedCurrencies: SUPPORTED_CURRENCIES, rates };
+}
+
+// Rates against the platform currency, which is always 1
+async function loadRates(): Promise<Map<string, number>> {
+  const rates = await prisma.exchangeRate.findMany();
+  const map = new Map(rates.map((rate): [string, number] => [rate.currency, rate.rate]));
+  map.set(paymentConfig.currency, 1);
+  return map;
+}
+
+// A product price in the platform currency, null when its currency has no exchange rate
+export async function toPlatformPrice(amount: number, currency: string): Promise<number | null> {
+  if (currency === paymentConfig.currency) return amount;
+  return convertAmount(amount, currency, paymentConfig.currency, await loadRates());
+}
+
+// Products priced in the currency are filtered and sorted on their price in the platform currency
+async function refreshNormalizedPrices(currency: string, rate: number | null) {
+  // From minor units of the currency to minor units of the platform currency; without a rate the prices are cleared
+  const factor = rate === null ? null : 10 ** CURRENCY_DECIMALS[paymentConfig.currency] / (10 ** CURRENCY_DECIMALS[currency] * rate);
+  const updated = await prisma.$executeRaw`
+    UPDATE "Product" p SET "normalizedPrice" = ROUND(p."effectivePrice" * ${factor}::float8)::int
+    FROM "Shop" s WHERE s."id" = p."shopId" AND s."currency" = ${currency}`;
+  logger.info(`Platform currency prices of ${updated} product(s) in ${currency} refreshed`, { action: 'currency' });
+}
+
+export async function setExchangeRate(adminId: string, currency: string, rate: number) {
+  if (!isSupportedCurrency(currency)) throw createError(400, `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+  if (currency === paymentConfig.currency) throw createError(400, `${currency} is the platform currency, its rate is always 1`);
+
+  const exchangeRate = await prisma.exchangeRate.upsert({
+    where: { currency },
+    create: { currency, rate, updatedById: adminId },
+    update: { rate, updatedById: adminId },
+  });
+
+  logger.info(`Exchange rate of ${currency} set to ${rate} by ${adminId}`, { action: 'currency' });
+  await refreshNormalizedPrices(currency, rate);
+  return exchangeRate;
+}
+
+// Prices can no longer be shown in the currency, nor compared with other shops' in listings; shops keep selling in theirs
+export async function deleteExchangeRate(adminId: string, currency: string) {
+  const exchangeRate = await prisma.exchangeRate.findUnique({ where: { currency } });
+  if (!exchangeRate) throw createError(404, 'Exchange rate not found');
+
+  await prisma.exchangeRate.delete({ where: { currency } });
+  logger.info(`Exchange rate of ${currency} deleted by ${adminId}`, { action: 'currency' });
+  await refreshNormalizedPrices(currency, null);
+}
+
+/**
+ * Converts prices into the currency a customer asked to see them in. Only
+ * for display: orders are charged in the currency of the shop.
+ */
+export async function getDisplayConverter(currency: string): Promise<DisplayConverter> {
+  const code = currency.toUpperCase();
+  if (!isSupportedCurrency(code)) throw createError(400, `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+
+  const rates = await loadRates();
+  if (!rates.has(code)) throw createError(400, `Prices cannot be shown in ${code} at the moment`);
+
+  return {
+    currency: code,
+    convert: (amount, from) => convertAmount(amount, from, code, rates),
+    rate: (from) => (rates.has(from) ? rates.get(code)! / rates.get(from)! : null),
+    toPlatform: (amount) => toMinorUnits(toMajorUnits(amount, code) / rates.get(code)!, paymentConfig.currency),
+  };
+}
+
+/**
+ * The given amounts in the display currency, e.g. { currency: 'USD', basePrice: 1250 },
+ * or null when they cannot be converted.
+ */
+export function toDisplayAmounts<K extends string>(
+  converter: DisplayConverter,
+  from: string,
+  amounts: Record<K, number>
+): ({ currency: string } & Record<K, number>) | null {
+  const converted = {} as Record<K, number>;
+  for (const key of Object.keys(amounts) as K[]) {
+    const value = converter.convert(amounts[key], from);
+    if (value === null) return null;
+    converted[key] = value;
+  }
+  return { currency: converter.currency, ...converted };
+}
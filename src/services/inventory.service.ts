@@ -0,0 +1,377 @@
+import { CronJob } from 'cron';
+import createError from 'http-errors';
+import type { InventoryMovementType, Prisma } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { notifyWishlistRestock } from './wishlist.service.js';
+
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '15', 10);
+
+export interface StockMovementInput {
+  variantId: string;
+  type: InventoryMovementType;
+  quantity: number; // signed
+  reason?: string;
+  reference?: string;
+  actorId?: string;
+}
+
+export interface ReservationItem {
+  variantId: string;
+  quantity: number;
+}
+
+interface StockChange {
+  variantId: string;
+  previousAvailable: number;
+  available: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Row lock so concurrent checkouts and restocks apply one after another
+async function lockInventory(tx: Tx, variantId: string) {
+  const existing = await tx.inventory.findUnique({ where: { productVariantId: variantId } });
+  if (!existing) {
+    const variant = await tx.productVariant.findUnique({ where: { id: variantId } });
+    if (!variant) throw createError(404, 'Variant not found');
+    await tx.inventory.upsert({
+      where: { productVariantId: variantId },
+      create: { productVariantId: variantId, productId: variant.productId, quantity: 0 },
+      update: {},
+    });
+  }
+
+  await tx.$queryRaw`SELECT "id" FROM "Inventory" WHERE "productVariantId" = ${variantId} FOR UPDATE`;
+  return tx.inventory.findUniqueOrThrow({ where: { productVariantId: variantId } });
+}
+
+async function saveInventory(tx: Tx, inventoryId: string, variantId: string, quantity: number, reserved: number) {
+  await tx.inventory.update({ where: { id: inventoryId }, data: { quantity, reserved } });
+  await tx.productVariant.update({ where: { id: variantId }, data: { stock: quantity - reserved } });
+}
+
+async function applyMovement(tx: Tx, input: StockMovementInput): Promise<StockChange> {
+  const inventory = await lockInventory(tx, input.variantId);
+  const balanceAfter = inventory.quantity + input.quantity;
+  if (balanceAfter < 0) throw createError(400, 'Stock cannot go below zero');
+  if (balanceAfter < inventory.reserved) {
+    throw createError(409, `${inventory.reserved} unit(s) are reserved by pending checkouts`);
+  }
+
+  await saveInventory(tx, inventory.id, input.variantId, balanceAfter, inventory.reserved);
+  await tx.inventoryMovement.create({
+    data: {
+      inventoryId: inventory.id,
+      type: input.type,
+      quantity: input.quantity,
+      balanceAfter,
+      reason: input.reason,
+      reference: input.reference,
+      actorId: input.actorId,
+    },
+  });
+
+  return {
+    variantId: input.variantId,
+    previousAvailable: inventory.quantity - inventory.reserved,
+    available: balanceAfter - inventory.reserved,
+  };
+}
+
+async function notifyLowStock(changes: StockChange[]) {
+  for (const change of changes) {
+    if (change.available >= change.previousAvailable) continue;
+
+    const inventory = await prisma.inventory.findUnique({
+      where: { productVariantId: change.variantId },
+      include: {
+        productVariant: {
+          select: { sku: true, product: { select: { name: true, shop: { select: { seller: { select: { userId: true } } } } } } },
+        },
+      },
+    });
+    if (!inventory || inventory.lowStockAlert === null) continue;
+
+    // Only notify when the threshold is crossed, not on every sale below it
+    const threshold = inventory.lowStockAlert;
+    if (change.previousAvailable > threshold && change.available <= threshold) {
+      const { sku, product } = inventory.productVariant;
+      await prisma.notification.create({
+        data: {
+          userId: product.shop.seller.userId,
+          type: 'LOW_STOCK',
+          message: `${product.name} (${sku}) is running low: ${change.available} left`,
+        },
+      });
+      logger.info(`Low stock alert sent for variant ${change.variantId}`, { action: 'inventory' });
+    }
+  }
+}
+
+// Flips products to OUT_OF_STOCK once no variant has available units, and back to ACTIVE on restock
+async function syncProductStockStatus(variantIds: string[]) {
+  const variants = await prisma.productVariant.findMany({
+    where: { id: { in: variantIds } },
+    select: { productId: true },
+  });
+  const productIds = [...new Set(variants.map((variant) => variant.productId))];
+
+  for (const productId of productIds) {
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { status: true } });
+    if (!product || product.status === 'DRAFT') continue;
+
+    const inStock = await prisma.productVariant.count({ where: { productId, archivedAt: null, stock: { gt: 0 } } });
+    if (inStock === 0 && product.status === 'ACTIVE') {
+      await prisma.product.update({ where: { id: productId }, data: { status: 'OUT_OF_STOCK' } });
+      logger.info(`Product ${productId} is out of stock`, { action: 'inventory' });
+    } else if (inStock > 0 && product.status === 'OUT_OF_STOCK') {
+      await prisma.product.update({ where: { id: productId }, data: { status: 'ACTIVE' } });
+      logger.info(`Product ${productId} is back in stock`, { action: 'inventory' });
+    }
+  }
+}
+
+async function afterStockChange(changes: StockChange[]) {
+  try {
+    await notifyLowStock(changes);
+    await syncProductStockStatus(changes.map((change) => change.variantId));
+    await notifyWishlistRestock(
+      changes.filter((change) => change.previousAvailable <= 0 && change.available > 0).map((change) => change.variantId)
+    );
+  } catch (error) {
+    logger.error('Failed to process stock change side effects', { error, action: 'inventory' });
+  }
+}
+
+export async function recordMovement(input: StockMovementInput) {
+  const change = await prisma.$transaction((tx) => applyMovement(tx, input));
+  await afterStockChange([change]);
+  return change;
+}
+
+export async function recordMovements(inputs: StockMovementInput[]) {
+  const changes = await prisma.$transaction(async (tx) => {
+    const results: StockChange[] = [];
+    for (const input of inputs) results.push(await applyMovement(tx, input));
+    return results;
+  });
+  await afterStockChange(changes);
+  return changes;
+}
+
+/**
+ * Sets the on-hand quantity of a variant by recording the difference as an
+ * ADJUSTMENT, so manual edits still show up in the ledger.
+ */
+export async function setStockLevel(variantId: string, quantity: number, actorId?: string, reason = 'Manual stock update') {
+  const change = await prisma.$transaction(async (tx) => {
+    const inventory = await lockInventory(tx, variantId);
+    const delta = quantity - inventory.quantity;
+    if (delta === 0) {
+      const available = inventory.quantity - inventory.reserved;
+      return { variantId, previousAvailable: available, available };
+    }
+    return applyMovement(tx, { variantId, type: 'ADJUSTMENT', quantity: delta, reason, actorId });
+  });
+  await afterStockChange([change]);
+  return change;
+}
+
+export async function setLowStockAlert(variantId: string, threshold: number | null) {
+  return prisma.$transaction(async (tx) => {
+    const inventory = await lockInventory(tx, variantId);
+    return tx.inventory.update({ where: { id: inventory.id }, data: { lowStockAlert: threshold } });
+  });
+}
+
+async function holdStock(tx: Tx, items: ReservationItem[], reference: string, expiresAt: Date) {
+  const reservations = [];
+  const changes: StockChange[] = [];
+
+  // Lock in a stable order so two checkouts for the same variants cannot deadlock
+  const sortedItems = [...items].sort((a, b) => a.variantId.localeCompare(b.variantId));
+  for (const item of sortedItems) {
+    const inventory = await lockInventory(tx, item.variantId);
+    const available = inventory.quantity - inventory.reserved;
+    if (available < item.quantity) {
+      const variant = await tx.productVariant.findUnique({ where: { id: item.variantId }, select: { sku: true } });
+      throw createError(409, `Only ${Math.max(available, 0)} unit(s) of ${variant?.sku ?? item.variantId} available`);
+    }
+
+    await saveInventory(tx, inventory.id, item.variantId, inventory.quantity, inventory.reserved + item.quantity);
+    reservations.push(
+      await tx.stockReservation.create({
+        data: { productVariantId: item.variantId, quantity: item.quantity, reference, expiresAt },
+      })
+    );
+    changes.push({ variantId: item.variantId, previousAvailable: available, available: available - item.quantity });
+  }
+
+  return { reservations, changes };
+}
+
+/**
+ * Holds stock for a checkout. All items are reserved or none are; the hold is
+ * released automatically once `expiresAt` passes without a commit.
+ */
+export async function reserveStock(items: ReservationItem[], reference: string, ttlMinutes = RESERVATION_TTL_MINUTES) {
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  const { reservations, changes } = await prisma.$transaction((tx) => holdStock(tx, items, reference, expiresAt));
+
+  await afterStockChange(changes);
+  return reservations;
+}
+
+/**
+ * Like `reserveStock`, but runs `work` in the same transaction so the hold and
+ * the records it belongs to (e.g. an order) are saved together or not at all.
+ */
+export async function reserveStockWith<T>(
+  items: ReservationItem[],
+  reference: string,
+  work: (tx: Tx) => Promise<T>,
+  ttlMinutes = RESERVATION_TTL_MINUTES
+) {
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  const { result, changes } = await prisma.$transaction(async (tx) => {
+    const { changes } = await holdStock(tx, items, reference, expiresAt);
+    return { result: await work(tx), changes };
+  });
+
+  await afterStockChange(changes);
+  return result;
+}
+
+/**
+ * Turns the stock held for `items` under `reference` into SALE movements and
+ * runs `work` in the same transaction. Items whose hold already expired are
+ * sold from available stock instead, failing if it has run out since.
+ */
+export async function commitStockWith<T>(
+  items: ReservationItem[],
+  reference: string,
+  work: (tx: Tx) => Promise<T>,
+  actorId?: string
+) {
+  const { result, changes } = await prisma.$transaction(async (tx) => {
+    const changes: StockChange[] = [];
+
+    const sortedItems = [...items].sort((a, b) => a.variantId.localeCompare(b.variantId));
+    for (const item of sortedItems) {
+      const inventory = await lockInventory(tx, item.variantId);
+      const previousAvailable = inventory.quantity - inventory.reserved;
+      const reservation = await tx.stockReservation.findFirst({
+        where: { reference, productVariantId: item.variantId, status: 'ACTIVE' },
+      });
+
+      let reserved = inventory.reserved;
+      if (reservation) {
+        await tx.stockReservation.update({ where: { id: reservation.id }, data: { status: 'COMMITTED' } });
+        reserved = Math.max(0, reserved - reservation.quantity);
+      } else if (previousAvailable < item.quantity) {
+        const variant = await tx.productVariant.findUnique({ where: { id: item.variantId }, select: { sku: true } });
+        throw createError(409, `Only ${Math.max(previousAvailable, 0)} unit(s) of ${variant?.sku ?? item.variantId} available`);
+      }
+
+      const balanceAfter = inventory.quantity - item.quantity;
+      await saveInventory(tx, inventory.id, item.variantId, balanceAfter, reserved);
+      await tx.inventoryMovement.create({
+        data: { inventoryId: inventory.id, type: 'SALE', quantity: -item.quantity, balanceAfter, reference, actorId },
+      });
+      changes.push({ variantId: item.variantId, previousAvailable, available: balanceAfter - reserved });
+    }
+
+    return { result: await work(tx), changes };
+  });
+
+  await afterStockChange(changes);
+  return result;
+}
+
+async function settleReservations(
+  where: Prisma.StockReservationWhereInput,
+  status: 'COMMITTED' | 'RELEASED' | 'EXPIRED',
+  actorId?: string
+) {
+  const changes = await prisma.$transaction(async (tx) => {
+    const reservations = await tx.stockReservation.findMany({
+      where: { ...where, status: 'ACTIVE' },
+      orderBy: { productVariantId: 'asc' },
+    });
+    const results: StockChange[] = [];
+
+    for (const reservation of reservations) {
+      const inventory = await lockInventory(tx, reservation.productVariantId);
+      const claimed = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: 'ACTIVE' },
+        data: { status },
+      });
+      if (claimed.count === 0) continue;
+
+      const reserved = Math.max(0, inventory.reserved - reservation.quantity);
+      if (status === 'COMMITTED') {
+        const balanceAfter = inventory.quantity - reservation.quantity;
+        await saveInventory(tx, inventory.id, reservation.productVariantId, balanceAfter, reserved);
+        await tx.inventoryMovement.create({
+          data: {
+            inventoryId: inventory.id,
+            type: 'SALE',
+            quantity: -reservation.quantity,
+            balanceAfter,
+            reference: reservation.reference,
+            actorId,
+          },
+        });
+      } else {
+        await saveInventory(tx, inventory.id, reservation.productVariantId, inventory.quantity, reserved);
+      }
+
+      const previousAvailable = inventory.quantity - inventory.reserved;
+      const available = status === 'COMMITTED' ? previousAvailable : previousAvailable + reservation.quantity;
+      results.push({ variantId: reservation.productVariantId, previousAvailable, available });
+    }
+
+    return results;
+  });
+
+  await afterStockChange(changes);
+  return changes.length;
+}
+
+// Turns held stock into SALE movements once the order is placed
+export async function commitReservations(reference: string, actorId?: string) {
+  return settleReservations({ reference }, 'COMMITTED', actorId);
+}
+
+export async function releaseReservations(reference: string) {
+  return settleReservations({ reference }, 'RELEASED');
+}
+
+export async function expireReservations() {
+  try {
+    const released = await settleReservations({ expiresAt: { lt: new Date() } }, 'EXPIRED');
+    if (released > 0) logger.info(`Released ${released} expired stock reservation(s)`, { action: 'inventory' });
+  } catch (error) {
+    logger.error('Failed to release expired stock reservations', { error, action: 'inventory' });
+  }
+}
+
+let reservationCleanupJob: CronJob<string> | null = null;
+export function initializeReservationCleanupJob() {
+  if (reservationCleanupJob) return reservationCleanupJob;
+
+  reservationCleanupJob = new CronJob(
+    '* * * * *',
+    expireReservations,
+    undefined,
+    false,
+    'UTC'
+  );
+  reservationCleanupJob.start();
+  logger.debug('Stock reservation cleanup cron job initialized and started');
+
+  return reservationCleanupJob;
+}
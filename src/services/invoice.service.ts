@@ -0,0 +1,271 @@
+import createError from 'http-errors';
+import type { Invoice, Prisma } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { invoiceConfig } from '../config/payment.config.js';
+import { logger } from '../utils/logger.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { CURRENCY_DECIMALS, toMajorUnits } from '../utils/currency.utils.js';
+import { PdfDocument, PAGE_HEIGHT, fitText } from '../utils/pdf.utils.js';
+import { r2Service } from './r2.service.js';
+import type { OrderActor } from './order.service.js';
+import type { ShippingAddress } from '../utils/type.js';
+
+const invoiceOrderInclude = {
+  user: { select: { firstName: true, lastName: true, email: true, phone: true } },
+  payments: { where: { status: { in: ['COMPLETED', 'REFUNDED'] } }, orderBy: { createdAt: 'desc' } },
+  shopOrders: {
+    include: { shop: { select: { name: true, address: true, phone: true, email: true } }, items: true },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.OrderInclude;
+
+type InvoiceOrder = Prisma.OrderGetPayload<{ include: typeof invoiceOrderInclude }>;
+type InvoiceShopOrder = InvoiceOrder['shopOrders'][number];
+
+interface InvoiceDocument {
+  number: string;
+  issuedAt: Date;
+  currency: string;
+  order: InvoiceOrder;
+  shopOrders: InvoiceShopOrder[];
+  byShop: boolean; // a shop's own invoice rather than one of the whole order
+}
+
+const MARGIN = 50;
+const RIGHT = 545;
+const PAGE_BOTTOM = PAGE_HEIGHT - 60;
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(6, '0')}`;
+}
+
+// The currency is printed once in the column headers, not next to each amount
+function formatAmount(amount: number, currency: string): string {
+  const decimals = CURRENCY_DECIMALS[currency] ?? 0;
+  return toMajorUnits(amount, currency).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function sumOf(shopOrders: InvoiceShopOrder[], field: 'subtotal' | 'discount' | 'shippingFee' | 'taxAmount' | 'total') {
+  return roundMoney(shopOrders.reduce((total, shopOrder) => total + shopOrder[field], 0));
+}
+
+function renderInvoice({ number, issuedAt, currency, order, shopOrders, byShop }: InvoiceDocument): Buffer {
+  const pdf = new PdfDocument();
+  let y = 70;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_BOTTOM) return;
+    pdf.addPage();
+    y = 60;
+  };
+
+  const summaryLine = (label: string, amount: number, bold = false) => {
+    ensureSpace(14);
+    pdf.text(430, y, label, { bold, align: 'right' });
+    pdf.text(RIGHT, y, formatAmount(amount, currency), { bold, align: 'right' });
+    y += 14;
+  };
+
+  pdf.text(MARGIN, y, 'INVOICE', { size: 22, bold: true });
+  pdf.text(RIGHT, y - 8, number, { bold: true, align: 'right' });
+  pdf.text(RIGHT, y + 6, `Issued ${formatDate(issuedAt)}`, { size: 9, align: 'right' });
+  y += 40;
+
+  // Issuer on the left, customer on the right
+  const issuer = byShop
+    ? [shopOrders[0].shop.name, shopOrders[0].shop.address, shopOrders[0].shop.phone, shopOrders[0].shop.email]
+    : [invoiceConfig.issuerName, invoiceConfig.issuerAddress, invoiceConfig.issuerTaxId && `TIN ${invoiceConfig.issuerTaxId}`];
+  const address = (order.shippingAddress ?? {}) as Partial<ShippingAddress>;
+  const customer = [
+    `${order.user.firstName} ${order.user.lastName}`,
+    [address.street, address.address].filter(Boolean).join(', '),
+    address.city ?? '',
+    order.user.phone,
+    order.user.email,
+  ];
+
+  pdf.text(MARGIN, y, 'From', { size: 9, bold: true });
+  pdf.text(320, y, 'Bill to', { size: 9, bold: true });
+  const top = y + 14;
+  issuer.filter(Boolean).forEach((line, index) => pdf.text(MARGIN, top + index * 12, fitText(line as string, 250, 9), { size: 9 }));
+  customer.filter(Boolean).forEach((line, index) => pdf.text(320, top + index * 12, fitText(line, 225, 9), { size: 9 }));
+  y = top + Math.max(issuer.filter(Boolean).length, customer.filter(Boolean).length) * 12 + 14;
+
+  const payment = order.payments[0];
+  pdf.text(MARGIN, y, `Order ${order.id}`, { size: 9 });
+  pdf.text(MARGIN, y + 12, `Placed ${formatDate(order.createdAt)}`, { size: 9 });
+  if (payment) {
+    const paidAt = payment.paidAt ? `, paid ${formatDate(payment.paidAt)}` : '';
+    pdf.text(320, y, `Payment: ${payment.method} via ${payment.provider}${paidAt}`, { size: 9 });
+    if (payment.reference) pdf.text(320, y + 12, fitText(`Reference ${payment.reference}`, 225, 9), { size: 9 });
+  }
+  y += 40;
+
+  for (const shopOrder of shopOrders) {
+    ensureSpace(80);
+    pdf.text(MARGIN, y, shopOrder.shop.name, { size: 11, bold: true });
+    y += 12;
+    const contact = [shopOrder.shop.address, shopOrder.shop.phone, shopOrder.shop.email].filter(Boolean).join('  |  ');
+    if (contact) {
+      pdf.text(MARGIN, y, fitText(contact, RIGHT - MARGIN, 8), { size: 8 });
+      y += 12;
+    }
+
+    y += 6;
+    pdf.text(MARGIN, y, 'Item', { size: 9, bold: true });
+    pdf.text(360, y, 'Qty', { size: 9, bold: true, align: 'right' });
+    pdf.text(430, y, 'Unit price', { size: 9, bold: true, align: 'right' });
+    pdf.text(475, y, 'Tax', { size: 9, bold: true, align: 'right' });
+    pdf.text(RIGHT, y, `Amount (${currency})`, { size: 9, bold: true, align: 'right' });
+    pdf.line(MARGIN, y + 4, RIGHT, y + 4);
+    y += 16;
+
+    for (const item of shopOrder.items) {
+      ensureSpace(item.discount > 0 ? 26 : 14);
+      const name = item.variantSku ? `${item.productName} (${item.variantSku})` : item.productName;
+      pdf.text(MARGIN, y, fitText(name, 270, 9), { size: 9 });
+      pdf.text(360, y, String(item.quantity), { size: 9, align: 'right' });
+      pdf.text(430, y, formatAmount(item.price, currency), { size: 9, align: 'right' });
+      pdf.text(475, y, `${Number((item.taxRate * 100).toFixed(2))}%`, { size: 9, align: 'right' });
+      pdf.text(RIGHT, y, formatAmount(item.lineTotal, currency), { size: 9, align: 'right' });
+      if (item.discount > 0) {
+        y += 11;
+        pdf.text(MARGIN + 10, y, `Discount -${formatAmount(item.discount, currency)}`, { size: 8 });
+      }
+      y += 14;
+    }
+    pdf.line(MARGIN, y - 8, RIGHT, y - 8);
+    y += 4;
+
+    summaryLine('Subtotal', shopOrder.subtotal);
+    if (shopOrder.discount > 0) summaryLine('Discount', -shopOrder.discount);
+    const method = shopOrder.shippingMethod ? ` (${shopOrder.shippingMethod.toLowerCase()})` : '';
+    summaryLine(`Shipping${method}`, shopOrder.shippingFee);
+    summaryLine(shopOrder.taxInclusive ? 'Tax included' : 'Tax', shopOrder.taxAmount);
+    summaryLine('Total', shopOrder.total, true);
+    y += 16;
+  }
+
+  if (shopOrders.length > 1) {
+    ensureSpace(90);
+    pdf.line(300, y - 8, RIGHT, y - 8, 1);
+    y += 6;
+    summaryLine('Subtotal', sumOf(shopOrders, 'subtotal'));
+    if (sumOf(shopOrders, 'discount') > 0) summaryLine('Discount', -sumOf(shopOrders, 'discount'));
+    summaryLine('Shipping', sumOf(shopOrders, 'shippingFee'));
+    summaryLine('Tax', sumOf(shopOrders, 'taxAmount'));
+    summaryLine(`Total (${currency})`, sumOf(shopOrders, 'total'), true);
+  }
+
+  pdf.text(MARGIN, PAGE_HEIGHT - 40, `Amounts in ${currency}. ${number}`, { size: 8 });
+  return pdf.toBuffer();
+}
+
+/**
+ * Numbers, renders and stores the invoice of an order, or of one shop order.
+ * The year's counter row stays locked until the invoice is saved, so numbers
+ * are handed out one at a time and a failed upload gives its number back.
+ */
+async function issueInvoice(orderId: string, shopOrderId: string | null) {
+  const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId }, include: invoiceOrderInclude });
+  if (order.paymentStatus !== 'COMPLETED') throw createError(409, 'An invoice is issued once the order is paid');
+
+  const shopOrders = order.shopOrders.filter((shopOrder) =>
+    shopOrderId ? shopOrder.id === shopOrderId : shopOrder.status !== 'CANCELLED'
+  );
+  if (shopOrders.length === 0 || shopOrders.some((shopOrder) => shopOrder.status === 'CANCELLED')) {
+    throw createError(409, 'Cancelled orders are not invoiced');
+  }
+
+  const { currency } = order;
+  const issuedAt = new Date();
+  const year = issuedAt.getUTCFullYear();
+
+  const invoice = await prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw`INSERT INTO "InvoiceCounter" ("year", "lastNumber") VALUES (${year}, 0) ON CONFLICT ("year") DO NOTHING`;
+      const [counter] = await tx.$queryRaw<{ lastNumber: number }[]>`
+        SELECT "lastNumber" FROM "InvoiceCounter" WHERE "year" = ${year} FOR UPDATE`;
+
+      // Another request may have issued it while this one waited for the lock
+      const existing = await tx.invoice.findFirst({ where: { orderId, shopOrderId } });
+      if (existing) return existing;
+
+      const sequence = counter.lastNumber + 1;
+      const number = formatInvoiceNumber(year, sequence);
+      const file = await r2Service.uploadFile(renderInvoice({ number, issuedAt, currency, order, shopOrders, byShop: !!shopOrderId }), {
+        folder: `invoices/${year}`,
+        filename: `${number}.pdf`,
+        contentType: 'application/pdf',
+        metadata: { orderId, invoiceNumber: number },
+      });
+
+      await tx.invoiceCounter.update({ where: { year }, data: { lastNumber: sequence } });
+      return tx.invoice.create({
+        data: {
+          number,
+          year,
+          sequence,
+          orderId,
+          shopOrderId,
+          fileKey: file.key,
+          total: sumOf(shopOrders, 'total'),
+          currency,
+          issuedAt,
+        },
+      });
+    },
+    { timeout: 30000 }
+  );
+
+  logger.info(`Invoice ${invoice.number} issued for order ${orderId}`, {
+    action: 'invoice',
+    meta: { shopOrderId, total: invoice.total },
+  });
+  return invoice;
+}
+
+async function toInvoiceLink(invoice: Invoice) {
+  const url = await r2Service.getSignedUrl(invoice.fileKey, invoiceConfig.linkExpiresIn);
+  return {
+    number: invoice.number,
+    issuedAt: invoice.issuedAt,
+    total: invoice.total,
+    currency: invoice.currency,
+    url,
+    expiresAt: new Date(Date.now() + invoiceConfig.linkExpiresIn * 1000),
+  };
+}
+
+// Invoice of every shop's part of the order, for the customer or an admin
+export async function getOrderInvoice(actor: OrderActor, orderId: string) {
+  const order = await prisma.order.findUnique({ where: { id: orderId }, select: { userId: true } });
+  if (!order || (actor.role !== 'ADMIN' && order.userId !== actor.userId)) throw createError(404, 'Order not found');
+
+  const invoice =
+    (await prisma.invoice.findFirst({ where: { orderId, shopOrderId: null } })) ?? (await issueInvoice(orderId, null));
+  return toInvoiceLink(invoice);
+}
+
+// Invoice of one shop's part, issued in the shop's name
+export async function getShopOrderInvoice(actor: OrderActor, shopOrderId: string) {
+  const shopOrder = await prisma.shopOrder.findUnique({
+    where: { id: shopOrderId },
+    select: { orderId: true, order: { select: { userId: true } }, shop: { select: { seller: { select: { userId: true } } } } },
+  });
+  const allowed =
+    shopOrder &&
+    (actor.role === 'ADMIN' || shopOrder.order.userId === actor.userId || shopOrder.shop.seller.userId === actor.userId);
+  if (!allowed) throw createError(404, 'Order not found');
+
+  const invoice =
+    (await prisma.invoice.findUnique({ where: { shopOrderId } })) ?? (await issueInvoice(shopOrder.orderId, shopOrderId));
+  return toInvoiceLink(invoice);
+}
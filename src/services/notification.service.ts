@@ -0,0 +1,14 @@
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Leaves an in-app notification for a user. A notification that cannot be
+ * stored is logged and dropped, it never fails the action that caused it.
+ */
+export async function notifyUser(userId: string, type: string, message: string) {
+  try {
+    await prisma.notification.create({ data: { userId, type, message } });
+  } catch (error) {
+    logger.error(`Failed to send ${type} notification`, { error, action: 'notification' });
+  }
+}
@@ -0,0 +1,645 @@
+import crypto from 'crypto';
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import type { OrderStatus, ShippingMethod } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { AppError } from '../utils/AppError.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { assertTransition, canTransition, deriveOrderStatus } from '../utils/order.utils.js';
+import type { OrderFilters } from '../utils/type.js';
+import { findCart, getCartView } from './cart.service.js';
+import { commitStockWith, recordMovements, releaseReservations, reserveStockWith } from './inventory.service.js';
+import { recordPaidSales } from './payout.service.js';
+import { settleCancelledOrderPayments } from './payment.service.js';
+import { applyCoupon, redeemCoupon, releaseCouponRedemption, toCouponLines } from './coupon.service.js';
+import { quoteShipping, selectShippingOption, toShippingParcels } from './shipping.service.js';
+import type { ShippingOption } from './shipping.service.js';
+import { calculateTax, resolveTaxRates } from './tax.service.js';
+import { getDisplayConverter } from './currency.service.js';
+
+export interface OrderActor {
+  userId: string;
+  role: string;
+}
+
+// Status changes made by a carrier's tracking update have no user behind them
+export const CARRIER_ACTOR = { userId: null, role: 'CARRIER' } as const;
+
+export interface CheckoutInput {
+  addressId: string;
+  couponCode?: string;
+  shipping?: { shopId: string; method: ShippingMethod }[];
+  displayCurrency?: string; // currency the customer saw prices in, for the rate snapshot
+}
+
+export const shipmentInclude = {
+  include: { events: { orderBy: { occurredAt: 'asc' } } },
+} satisfies Prisma.ShipmentDefaultArgs;
+
+export const orderDetailInclude = {
+  shopOrders: {
+    include: {
+      shop: { select: { id: true, name: true, slug: true } },
+      items: true,
+      transitions: { orderBy: { createdAt: 'asc' } },
+      shipment: shipmentInclude,
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  payments: { include: { refunds: true } },
+} satisfies Prisma.OrderInclude;
+
+// What a seller sees of an order: their own items only, never the other shops' part
+export const shopOrderDetailInclude = {
+  order: {
+    select: {
+      id: true,
+      userId: true,
+      shippingAddress: true,
+      paymentStatus: true,
+      createdAt: true,
+      user: { select: { firstName: true, lastName: true, phone: true } },
+    },
+  },
+  items: true,
+  transitions: { orderBy: { createdAt: 'asc' } },
+  shipment: shipmentInclude,
+  returns: { select: { id: true, status: true, requestedAmount: true, refundAmount: true, createdAt: true } },
+} satisfies Prisma.ShopOrderInclude;
+
+export type SalesInterval = 'day' | 'week' | 'month';
+
+type Tx = Prisma.TransactionClient;
+
+type CartLine = Awaited<ReturnType<typeof getCartView>>['items'][number];
+
+function findOrderByIdempotencyKey(userId: string, idempotencyKey: string) {
+  return prisma.order.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } },
+    include: orderDetailInclude,
+  });
+}
+
+function groupByShop(items: CartLine[]) {
+  const groups = new Map<string, CartLine[]>();
+  for (const item of items) {
+    const group = groups.get(item.shop.id) ?? [];
+    group.push(item);
+    groups.set(item.shop.id, group);
+  }
+  return groups;
+}
+
+async function notifySellersOfOrder(orderId: string, shopIds: string[]) {
+  try {
+    const shops = await prisma.shop.findMany({
+      where: { id: { in: shopIds } },
+      select: { name: true, seller: { select: { userId: true } } },
+    });
+    await prisma.notification.createMany({
+      data: shops.map((shop) => ({
+        userId: shop.seller.userId,
+        type: 'NEW_ORDER',
+        message: `New order ${orderId} received for ${shop.name}`,
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to notify sellers of new order', { error, action: 'checkout' });
+  }
+}
+
+/**
+ * Turns the customer's cart into one order with a sub-order per shop. Prices
+ * and variant details are copied onto the order items and stock is reserved
+ * under the order id, all in one transaction. Each shop sub-order is charged
+ * the delivery option picked for it, or its cheapest one, and tax at the
+ * rates of the products' categories. A coupon is spread
+ * over the items it applies to and redeemed in the same transaction. The order
+ * is settled in the currency of the shops; the rate to the customer's display
+ * currency is kept with it. Retrying with the same idempotency key returns the
+ * order created by the first attempt.
+ */
+export async function checkout(userId: string, idempotencyKey: string, input: CheckoutInput) {
+  const existing = await findOrderByIdempotencyKey(userId, idempotencyKey);
+  if (existing) return { order: existing, created: false };
+
+  const address = await prisma.address.findFirst({ where: { id: input.addressId, userId } });
+  if (!address) throw createError(404, 'Address not found');
+
+  const cart = await findCart({ userId });
+  if (!cart) throw createError(400, 'Your cart is empty');
+
+  const view = await getCartView(cart.id);
+  if (view.items.length === 0) throw createError(400, 'Your cart is empty');
+
+  if (view.unavailableItems.length > 0) {
+    throw AppError.conflict('Some items in your cart can no longer be bought', { items: view.unavailableItems });
+  }
+
+  // getCartView has already stored the new prices, so the customer can retry after reviewing them
+  const repricedItems = view.items.filter((item) => item.previousUnitPrice !== undefined);
+  if (repricedItems.length > 0) {
+    throw AppError.conflict('Prices in your cart have changed, please review them', {
+      items: repricedItems.map((item) => ({
+        id: item.id,
+        sku: item.sku,
+        previousUnitPrice: item.previousUnitPrice,
+        unitPrice: item.unitPrice,
+      })),
+    });
+  }
+
+  // Carts only hold items in one currency, see addCartItem
+  const currency = view.currency!;
+  const converter = input.displayCurrency ? await getDisplayConverter(input.displayCurrency) : null;
+  const exchangeRate = converter && converter.currency !== currency ? converter.rate(currency) : null;
+
+  const coupon = input.couponCode
+    ? await applyCoupon(input.couponCode, userId, toCouponLines(view.items), currency)
+    : null;
+  const lineDiscount = (item: CartLine) => coupon?.lineDiscounts.get(item.id) ?? 0;
+
+  const orderId = crypto.randomUUID();
+  const shopGroups = groupByShop(view.items);
+
+  const chosenMethods = new Map((input.shipping ?? []).map((choice) => [choice.shopId, choice.method]));
+  for (const shopId of chosenMethods.keys()) {
+    if (!shopGroups.has(shopId)) throw createError(400, 'Delivery options can only be chosen for shops in your cart');
+  }
+
+  const quotes = await quoteShipping(address.city, toShippingParcels(view.items));
+  const shipments = new Map<string, { option: ShippingOption | null; fee: number; waived: number }>();
+  for (const [shopId, items] of shopGroups) {
+    const options = quotes.get(shopId) ?? null;
+    const option = options ? selectShippingOption(options, items[0].shop.name, chosenMethods.get(shopId)) : null;
+    const fee = option?.fee ?? 0;
+    // Free shipping coupons waive the fee of the shops they apply to
+    const waived = coupon?.freeShipping && coupon.shopIds.includes(shopId) ? fee : 0;
+    shipments.set(shopId, { option, fee, waived });
+  }
+
+  const shippingFee = roundMoney([...shipments.values()].reduce((total, shipment) => total + shipment.fee, 0));
+  const waivedShipping = roundMoney([...shipments.values()].reduce((total, shipment) => total + shipment.waived, 0));
+  const discount = roundMoney((coupon?.discount ?? 0) + waivedShipping);
+
+  // Tax is worked out on what the customer pays for each line, after the coupon
+  const [taxRates, shops] = await Promise.all([
+    resolveTaxRates(view.items.map((item) => item.product.categoryId)),
+    prisma.shop.findMany({ where: { id: { in: [...shopGroups.keys()] } }, select: { id: true, pricesIncludeTax: true } }),
+  ]);
+  const taxInclusive = new Map(shops.map((shop) => [shop.id, shop.pricesIncludeTax]));
+  const lineTax = new Map(
+    view.items.map((item) => [
+      item.id,
+      calculateTax(
+        roundMoney(item.lineTotal - lineDiscount(item)),
+        taxRates.get(item.product.categoryId) ?? 0,
+        taxInclusive.get(item.shop.id) ?? true
+      ),
+    ])
+  );
+  const shopTax = (items: CartLine[]) => roundMoney(items.reduce((total, item) => total + lineTax.get(item.id)!.amount, 0));
+
+  const taxAmount = roundMoney([...shopGroups.values()].reduce((total, items) => total + shopTax(items), 0));
+  const addedTax = roundMoney(
+    [...shopGroups].reduce((total, [shopId, items]) => total + (taxInclusive.get(shopId) ? 0 : shopTax(items)), 0)
+  );
+
+  try {
+    const order = await reserveStockWith(
+      view.items.map((item) => ({ variantId: item.variantId, quantity: item.quantity })),
+      orderId,
+      async (tx) => {
+        await tx.order.create({
+          data: {
+            id: orderId,
+            userId,
+            status: 'PENDING',
+            paymentStatus: 'PENDING',
+            subtotal: view.subtotal,
+            discount,
+            shippingFee,
+            taxAmount,
+            total: roundMoney(view.subtotal + shippingFee - discount + addedTax),
+            currency,
+            displayCurrency: exchangeRate ? converter!.currency : null,
+            exchangeRate,
+            shippingAddress: { address: address.address, city: address.city, street: address.street },
+            couponCode: coupon?.coupon.code,
+            idempotencyKey,
+          },
+        });
+        if (coupon) await redeemCoupon(tx, { ...coupon, discount }, userId, orderId);
+
+        for (const [shopId, items] of shopGroups) {
+          const { option, fee, waived } = shipments.get(shopId)!;
+          const subtotal = items.reduce((total, item) => total + item.lineTotal, 0);
+          const shopDiscount = roundMoney(items.reduce((total, item) => total + lineDiscount(item), 0) + waived);
+          const inclusive = taxInclusive.get(shopId) ?? true;
+          const tax = shopTax(items);
+          await tx.shopOrder.create({
+            data: {
+              orderId,
+              shopId,
+              subtotal,
+              discount: shopDiscount,
+              shippingFee: fee,
+              taxAmount: tax,
+              taxInclusive: inclusive,
+              total: roundMoney(subtotal + fee - shopDiscount + (inclusive ? 0 : tax)),
+              shippingMethod: option?.method,
+              minDeliveryDays: option?.minDeliveryDays,
+              maxDeliveryDays: option?.maxDeliveryDays,
+              items: {
+                create: items.map((item) => ({
+                  orderId,
+                  productId: item.product.id,
+                  productVariantId: item.variantId,
+                  productName: item.product.name,
+                  variantSku: item.sku,
+                  variantAttributes: (item.attributes ?? undefined) as Prisma.InputJsonValue | undefined,
+                  quantity: item.quantity,
+                  price: item.unitPrice,
+                  discount: lineDiscount(item),
+                  lineTotal: roundMoney(item.lineTotal - lineDiscount(item)),
+                  taxRate: lineTax.get(item.id)!.rate,
+                  taxAmount: lineTax.get(item.id)!.amount,
+                })),
+              },
+            },
+          });
+        }
+
+        await tx.cartItem.deleteMany({ where: { cartId: cart.id, id: { in: view.items.map((item) => item.id) } } });
+
+        return tx.order.findUniqueOrThrow({ where: { id: orderId }, include: orderDetailInclude });
+      }
+    );
+
+    logger.info(`Order ${orderId} placed by user ${userId} across ${shopGroups.size} shop(s)`, { action: 'checkout' });
+    await notifySellersOfOrder(orderId, [...shopGroups.keys()]);
+
+    return { order, created: true };
+  } catch (error) {
+    // A concurrent retry with the same key won the race; hand back its order
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const order = await findOrderByIdempotencyKey(userId, idempotencyKey);
+      if (order) return { order, created: false };
+    }
+    throw error;
+  }
+}
+
+async function applyTransition(
+  tx: Tx,
+  shopOrder: { id: string; status: OrderStatus },
+  to: OrderStatus,
+  actor: OrderActor | typeof CARRIER_ACTOR,
+  note?: string,
+  data: Prisma.ShopOrderUpdateManyMutationInput = {}
+) {
+  assertTransition(shopOrder.status, to);
+
+  // Only applies if nobody changed the status since it was read
+  const updated = await tx.shopOrder.updateMany({
+    where: { id: shopOrder.id, status: shopOrder.status },
+    data: { ...data, status: to },
+  });
+  if (updated.count === 0) throw createError(409, 'The order was updated in the meantime, please reload it');
+
+  await tx.orderStatusTransition.create({
+    data: {
+      shopOrderId: shopOrder.id,
+      fromStatus: shopOrder.status,
+      toStatus: to,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      note,
+    },
+  });
+}
+
+async function syncOrderStatus(tx: Tx, orderId: string) {
+  const shopOrders = await tx.shopOrder.findMany({ where: { orderId }, select: { status: true } });
+  await tx.order.update({
+    where: { id: orderId },
+    data: { status: deriveOrderStatus(shopOrders.map((shopOrder) => shopOrder.status)) },
+  });
+}
+
+const STATUS_MESSAGES: Record<OrderStatus, string> = {
+  PENDING: 'is pending',
+  CONFIRMED: 'has been confirmed',
+  SHIPPED: 'has been shipped',
+  DELIVERED: 'has been delivered',
+  CANCELLED: 'has been cancelled',
+};
+
+async function notifyOrderStatus(userId: string, orderId: string, shopName: string, status: OrderStatus, detail?: string) {
+  try {
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: 'ORDER_STATUS',
+        message: `Your order ${orderId} from ${shopName} ${STATUS_MESSAGES[status]}${detail ? ` (${detail})` : ''}`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send order status notification', { error, action: 'order_status' });
+  }
+}
+
+async function findSellerShopOrder(userId: string, shopOrderId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const shopOrder = await prisma.shopOrder.findUnique({
+    where: { id: shopOrderId },
+    include: { items: true, shop: { select: { name: true, sellerId: true } }, order: { select: { userId: true } } },
+  });
+  if (!shopOrder) throw createError(404, 'Order not found');
+  if (shopOrder.shop.sellerId !== seller.id) throw createError(403, 'You can only manage orders of your own shop');
+
+  return shopOrder;
+}
+
+function getShopOrderDetail(shopOrderId: string) {
+  return prisma.shopOrder.findUniqueOrThrow({ where: { id: shopOrderId }, include: shopOrderDetailInclude });
+}
+
+/**
+ * Seller accepts their part of an order. The stock held at checkout becomes
+ * a sale in the same transaction as the status change.
+ */
+export async function confirmShopOrder(actor: OrderActor, shopOrderId: string) {
+  const shopOrder = await findSellerShopOrder(actor.userId, shopOrderId);
+  assertTransition(shopOrder.status, 'CONFIRMED');
+
+  const items = shopOrder.items
+    .filter((item) => item.productVariantId !== null)
+    .map((item) => ({ variantId: item.productVariantId as string, quantity: item.quantity }));
+
+  await commitStockWith(
+    items,
+    shopOrder.orderId,
+    async (tx) => {
+      await applyTransition(tx, shopOrder, 'CONFIRMED', actor);
+      await syncOrderStatus(tx, shopOrder.orderId);
+    },
+    actor.userId
+  );
+
+  logger.info(`Shop order ${shopOrder.id} confirmed by user ${actor.userId}`, { action: 'order_status' });
+  await notifyOrderStatus(shopOrder.order.userId, shopOrder.orderId, shopOrder.shop.name, 'CONFIRMED');
+
+  return getShopOrderDetail(shopOrder.id);
+}
+
+export async function shipShopOrder(
+  actor: OrderActor,
+  shopOrderId: string,
+  shipment: { carrier: string; trackingNumber: string }
+) {
+  const shopOrder = await findSellerShopOrder(actor.userId, shopOrderId);
+
+  await prisma.$transaction(async (tx) => {
+    await applyTransition(tx, shopOrder, 'SHIPPED', actor, undefined, shipment);
+    await syncOrderStatus(tx, shopOrder.orderId);
+    // The tracking timeline starts with the hand-over to the carrier
+    await tx.shipment.create({
+      data: {
+        shopOrderId: shopOrder.id,
+        ...shipment,
+        events: {
+          create: {
+            status: 'IN_TRANSIT',
+            description: `Handed over to ${shipment.carrier}`,
+            occurredAt: new Date(),
+            source: 'SELLER',
+            actorId: actor.userId,
+          },
+        },
+      },
+    });
+  });
+
+  logger.info(`Shop order ${shopOrder.id} shipped by user ${actor.userId}`, { action: 'order_status' });
+  await notifyOrderStatus(
+    shopOrder.order.userId,
+    shopOrder.orderId,
+    shopOrder.shop.name,
+    'SHIPPED',
+    `${shipment.carrier}, tracking number ${shipment.trackingNumber}`
+  );
+
+  return getShopOrderDetail(shopOrder.id);
+}
+
+export async function deliverShopOrder(actor: OrderActor, shopOrderId: string) {
+  const shopOrder = await findSellerShopOrder(actor.userId, shopOrderId);
+  await completeDelivery(shopOrder.id, actor);
+
+  return getShopOrderDetail(shopOrder.id);
+}
+
+/**
+ * Marks a shipped shop order delivered and, once the order is paid, books the
+ * sale for the seller. Used by the seller and by delivery events from the
+ * tracking timeline.
+ */
+export async function completeDelivery(shopOrderId: string, actor: OrderActor | typeof CARRIER_ACTOR, note?: string) {
+  const shopOrder = await prisma.shopOrder.findUniqueOrThrow({
+    where: { id: shopOrderId },
+    include: { shop: { select: { name: true, sellerId: true } }, order: { select: { userId: true, currency: true } } },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    await applyTransition(tx, shopOrder, 'DELIVERED', actor, note);
+    await syncOrderStatus(tx, shopOrder.orderId);
+    await recordPaidSales(tx, shopOrder.orderId);
+
+    // Deliveries confirmed by the seller outside the tracking timeline still show up on it
+    const shipment = await tx.shipment.findUnique({ where: { shopOrderId: shopOrder.id } });
+    if (shipment && !shipment.deliveredAt) {
+      const deliveredAt = new Date();
+      await tx.shipment.update({
+        where: { id: shipment.id },
+        data: {
+          status: 'DELIVERED',
+          deliveredAt,
+          events: {
+            create: { status: 'DELIVERED', description: note, occurredAt: deliveredAt, source: 'SELLER', actorId: actor.userId },
+          },
+        },
+      });
+    }
+  });
+
+  logger.info(`Shop order ${shopOrder.id} delivered`, { action: 'order_status', meta: { role: actor.role } });
+  await notifyOrderStatus(shopOrder.order.userId, shopOrder.orderId, shopOrder.shop.name, 'DELIVERED');
+}
+
+/**
+ * Customer cancels a whole order. Only possible while none of its shop
+ * orders has shipped; held stock is released, sold stock put back and what
+ * was paid is refunded.
+ */
+export async function cancelOrder(actor: OrderActor, orderId: string, reason?: string) {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, userId: actor.userId },
+    include: {
+      shopOrders: { include: { items: true, shop: { select: { name: true, seller: { select: { userId: true } } } } } },
+    },
+  });
+  if (!order) throw createError(404, 'Order not found');
+
+  const activeShopOrders = order.shopOrders.filter((shopOrder) => shopOrder.status !== 'CANCELLED');
+  if (activeShopOrders.length === 0) throw createError(409, 'This order cannot be cancelled');
+  if (activeShopOrders.some((shopOrder) => !canTransition(shopOrder.status, 'CANCELLED'))) {
+    throw createError(409, 'Orders can no longer be cancelled once shipped');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const shopOrder of activeShopOrders) {
+      await applyTransition(tx, shopOrder, 'CANCELLED', actor, reason);
+    }
+    await syncOrderStatus(tx, order.id);
+    await releaseCouponRedemption(tx, order.id);
+  });
+
+  try {
+    await releaseReservations(order.id);
+
+    // Confirmed shop orders already turned their stock into sales
+    const returns = activeShopOrders
+      .filter((shopOrder) => shopOrder.status === 'CONFIRMED')
+      .flatMap((shopOrder) => shopOrder.items)
+      .filter((item) => item.productVariantId !== null)
+      .map((item) => ({
+        variantId: item.productVariantId as string,
+        type: 'RETURN' as const,
+        quantity: item.quantity,
+        reason: 'Order cancelled',
+        reference: order.id,
+        actorId: actor.userId,
+      }));
+    if (returns.length > 0) await recordMovements(returns);
+  } catch (error) {
+    logger.error(`Failed to restock cancelled order ${order.id}`, { error, action: 'order_status' });
+  }
+  await settleCancelledOrderPayments(order.id);
+
+  logger.info(`Order ${order.id} cancelled by user ${actor.userId}`, { action: 'order_status' });
+  for (const shopOrder of activeShopOrders) {
+    await notifyOrderStatus(actor.userId, order.id, shopOrder.shop.name, 'CANCELLED');
+  }
+  try {
+    await prisma.notification.createMany({
+      data: activeShopOrders.map((shopOrder) => ({
+        userId: shopOrder.shop.seller.userId,
+        type: 'ORDER_CANCELLED',
+        message: `Order ${order.id} for ${shopOrder.shop.name} was cancelled by the customer`,
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to notify sellers of cancelled order', { error, action: 'order_status' });
+  }
+
+  return prisma.order.findUniqueOrThrow({ where: { id: order.id }, include: orderDetailInclude });
+}
+
+async function findSellerShopIds(userId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId }, include: { shops: { select: { id: true } } } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+  return { seller, shopIds: seller.shops.map((shop) => shop.id) };
+}
+
+export async function getSellerShopOrders(userId: string, filters: OrderFilters, page: number, limit: number) {
+  const { shopIds } = await findSellerShopIds(userId);
+
+  const where: Prisma.ShopOrderWhereInput = {
+    shopId: { in: shopIds },
+    status: filters.status,
+    order: filters.paymentStatus ? { paymentStatus: filters.paymentStatus } : undefined,
+    createdAt: filters.startDate || filters.endDate ? { gte: filters.startDate, lte: filters.endDate } : undefined,
+  };
+  const [shopOrders, total] = await Promise.all([
+    prisma.shopOrder.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        order: { select: { id: true, paymentStatus: true, user: { select: { firstName: true, lastName: true } } } },
+        shop: { select: { id: true, name: true } },
+        _count: { select: { items: true, returns: true } },
+      },
+    }),
+    prisma.shopOrder.count({ where }),
+  ]);
+  return { shopOrders, total };
+}
+
+export async function getSellerShopOrder(userId: string, shopOrderId: string) {
+  await findSellerShopOrder(userId, shopOrderId);
+  return getShopOrderDetail(shopOrderId);
+}
+
+const DEFAULT_SALES_RANGE: Record<SalesInterval, number> = { day: 30, week: 12 * 7, month: 365 };
+
+interface SalesPoint {
+  period: Date;
+  orders: number;
+  units: number;
+  revenue: number;
+}
+
+/**
+ * Revenue and units sold of the seller's shops per day, week (starting
+ * Monday) or month, in UTC, with one series per currency the orders were
+ * placed in. Cancelled orders are left out; revenue is the amount paid for
+ * the items, before returns, in minor units.
+ */
+export async function getSellerSalesStats(
+  userId: string,
+  interval: SalesInterval,
+  range: { startDate?: Date; endDate?: Date } = {}
+) {
+  const { seller } = await findSellerShopIds(userId);
+  const endDate = range.endDate ?? new Date();
+  const startDate = range.startDate ?? new Date(endDate.getTime() - DEFAULT_SALES_RANGE[interval] * 24 * 60 * 60 * 1000);
+  if (startDate > endDate) throw createError(400, 'Start date must be before end date');
+
+  const rows = await prisma.$queryRaw<{ currency: string; period: Date; orders: number; units: number; revenue: bigint }[]>`
+    SELECT o."currency" AS "currency",
+           date_trunc(${interval}, so."createdAt") AS "period",
+           COUNT(DISTINCT so."id")::int AS "orders",
+           COALESCE(SUM(oi."quantity"), 0)::int AS "units",
+           COALESCE(SUM(oi."lineTotal"), 0)::bigint AS "revenue"
+    FROM "ShopOrder" so
+    JOIN "Shop" s ON s."id" = so."shopId"
+    JOIN "Order" o ON o."id" = so."orderId"
+    JOIN "OrderItem" oi ON oi."shopOrderId" = so."id"
+    WHERE s."sellerId" = ${seller.id}
+      AND so."status" <> 'CANCELLED'
+      AND so."createdAt" >= ${startDate}
+      AND so."createdAt" <= ${endDate}
+    GROUP BY 1, 2
+    ORDER BY 1, 2`;
+
+  // Amounts in different currencies are never added up
+  const series = new Map<string, SalesPoint[]>();
+  for (const { currency, revenue, ...point } of rows) {
+    series.set(currency, [...(series.get(currency) ?? []), { ...point, revenue: Number(revenue) }]);
+  }
+  const currencies = [...series].map(([currency, points]) => ({
+    currency,
+    totals: points.reduce(
+      (sum, point) => ({ orders: sum.orders + point.orders, units: sum.units + point.units, revenue: sum.revenue + point.revenue }),
+      { orders: 0, units: 0, revenue: 0 }
+    ),
+    series: points,
+  }));
+  return { interval, startDate, endDate, currencies };
+}
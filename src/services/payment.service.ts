@@ -0,0 +1,651 @@
+import { CronJob } from 'cron';
+import createError from 'http-errors';
+import type { Payment, PaymentStatus, Prisma, Refund, RefundStatus } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { paymentConfig } from '../config/payment.config.js';
+import { logger } from '../utils/logger.js';
+import { formatMoney, toMajorUnits, toMinorUnits } from '../utils/currency.utils.js';
+import { getEnabledPaymentProviders, getPaymentProvider } from './payments/index.js';
+import type { PaymentResult, RefundResult, WebhookRequest } from './payments/index.js';
+import { recordPaidSales, recordRefundEntry } from './payout.service.js';
+
+type Tx = Prisma.TransactionClient;
+
+export interface PaymentActor {
+  userId: string;
+  role: string;
+}
+
+export interface RefundFilters {
+  status?: RefundStatus;
+  provider?: string;
+}
+
+// An order is paid once any of its payments completed, whatever happened to earlier attempts
+async function syncOrderPaymentStatus(tx: Tx, orderId: string) {
+  const payments = await tx.payment.findMany({ where: { orderId }, select: { status: true } });
+  const statuses = payments.map((payment) => payment.status);
+
+  let paymentStatus: PaymentStatus = 'FAILED';
+  if (statuses.includes('COMPLETED')) paymentStatus = 'COMPLETED';
+  else if (statuses.includes('PENDING')) paymentStatus = 'PENDING';
+  else if (statuses.length > 0 && statuses.every((status) => status === 'REFUNDED')) paymentStatus = 'REFUNDED';
+
+  await tx.order.update({ where: { id: orderId }, data: { paymentStatus } });
+}
+
+async function lockOrder(tx: Tx, orderId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+}
+
+/**
+ * Clears the way for a new payment of an order. Attempts that were never
+ * handed to a provider, and cash on delivery the customer is switching away
+ * from, are called off; attempts open at an online provider are re-checked
+ * and block the new payment while the customer can still complete them.
+ */
+async function closeOpenPayments(orderId: string, reusable: (payment: Payment) => boolean) {
+  const open = await prisma.payment.findMany({ where: { orderId, status: 'PENDING' }, orderBy: { createdAt: 'desc' } });
+
+  for (const payment of open) {
+    if (reusable(payment)) return payment;
+
+    const provider = getPaymentProvider(payment.provider);
+    // No reference past the provider timeout means the request got no answer; a late completion still applies
+    const abandoned = !payment.reference && payment.createdAt.getTime() < Date.now() - paymentConfig.timeoutMs;
+    if (provider.manualConfirmation || abandoned) {
+      await prisma.$transaction(async (tx) => {
+        await tx.payment.updateMany({ where: { id: payment.id, status: 'PENDING' }, data: { status: 'FAILED' } });
+        await syncOrderPaymentStatus(tx, orderId);
+      });
+      logger.info(`Payment ${payment.id} with ${payment.provider} called off for a new payment`, { action: 'payment' });
+      continue;
+    }
+
+    const refreshed = payment.reference
+      ? await applyPaymentResult(
+          payment,
+          await provider.confirm({
+            paymentId: payment.id,
+            reference: payment.reference,
+            amount: toMajorUnits(payment.amount, payment.currency),
+            currency: payment.currency,
+          })
+        )
+      : payment;
+    if (refreshed.status === 'COMPLETED') throw createError(409, 'This order is already paid');
+    if (refreshed.status === 'PENDING') {
+      throw createError(409, `A ${provider.label} payment for this order is still in progress, complete it or wait for it to expire`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Starts a payment of the full order total, in the order's currency, with the
+ * chosen provider. An order has at most one payment in progress: an
+ * unfinished payment with the same provider is handed back, one with another
+ * provider has to finish or expire first. Providers get amounts in major units.
+ */
+export async function initiatePayment(userId: string, orderId: string, providerName: string, phone?: string) {
+  const provider = getPaymentProvider(providerName);
+  if (provider.requiresPhone && !phone) throw createError(400, `A phone number is required for ${provider.label}`);
+
+  const order = await prisma.order.findFirst({ where: { id: orderId, userId } });
+  if (!order) throw createError(404, 'Order not found');
+  if (order.status === 'CANCELLED') throw createError(409, 'Cancelled orders cannot be paid');
+  if (order.paymentStatus === 'COMPLETED') throw createError(409, 'This order is already paid');
+
+  // A new phone number means the customer wants a fresh prompt, once the old one is settled
+  const pending = await closeOpenPayments(
+    orderId,
+    (payment) =>
+      payment.provider === provider.name &&
+      payment.reference !== null &&
+      (!phone || (payment.metadata as { phone?: string } | null)?.phone === phone)
+  );
+  if (pending) return { payment: pending, instructions: undefined };
+
+  // The order lock keeps a concurrent request from opening a second payment
+  const payment = await prisma.$transaction(async (tx) => {
+    await lockOrder(tx, orderId);
+    const open = await tx.payment.findFirst({ where: { orderId, status: { in: ['PENDING', 'COMPLETED'] } } });
+    if (open?.status === 'COMPLETED') throw createError(409, 'This order is already paid');
+    if (open) throw createError(409, 'A payment for this order is already in progress');
+
+    return tx.payment.create({
+      data: {
+        orderId,
+        method: provider.method,
+        provider: provider.name,
+        amount: order.total,
+        currency: order.currency,
+        status: 'PENDING',
+        reference: provider.assignReference?.() ?? null,
+        metadata: phone ? { phone } : undefined,
+      },
+    });
+  });
+
+  try {
+    const result = await provider.initiate({
+      paymentId: payment.id,
+      orderId,
+      amount: toMajorUnits(payment.amount, payment.currency),
+      currency: payment.currency,
+      description: `e-Curuza order ${order.id}`,
+      phone,
+      reference: payment.reference ?? undefined,
+    });
+
+    const updated = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { reference: result.reference ?? payment.reference, checkoutUrl: result.checkoutUrl ?? null },
+    });
+    await prisma.order.update({ where: { id: orderId }, data: { paymentStatus: 'PENDING' } });
+
+    logger.info(`Payment ${payment.id} initiated with ${provider.name} for order ${orderId}`, {
+      action: 'payment',
+      userId,
+      meta: { reference: result.reference, amount: payment.amount },
+    });
+    return { payment: updated, instructions: result.instructions };
+  } catch (error) {
+    // The reference is kept: a provider that took the request anyway can still report the payment
+    await prisma.payment.updateMany({ where: { id: payment.id, status: 'PENDING' }, data: { status: 'FAILED' } });
+    logger.error(`Payment ${payment.id} could not be initiated with ${provider.name}`, { action: 'payment', userId, error });
+    throw error;
+  }
+}
+
+async function notifyPaymentResult(payment: Payment, status: PaymentStatus) {
+  try {
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: payment.orderId }, select: { userId: true } });
+    await prisma.notification.create({
+      data: {
+        userId: order.userId,
+        type: 'PAYMENT',
+        message: status === 'COMPLETED'
+          ? `Your payment of ${formatMoney(payment.amount, payment.currency)} for order ${payment.orderId} was received`
+          : `Your payment for order ${payment.orderId} failed, please try again`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send payment notification', { error, action: 'payment' });
+  }
+}
+
+/**
+ * Applies a provider result to a payment. Only the first final status is
+ * applied; repeated or late results are ignored, so webhooks can be
+ * redelivered and statuses re-checked safely. The one exception is a
+ * completion of an attempt given up as failed: the money was taken, so it is
+ * recorded and, when the order no longer needs it, refunded.
+ */
+async function applyPaymentResult(payment: Payment, result: PaymentResult) {
+  let status = result.status;
+  if (status === 'PENDING' || status === 'REFUNDED') {
+    logger.info(`Payment ${payment.id} still pending at ${payment.provider}`, { action: 'payment' });
+    return payment;
+  }
+
+  const amountMatches =
+    (result.amount === undefined || toMinorUnits(result.amount, payment.currency) === payment.amount) &&
+    (result.currency === undefined || result.currency === payment.currency);
+  if (status === 'COMPLETED' && !amountMatches) {
+    logger.error(`Payment ${payment.id} amount mismatch: expected ${formatMoney(payment.amount, payment.currency)}`, {
+      action: 'payment',
+      meta: { amount: result.amount, currency: result.currency },
+    });
+    status = 'FAILED';
+  }
+
+  const applied = await prisma.$transaction(async (tx) => {
+    await lockOrder(tx, payment.orderId);
+    const claimed = await tx.payment.updateMany({
+      where: { id: payment.id, status: status === 'COMPLETED' ? { in: ['PENDING', 'FAILED'] } : 'PENDING' },
+      data: {
+        status,
+        reference: result.reference ?? payment.reference,
+        paidAt: status === 'COMPLETED' ? new Date() : null,
+        metadata: { ...(payment.metadata as object | null), provider: result.raw ?? null } as Prisma.InputJsonValue,
+      },
+    });
+    if (claimed.count === 0) return null;
+
+    await syncOrderPaymentStatus(tx, payment.orderId);
+    if (status !== 'COMPLETED') return { unneeded: null };
+    // Shop orders delivered before the payment came in, e.g. cash on delivery, are booked now
+    await recordPaidSales(tx, payment.orderId);
+
+    // Completions are serialized by the order lock, so only the later of two payments is sent back
+    const order = await tx.order.findUniqueOrThrow({ where: { id: payment.orderId }, select: { status: true } });
+    const paidBefore = await tx.payment.count({
+      where: { orderId: payment.orderId, id: { not: payment.id }, status: 'COMPLETED' },
+    });
+    if (order.status === 'CANCELLED') return { unneeded: `Order ${payment.orderId} cancelled` };
+    if (paidBefore > 0) return { unneeded: `Order ${payment.orderId} already paid` };
+    return { unneeded: null };
+  });
+
+  if (!applied) {
+    logger.info(`Payment ${payment.id} result ignored, already settled`, { action: 'payment' });
+    return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  }
+
+  logger.info(`Payment ${payment.id} for order ${payment.orderId} ${status === 'COMPLETED' ? 'completed' : 'failed'}`, {
+    action: 'payment',
+    meta: { provider: payment.provider, reference: result.reference ?? payment.reference },
+  });
+  await notifyPaymentResult(payment, status);
+  if (applied.unneeded) await refundUnneededPayment(payment, applied.unneeded);
+
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+}
+
+/**
+ * Sends back a payment the order did not need: one completed after the order
+ * was cancelled or paid by another payment. A refund the provider rejects is
+ * left FAILED for staff to retry from the refund list.
+ */
+async function refundUnneededPayment(payment: Payment, reason: string) {
+  logger.warn(`Payment ${payment.id} completed but not needed, refunding: ${reason}`, { action: 'payment' });
+  try {
+    const refund = await refundPayment(payment.id, payment.amount, reason);
+    await notifyRefundResult(refund, payment.orderId);
+  } catch (error) {
+    logger.error(`Failed to refund unneeded payment ${payment.id} of order ${payment.orderId}`, { error, action: 'payment' });
+  }
+}
+
+export async function handlePaymentWebhook(providerSlug: string, request: WebhookRequest) {
+  const provider = getPaymentProvider(providerSlug);
+  const notification = provider.parseWebhook(request);
+
+  if (!notification.paymentId && !notification.reference) throw createError(400, 'Notification does not identify a payment');
+
+  const payment = await prisma.payment.findFirst({
+    where: notification.paymentId
+      ? { provider: provider.name, id: notification.paymentId }
+      : { provider: provider.name, reference: notification.reference as string },
+  });
+  if (!payment) throw createError(404, 'Payment not found');
+  if (notification.reference && payment.reference && payment.reference !== notification.reference) {
+    throw createError(400, 'Transaction reference does not match the payment');
+  }
+
+  const result = notification.result ?? (await provider.confirm({
+    paymentId: payment.id,
+    reference: payment.reference,
+    amount: toMajorUnits(payment.amount, payment.currency),
+    currency: payment.currency,
+  }));
+  return applyPaymentResult(payment, result);
+}
+
+/**
+ * Re-checks a payment with its provider. For providers settled by hand, such
+ * as cash on delivery, this is how staff record the money as received.
+ */
+export async function confirmPayment(actor: PaymentActor, paymentId: string) {
+  const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
+  if (!payment) throw createError(404, 'Payment not found');
+
+  const provider = getPaymentProvider(payment.provider);
+  const order = await prisma.order.findUniqueOrThrow({ where: { id: payment.orderId }, select: { userId: true } });
+  if (provider.manualConfirmation) {
+    if (actor.role !== 'ADMIN') throw createError(403, `Only administrators can confirm ${provider.label} payments`);
+  } else if (order.userId !== actor.userId && actor.role !== 'ADMIN') {
+    throw createError(404, 'Payment not found');
+  }
+
+  const result = await provider.confirm({
+    paymentId: payment.id,
+    reference: payment.reference,
+    amount: toMajorUnits(payment.amount, payment.currency),
+    currency: payment.currency,
+  });
+  return applyPaymentResult(payment, result);
+}
+
+// Serializes changes to the refunded amount of a payment
+async function lockPayment(tx: Tx, paymentId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Payment" WHERE "id" = ${paymentId} FOR UPDATE`;
+}
+
+// Sets part of a payment aside for a refund; a failed refund gives it back
+async function reserveRefundAmount(tx: Tx, paymentId: string, amount: number) {
+  await lockPayment(tx, paymentId);
+  const payment = await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  if (payment.status !== 'COMPLETED') throw createError(409, 'Only completed payments can be refunded');
+
+  const refundable = payment.amount - payment.refundedAmount;
+  if (amount <= 0 || amount > refundable) {
+    throw createError(400, `Refund amount must be between 0 and the ${formatMoney(refundable, payment.currency)} left to refund`);
+  }
+  await tx.payment.update({ where: { id: paymentId }, data: { refundedAmount: { increment: amount } } });
+}
+
+export const REFUND_MESSAGES: Record<RefundStatus, string> = {
+  COMPLETED: 'has been sent back to you',
+  PENDING: 'is on its way back to you',
+  FAILED: 'could not be sent yet, it will be retried',
+};
+
+async function notifyRefundResult(refund: Refund, orderId: string) {
+  try {
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId }, select: { userId: true } });
+    await prisma.notification.create({
+      data: {
+        userId: order.userId,
+        type: 'PAYMENT',
+        message: `Your refund of ${formatMoney(refund.amount, refund.currency)} for order ${orderId} ${REFUND_MESSAGES[refund.status]}`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send refund notification', { error, action: 'payment' });
+  }
+}
+
+/**
+ * Applies a provider result to a refund. Only the first final status is
+ * applied. A completed refund of a return closes the return and is booked
+ * against the seller; a failed one releases its amount so it can be retried.
+ * The customer is told about results that arrive after the refund was issued.
+ */
+async function applyRefundResult(refund: Refund, result: RefundResult, options: { notify?: boolean } = {}) {
+  const reference = result.reference ?? refund.reference;
+  if (result.status === 'PENDING') {
+    const updated = await prisma.refund.update({ where: { id: refund.id }, data: { reference } });
+    if (refund.returnRequestId) {
+      await prisma.returnRequest.update({
+        where: { id: refund.returnRequestId },
+        data: { refundStatus: 'PENDING', refundReference: reference },
+      });
+    }
+    return updated;
+  }
+
+  const { status } = result;
+  const orderId = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: { id: refund.id, status: 'PENDING' },
+      data: { status, reference, completedAt: status === 'COMPLETED' ? new Date() : null },
+    });
+    if (claimed.count === 0) return null;
+
+    await lockPayment(tx, refund.paymentId);
+    const payment =
+      status === 'FAILED'
+        ? await tx.payment.update({ where: { id: refund.paymentId }, data: { refundedAmount: { decrement: refund.amount } } })
+        : await tx.payment.findUniqueOrThrow({ where: { id: refund.paymentId } });
+    const stillPending = await tx.refund.count({ where: { paymentId: payment.id, status: 'PENDING' } });
+    if (status === 'COMPLETED' && payment.refundedAmount >= payment.amount && stillPending === 0) {
+      await tx.payment.update({ where: { id: payment.id }, data: { status: 'REFUNDED' } });
+      await syncOrderPaymentStatus(tx, payment.orderId);
+    }
+
+    if (refund.returnRequestId) {
+      const returnRequest = await tx.returnRequest.update({
+        where: { id: refund.returnRequestId },
+        data: { status: status === 'COMPLETED' ? 'REFUNDED' : undefined, refundStatus: status, refundReference: reference },
+        include: { shopOrder: { select: { shop: { select: { sellerId: true } } } } },
+      });
+      if (status === 'COMPLETED') {
+        await recordRefundEntry(tx, {
+          returnRequestId: returnRequest.id,
+          shopOrderId: returnRequest.shopOrderId,
+          sellerId: returnRequest.shopOrder.shop.sellerId,
+          amount: refund.amount,
+        });
+      }
+    }
+    return payment.orderId;
+  });
+
+  const updated = await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  if (!orderId) {
+    logger.info(`Refund ${refund.id} result ignored, already settled`, { action: 'payment' });
+    return updated;
+  }
+
+  logger.info(`Refund ${refund.id} of ${formatMoney(refund.amount, refund.currency)} ${status.toLowerCase()}`, {
+    action: 'payment',
+    meta: { paymentId: refund.paymentId, reference, reason: refund.reason },
+  });
+  if (options.notify) await notifyRefundResult(updated, orderId);
+  return updated;
+}
+
+// A provider that is unavailable or rejects the refund outright leaves it FAILED, to be retried
+async function sendRefund(refund: Refund, payment: Payment) {
+  let result: RefundResult;
+  try {
+    result = await getPaymentProvider(payment.provider).refund({
+      paymentId: payment.id,
+      reference: payment.reference,
+      amount: toMajorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+      reason: refund.reason ?? undefined,
+    });
+  } catch (error) {
+    logger.error(`Refund ${refund.id} of payment ${payment.id} rejected by ${payment.provider}`, { error, action: 'payment' });
+    result = { status: 'FAILED' };
+  }
+  return applyRefundResult(refund, result);
+}
+
+/**
+ * Sends money back through the provider that took it, in full or in part.
+ * Refunds add up against the amount paid from the moment they are issued;
+ * once all of it went back, the payment is marked REFUNDED. Providers that
+ * settle refunds later are checked by the refund reconciliation job.
+ */
+export async function refundPayment(
+  paymentId: string,
+  amount: number,
+  reason?: string,
+  options: { returnRequestId?: string } = {}
+) {
+  const payment = await prisma.payment.findUnique({ where: { id: paymentId } });
+  if (!payment) throw createError(404, 'Payment not found');
+
+  const refund = await prisma.$transaction(async (tx) => {
+    await reserveRefundAmount(tx, payment.id, amount);
+    return tx.refund.create({
+      data: { paymentId: payment.id, returnRequestId: options.returnRequestId, amount, currency: payment.currency, reason },
+    });
+  });
+
+  return sendRefund(refund, payment);
+}
+
+// Issues a failed refund again, with the same amount and reason
+export async function retryRefund(refundId: string) {
+  const refund = await prisma.refund.findUnique({ where: { id: refundId }, include: { payment: true } });
+  if (!refund) throw createError(404, 'Refund not found');
+  if (refund.status !== 'FAILED') throw createError(409, 'Only failed refunds can be retried');
+  // Refuses the retry while the provider is unavailable
+  getPaymentProvider(refund.payment.provider);
+
+  const retried = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: { id: refund.id, status: 'FAILED' },
+      data: { status: 'PENDING', reference: null, completedAt: null, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) throw createError(409, 'The refund is already being retried');
+
+    await reserveRefundAmount(tx, refund.paymentId, refund.amount);
+    if (refund.returnRequestId) {
+      await tx.returnRequest.update({ where: { id: refund.returnRequestId }, data: { refundStatus: 'PENDING', refundReference: null } });
+    }
+    return tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  });
+
+  logger.info(`Refund ${refund.id} retried, attempt ${retried.attempts}`, { action: 'payment' });
+  return sendRefund(retried, refund.payment);
+}
+
+function toRefundReference(refund: Refund, payment: Payment) {
+  return {
+    refundId: refund.id,
+    paymentId: payment.id,
+    reference: refund.reference,
+    paymentReference: payment.reference,
+    amount: toMajorUnits(refund.amount, refund.currency),
+    currency: refund.currency,
+  };
+}
+
+// Fetches the status of a pending refund from its provider, for staff
+export async function checkRefund(refundId: string) {
+  const refund = await prisma.refund.findUnique({ where: { id: refundId }, include: { payment: true } });
+  if (!refund) throw createError(404, 'Refund not found');
+  if (refund.status !== 'PENDING') throw createError(409, 'This refund is already settled');
+
+  const provider = getPaymentProvider(refund.payment.provider);
+  if (!provider.checkRefund) {
+    throw createError(409, `${provider.label} refunds cannot be checked automatically, resolve this refund by hand`);
+  }
+  const result = await provider.checkRefund(toRefundReference(refund, refund.payment));
+  return applyRefundResult(refund, result, { notify: true });
+}
+
+/**
+ * Records the outcome of a pending refund that staff confirmed with the
+ * provider, for providers that cannot be asked automatically.
+ */
+export async function resolveRefund(adminId: string, refundId: string, status: 'COMPLETED' | 'FAILED', reference?: string) {
+  const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+  if (!refund) throw createError(404, 'Refund not found');
+  if (refund.status !== 'PENDING') throw createError(409, 'This refund is already settled');
+
+  logger.info(`Refund ${refund.id} resolved as ${status.toLowerCase()} by ${adminId}`, { action: 'payment' });
+  return applyRefundResult(refund, { status, reference }, { notify: true });
+}
+
+export async function getRefunds(filters: RefundFilters, page: number, limit: number) {
+  const where: Prisma.RefundWhereInput = {
+    status: filters.status,
+    payment: filters.provider ? { provider: filters.provider } : undefined,
+  };
+  const [refunds, total] = await Promise.all([
+    prisma.refund.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: { payment: { select: { id: true, orderId: true, provider: true, reference: true, amount: true } } },
+    }),
+    prisma.refund.count({ where }),
+  ]);
+  return { refunds, total };
+}
+
+// Refunds are left alone for a while after they were issued or last checked
+const REFUND_RECHECK_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Asks providers about the refunds they accepted but had not settled.
+ * Pending refunds at providers without a status call are counted and left
+ * for staff to resolve.
+ */
+export async function reconcilePendingRefunds(now = new Date()) {
+  const checkable = getEnabledPaymentProviders().filter((provider) => provider.checkRefund);
+  const stale = { status: 'PENDING' as const, updatedAt: { lt: new Date(now.getTime() - REFUND_RECHECK_AFTER_MS) } };
+
+  const [refunds, unchecked] = await Promise.all([
+    prisma.refund.findMany({
+      where: { ...stale, payment: { provider: { in: checkable.map((provider) => provider.name) } } },
+      orderBy: { updatedAt: 'asc' },
+      take: 100,
+      include: { payment: true },
+    }),
+    prisma.refund.count({ where: { ...stale, payment: { provider: { notIn: checkable.map((provider) => provider.name) } } } }),
+  ]);
+
+  let settled = 0;
+  for (const refund of refunds) {
+    try {
+      const provider = getPaymentProvider(refund.payment.provider);
+      if (!provider.checkRefund) continue;
+      const result = await provider.checkRefund(toRefundReference(refund, refund.payment));
+      const updated = await applyRefundResult(refund, result, { notify: true });
+      if (updated.status !== 'PENDING') settled++;
+    } catch (error) {
+      logger.error(`Failed to check refund ${refund.id}`, { error, action: 'payment' });
+    }
+  }
+
+  if (settled > 0 || unchecked > 0) {
+    logger.info(`Settled ${settled} pending refund(s), ${unchecked} need to be resolved by staff`, { action: 'payment' });
+  }
+  return { checked: refunds.length, settled, unchecked };
+}
+
+let refundReconciliationJob: CronJob<string> | null = null;
+export function initializeRefundReconciliationJob() {
+  if (refundReconciliationJob) return refundReconciliationJob;
+
+  refundReconciliationJob = new CronJob(
+    paymentConfig.refundReconcileSchedule,
+    async () => {
+      try {
+        await reconcilePendingRefunds();
+      } catch (error) {
+        logger.error('Failed to reconcile pending refunds', { error, action: 'payment' });
+      }
+    },
+    undefined,
+    false,
+    'UTC'
+  );
+  refundReconciliationJob.start();
+  logger.debug('Refund reconciliation cron job initialized and started');
+
+  return refundReconciliationJob;
+}
+
+/**
+ * Settles the payments of a cancelled order. Whatever was paid is refunded in
+ * full. Unfinished payments are re-checked with their provider first; cash on
+ * delivery and payments the provider never took are then called off, while a
+ * prompt or checkout still open at the provider cannot be withdrawn and is
+ * refunded as soon as it completes.
+ */
+export async function settleCancelledOrderPayments(orderId: string) {
+  const payments = await prisma.payment.findMany({ where: { orderId, status: { in: ['PENDING', 'COMPLETED'] } } });
+
+  for (const payment of payments) {
+    try {
+      if (payment.status === 'PENDING') {
+        const provider = getPaymentProvider(payment.provider);
+        if (!provider.manualConfirmation && payment.reference) {
+          // A payment that turns out completed is refunded by applyPaymentResult
+          const result = await provider.confirm({
+            paymentId: payment.id,
+            reference: payment.reference,
+            amount: toMajorUnits(payment.amount, payment.currency),
+            currency: payment.currency,
+          });
+          await applyPaymentResult(payment, result);
+          continue;
+        }
+
+        await prisma.$transaction(async (tx) => {
+          await tx.payment.updateMany({ where: { id: payment.id, status: 'PENDING' }, data: { status: 'FAILED' } });
+          await syncOrderPaymentStatus(tx, orderId);
+        });
+        logger.info(`Payment ${payment.id} of cancelled order ${orderId} voided`, { action: 'payment' });
+        continue;
+      }
+
+      const refundable = payment.amount - payment.refundedAmount;
+      if (refundable <= 0) continue;
+      const refund = await refundPayment(payment.id, refundable, `Order ${orderId} cancelled`);
+      await notifyRefundResult(refund, orderId);
+    } catch (error) {
+      logger.error(`Failed to settle payment ${payment.id} of cancelled order ${orderId}`, { error, action: 'payment' });
+    }
+  }
+}
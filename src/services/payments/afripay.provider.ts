@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import createError from 'http-errors';
+import type { PaymentStatus } from '@prisma/client';
+import { afripayConfig, paymentConfig } from '../../config/payment.config.js';
+import { AppError } from '../../utils/AppError.js';
+import type { PaymentProvider, PaymentResult } from './payment.provider.js';
+
+export const AFRIPAY_SIGNATURE_HEADER = 'x-afripay-signature';
+
+export interface AfripayWebhookPayload {
+  transaction_ref: string;
+  client_token: string;
+  status: string;
+  amount: number | string;
+  currency: string;
+  payment_method?: string;
+}
+
+function mapAfripayStatus(status: string): Exclude<PaymentStatus, 'REFUNDED'> {
+  switch (status.toLowerCase()) {
+    case 'success':
+    case 'successful':
+    case 'completed':
+      return 'COMPLETED';
+    case 'failed':
+    case 'cancelled':
+    case 'declined':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+}
+
+function toResult(data: AfripayWebhookPayload): PaymentResult {
+  return {
+    status: mapAfripayStatus(data.status),
+    reference: data.transaction_ref,
+    amount: Number(data.amount),
+    currency: data.currency,
+    raw: data,
+  };
+}
+
+async function callAfripay<T>(request: () => Promise<{ data: T }>, failure: string): Promise<T> {
+  try {
+    const response = await request();
+    return response.data;
+  } catch (error) {
+    throw AppError.externalServiceError('Afripay', failure, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Hex HMAC-SHA256 of the raw request body, keyed with the webhook secret
+export function signAfripayPayload(rawBody: Buffer | string, secret = afripayConfig.webhookSecret): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+export function verifyAfripaySignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+  if (!rawBody || !signature || !afripayConfig.webhookSecret) return false;
+
+  const expected = Buffer.from(signAfripayPayload(rawBody), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+const credentials = () => ({ app_id: afripayConfig.appId, app_secret: afripayConfig.appSecret });
+
+export const afripayProvider: PaymentProvider = {
+  name: 'AFRIPAY',
+  slug: 'afripay',
+  label: 'Afripay (card and mobile money)',
+  method: 'CHECKOUT',
+  requiresPhone: false,
+  manualConfirmation: false,
+
+  isEnabled: () => Boolean(afripayConfig.appId && afripayConfig.appSecret),
+
+  async initiate(input) {
+    const data = await callAfripay<any>(
+      () =>
+        axios.post(
+          `${afripayConfig.baseUrl}/api/checkout`,
+          {
+            ...credentials(),
+            amount: input.amount,
+            currency: input.currency,
+            client_token: input.paymentId,
+            comment: input.description,
+            callback_url: afripayConfig.callbackUrl,
+            return_url: paymentConfig.returnUrl,
+          },
+          { timeout: paymentConfig.timeoutMs }
+        ),
+      'Could not start the checkout'
+    );
+
+    if (!data?.transaction_ref || !data?.checkout_url) {
+      throw AppError.externalServiceError('Afripay', 'Unexpected checkout response');
+    }
+    return { status: 'PENDING', reference: String(data.transaction_ref), checkoutUrl: String(data.checkout_url) };
+  },
+
+  async confirm(payment) {
+    if (!payment.reference) return { status: 'PENDING' };
+
+    const data = await callAfripay<AfripayWebhookPayload>(
+      () =>
+        axios.get(`${afripayConfig.baseUrl}/api/transactions/${encodeURIComponent(payment.reference as string)}`, {
+          params: credentials(),
+          timeout: paymentConfig.timeoutMs,
+        }),
+      'Could not fetch the transaction status'
+    );
+    return toResult(data);
+  },
+
+  async refund(input) {
+    if (!input.reference) throw createError(400, 'Payment has no Afripay transaction to refund');
+
+    const data = await callAfripay<any>(
+      () =>
+        axios.post(
+          `${afripayConfig.baseUrl}/api/refund`,
+          { ...credentials(), transaction_ref: input.reference, amount: input.amount, reason: input.reason },
+          { timeout: paymentConfig.timeoutMs }
+        ),
+      'Could not refund the transaction'
+    );
+    return { status: mapAfripayStatus(String(data?.status ?? 'pending')), reference: data?.refund_ref };
+  },
+
+  parseWebhook(request) {
+    const signature = request.headers[AFRIPAY_SIGNATURE_HEADER];
+    if (!verifyAfripaySignature(request.rawBody, typeof signature === 'string' ? signature : undefined)) {
+      throw createError(401, 'Invalid signature');
+    }
+
+    const payload = request.body as AfripayWebhookPayload;
+    if (!payload?.transaction_ref || !payload?.client_token || !payload?.status) {
+      throw createError(400, 'Invalid Afripay notification');
+    }
+    return { paymentId: payload.client_token, reference: payload.transaction_ref, result: toResult(payload) };
+  },
+};
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import createError from 'http-errors';
+import { airtelMoneyConfig, paymentConfig } from '../../config/payment.config.js';
+import { AppError } from '../../utils/AppError.js';
+import type { PaymentProvider, PaymentResult } from './payment.provider.js';
+
+let cachedToken: { accessToken: string; expiresAt: number } | null = null;
+
+function airtelError(message: string, error: unknown) {
+  return AppError.externalServiceError('Airtel Money', message, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) return cachedToken.accessToken;
+
+  try {
+    const { data } = await axios.post(
+      `${airtelMoneyConfig.baseUrl}/auth/oauth2/token`,
+      {
+        client_id: airtelMoneyConfig.clientId,
+        client_secret: airtelMoneyConfig.clientSecret,
+        grant_type: 'client_credentials',
+      },
+      { timeout: paymentConfig.timeoutMs }
+    );
+    // Renew a minute early so a token never expires mid-request
+    cachedToken = { accessToken: data.access_token, expiresAt: Date.now() + (Number(data.expires_in) - 60) * 1000 };
+    return data.access_token;
+  } catch (error) {
+    throw airtelError('Could not authenticate', error);
+  }
+}
+
+async function airtelHeaders(currency: string) {
+  return {
+    Authorization: `Bearer ${await getAccessToken()}`,
+    'X-Country': airtelMoneyConfig.country,
+    'X-Currency': currency,
+  };
+}
+
+// Airtel wants the subscriber number without the country code
+function toSubscriberMsisdn(phone: string, countryCode = '250'): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.startsWith(countryCode) ? digits.slice(countryCode.length) : digits.replace(/^0/, '');
+}
+
+// TS: success, TF: failed, TIP/TA: in progress or ambiguous
+function mapAirtelStatus(code: string | undefined): Exclude<PaymentResult['status'], 'REFUNDED'> {
+  if (code === 'TS') return 'COMPLETED';
+  if (code === 'TF') return 'FAILED';
+  return 'PENDING';
+}
+
+export const airtelMoneyProvider: PaymentProvider = {
+  name: 'AIRTEL_MONEY',
+  slug: 'airtel-money',
+  label: 'Airtel Money',
+  method: 'MOBILE_MONEY',
+  requiresPhone: true,
+  manualConfirmation: false,
+
+  isEnabled: () => Boolean(airtelMoneyConfig.clientId && airtelMoneyConfig.clientSecret),
+
+  async initiate(input) {
+    if (!input.phone) throw createError(400, 'A phone number is required for Airtel Money');
+
+    // Airtel limits transaction ids in length, so a short random id is stored as the reference
+    const transactionId = crypto.randomBytes(10).toString('hex');
+    let data: any;
+    try {
+      const response = await axios.post(
+        `${airtelMoneyConfig.baseUrl}/merchant/v1/payments/`,
+        {
+          reference: input.description.slice(0, 64),
+          subscriber: {
+            country: airtelMoneyConfig.country,
+            currency: input.currency,
+            msisdn: toSubscriberMsisdn(input.phone),
+          },
+          transaction: {
+            amount: input.amount,
+            country: airtelMoneyConfig.country,
+            currency: input.currency,
+            id: transactionId,
+          },
+        },
+        { headers: await airtelHeaders(input.currency), timeout: paymentConfig.timeoutMs }
+      );
+      data = response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw airtelError('Could not request the payment', error);
+    }
+
+    if (data?.status?.success === false) {
+      throw AppError.externalServiceError('Airtel Money', data.status.message ?? 'Payment request rejected');
+    }
+    return {
+      status: 'PENDING',
+      reference: transactionId,
+      instructions: 'Approve the payment prompt sent to your phone',
+    };
+  },
+
+  async confirm(payment) {
+    if (!payment.reference) return { status: 'PENDING' };
+
+    let data: any;
+    try {
+      const response = await axios.get(`${airtelMoneyConfig.baseUrl}/standard/v1/payments/${payment.reference}`, {
+        headers: await airtelHeaders(payment.currency),
+        timeout: paymentConfig.timeoutMs,
+      });
+      data = response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw airtelError('Could not fetch the payment status', error);
+    }
+
+    const transaction = data?.data?.transaction ?? {};
+    return {
+      status: mapAirtelStatus(transaction.status),
+      reference: payment.reference,
+      raw: data,
+    };
+  },
+
+  async refund(input) {
+    if (!input.reference) throw createError(400, 'Payment has no Airtel Money transaction to refund');
+
+    // Refunds need Airtel's own id for the transaction, returned by the status enquiry
+    const status = await airtelMoneyProvider.confirm({
+      paymentId: input.paymentId,
+      reference: input.reference,
+      amount: input.amount,
+      currency: input.currency,
+    });
+    const airtelMoneyId = (status.raw as any)?.data?.transaction?.airtel_money_id;
+    if (!airtelMoneyId) throw AppError.externalServiceError('Airtel Money', 'Transaction has no Airtel Money id');
+
+    let data: any;
+    try {
+      const response = await axios.post(
+        `${airtelMoneyConfig.baseUrl}/standard/v1/payments/refund`,
+        { transaction: { airtel_money_id: airtelMoneyId } },
+        { headers: await airtelHeaders(input.currency), timeout: paymentConfig.timeoutMs }
+      );
+      data = response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw airtelError('Could not refund the payment', error);
+    }
+
+    return { status: mapAirtelStatus(data?.data?.transaction?.status), reference: airtelMoneyId };
+  },
+
+  // The callback is only used as a trigger; the status is fetched from Airtel
+  parseWebhook(request) {
+    const transactionId = request.body?.transaction?.id;
+    if (typeof transactionId !== 'string') throw createError(400, 'Invalid Airtel Money notification');
+    return { reference: transactionId };
+  },
+};
@@ -0,0 +1,43 @@
+import createError from 'http-errors';
+import { cashOnDeliveryConfig, paymentConfig } from '../../config/payment.config.js';
+import type { PaymentProvider } from './payment.provider.js';
+
+// Cash is collected by the courier; staff confirm the payment once it is handed over
+export const cashOnDeliveryProvider: PaymentProvider = {
+  name: 'CASH_ON_DELIVERY',
+  slug: 'cash-on-delivery',
+  label: 'Cash on delivery',
+  method: 'CASH',
+  requiresPhone: false,
+  manualConfirmation: true,
+
+  isEnabled: () => cashOnDeliveryConfig.enabled,
+
+  async initiate(input) {
+    // Couriers only collect the local currency
+    if (input.currency !== paymentConfig.currency) {
+      throw createError(400, `Cash on delivery is only available for orders in ${paymentConfig.currency}`);
+    }
+    if (input.amount > cashOnDeliveryConfig.maxAmount) {
+      throw createError(400, `Cash on delivery is only available for orders up to ${cashOnDeliveryConfig.maxAmount} ${input.currency}`);
+    }
+    return {
+      status: 'PENDING',
+      reference: `COD-${input.paymentId}`,
+      instructions: `Pay ${input.amount} ${input.currency} in cash when your order is delivered`,
+    };
+  },
+
+  async confirm(payment) {
+    return { status: 'COMPLETED', reference: payment.reference ?? undefined, amount: payment.amount, currency: payment.currency };
+  },
+
+  // Cash refunds are handed back in person
+  async refund(input) {
+    return { status: 'COMPLETED', reference: `COD-REFUND-${input.paymentId}` };
+  },
+
+  parseWebhook() {
+    throw createError(404, 'Cash on delivery has no webhook');
+  },
+};
@@ -0,0 +1,81 @@
+import createError from 'http-errors';
+import type { PaymentStatus } from '@prisma/client';
+import { paymentConfig } from '../../config/payment.config.js';
+import type { InitiatePaymentInput, PaymentProvider, RefundInput, RefundResult } from './payment.provider.js';
+
+export interface FakePaymentProviderOptions {
+  outcome?: Exclude<PaymentStatus, 'REFUNDED'>; // status returned by confirm
+  refundOutcome?: RefundResult['status']; // status returned by refund and checkRefund
+  failInitiate?: boolean;
+  enabled?: boolean;
+}
+
+export interface FakePaymentProvider extends PaymentProvider {
+  readonly initiated: InitiatePaymentInput[];
+  readonly refunds: RefundInput[];
+  setOutcome(outcome: Exclude<PaymentStatus, 'REFUNDED'>): void;
+  setRefundOutcome(outcome: RefundResult['status']): void;
+}
+
+/**
+ * Provider that settles payments in memory without calling anything, for
+ * tests and local development. Records every call so tests can assert on them.
+ * Webhooks take `{ reference, status }` as-is.
+ */
+export function createFakePaymentProvider(options: FakePaymentProviderOptions = {}): FakePaymentProvider {
+  let outcome = options.outcome ?? 'COMPLETED';
+  let refundOutcome = options.refundOutcome ?? 'COMPLETED';
+  const initiated: InitiatePaymentInput[] = [];
+  const refunds: RefundInput[] = [];
+
+  return {
+    name: 'FAKE',
+    slug: 'fake',
+    label: 'Fake provider',
+    method: 'CHECKOUT',
+    requiresPhone: false,
+    manualConfirmation: false,
+    initiated,
+    refunds,
+
+    setOutcome(next) {
+      outcome = next;
+    },
+
+    setRefundOutcome(next) {
+      refundOutcome = next;
+    },
+
+    isEnabled: () => options.enabled ?? paymentConfig.fakeProviderEnabled,
+
+    async initiate(input) {
+      if (options.failInitiate) throw createError(502, 'Fake provider rejected the payment');
+      initiated.push(input);
+      return { status: 'PENDING', reference: `FAKE-${input.paymentId}`, checkoutUrl: `fake://checkout/${input.paymentId}` };
+    },
+
+    async confirm(payment) {
+      return { status: outcome, reference: payment.reference ?? undefined, amount: payment.amount, currency: payment.currency };
+    },
+
+    async refund(input) {
+      refunds.push(input);
+      return { status: refundOutcome, reference: `FAKE-REFUND-${input.paymentId}-${refunds.length}` };
+    },
+
+    async checkRefund(refund) {
+      return { status: refundOutcome, reference: refund.reference ?? undefined };
+    },
+
+    parseWebhook(request) {
+      const { reference, status, amount, currency } = request.body ?? {};
+      if (typeof reference !== 'string' || typeof status !== 'string') {
+        throw createError(400, 'Invalid fake provider notification');
+      }
+      return {
+        reference,
+        result: { status: status as PaymentStatus, reference, amount: amount !== undefined ? Number(amount) : undefined, currency },
+      };
+    },
+  };
+}
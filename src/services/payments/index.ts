@@ -0,0 +1,38 @@
+import createError from 'http-errors';
+import { afripayProvider } from './afripay.provider.js';
+import { mtnMomoProvider } from './mtnMomo.provider.js';
+import { airtelMoneyProvider } from './airtelMoney.provider.js';
+import { cashOnDeliveryProvider } from './cashOnDelivery.provider.js';
+import { createFakePaymentProvider } from './fake.provider.js';
+import type { PaymentProvider } from './payment.provider.js';
+
+export type * from './payment.provider.js';
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Adds a provider, or replaces the one with the same name (tests swap in a
+ * configured fake this way). New providers only need to be registered here.
+ */
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+[afripayProvider, mtnMomoProvider, airtelMoneyProvider, cashOnDeliveryProvider, createFakePaymentProvider()].forEach(
+  registerPaymentProvider
+);
+
+export function getEnabledPaymentProviders(): PaymentProvider[] {
+  return [...providers.values()].filter((provider) => provider.isEnabled());
+}
+
+// Accepts either the stored name (MTN_MOMO) or the URL slug (mtn-momo)
+export function getPaymentProvider(nameOrSlug: string): PaymentProvider {
+  const provider =
+    providers.get(nameOrSlug.toUpperCase()) ??
+    [...providers.values()].find((candidate) => candidate.slug === nameOrSlug.toLowerCase());
+  if (!provider || !provider.isEnabled()) throw createError(400, `Payment provider ${nameOrSlug} is not available`);
+  return provider;
+}
+
+export { createFakePaymentProvider };
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import createError from 'http-errors';
+import { mtnMomoConfig, paymentConfig } from '../../config/payment.config.js';
+import { AppError } from '../../utils/AppError.js';
+import type { PaymentProvider, PaymentResult } from './payment.provider.js';
+
+type MomoProduct = 'collection' | 'disbursement';
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokens = new Map<MomoProduct, CachedToken>();
+
+function momoError(message: string, error: unknown) {
+  return AppError.externalServiceError('MTN MoMo', message, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
+
+async function getAccessToken(product: MomoProduct): Promise<string> {
+  const cached = tokens.get(product);
+  if (cached && cached.expiresAt > Date.now()) return cached.accessToken;
+
+  const { subscriptionKey, apiUser, apiKey } = mtnMomoConfig[product];
+  try {
+    const { data } = await axios.post(`${mtnMomoConfig.baseUrl}/${product}/token/`, null, {
+      auth: { username: apiUser, password: apiKey },
+      headers: { 'Ocp-Apim-Subscription-Key': subscriptionKey },
+      timeout: paymentConfig.timeoutMs,
+    });
+    // Renew a minute early so a token never expires mid-request
+    tokens.set(product, { accessToken: data.access_token, expiresAt: Date.now() + (data.expires_in - 60) * 1000 });
+    return data.access_token;
+  } catch (error) {
+    throw momoError('Could not authenticate', error);
+  }
+}
+
+async function momoHeaders(product: MomoProduct, extra: Record<string, string> = {}) {
+  return {
+    Authorization: `Bearer ${await getAccessToken(product)}`,
+    'Ocp-Apim-Subscription-Key': mtnMomoConfig[product].subscriptionKey,
+    'X-Target-Environment': mtnMomoConfig.targetEnvironment,
+    ...extra,
+  };
+}
+
+// MoMo expects local numbers in international format without the plus sign
+export function normalizeMsisdn(phone: string, countryCode = '250'): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith(countryCode)) return digits;
+  return `${countryCode}${digits.replace(/^0/, '')}`;
+}
+
+export const mtnMomoProvider: PaymentProvider = {
+  name: 'MTN_MOMO',
+  slug: 'mtn-momo',
+  label: 'MTN Mobile Money',
+  method: 'MOBILE_MONEY',
+  requiresPhone: true,
+  manualConfirmation: false,
+
+  isEnabled: () => Boolean(mtnMomoConfig.collection.apiUser && mtnMomoConfig.collection.subscriptionKey),
+
+  // The X-Reference-Id is ours to pick; MTN may take a request whose response never arrives
+  assignReference: () => crypto.randomUUID(),
+
+  async initiate(input) {
+    if (!input.phone) throw createError(400, 'A phone number is required for MTN Mobile Money');
+
+    const referenceId = input.reference ?? crypto.randomUUID();
+    try {
+      await axios.post(
+        `${mtnMomoConfig.baseUrl}/collection/v1_0/requesttopay`,
+        {
+          amount: String(input.amount),
+          currency: input.currency,
+          externalId: input.paymentId,
+          payer: { partyIdType: 'MSISDN', partyId: normalizeMsisdn(input.phone) },
+          payerMessage: input.description,
+          payeeNote: input.description,
+        },
+        {
+          headers: await momoHeaders('collection', {
+            'X-Reference-Id': referenceId,
+            'X-Callback-Url': mtnMomoConfig.callbackUrl,
+          }),
+          timeout: paymentConfig.timeoutMs,
+        }
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw momoError('Could not request the payment', error);
+    }
+
+    return {
+      status: 'PENDING',
+      reference: referenceId,
+      instructions: 'Approve the payment prompt sent to your phone',
+    };
+  },
+
+  async confirm(payment) {
+    if (!payment.reference) return { status: 'PENDING' };
+
+    let data: any;
+    try {
+      const response = await axios.get(`${mtnMomoConfig.baseUrl}/collection/v1_0/requesttopay/${payment.reference}`, {
+        headers: await momoHeaders('collection'),
+        timeout: paymentConfig.timeoutMs,
+      });
+      data = response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      // MTN never received the request; should it still arrive, the late completion is applied then
+      if (axios.isAxiosError(error) && error.response?.status === 404) return { status: 'FAILED', reference: payment.reference };
+      throw momoError('Could not fetch the payment status', error);
+    }
+
+    const result: PaymentResult = {
+      status: 'PENDING',
+      reference: payment.reference,
+      amount: Number(data.amount),
+      currency: data.currency,
+      raw: data,
+    };
+    if (data.status === 'SUCCESSFUL') result.status = 'COMPLETED';
+    else if (data.status === 'FAILED' || data.status === 'REJECTED' || data.status === 'TIMEOUT') result.status = 'FAILED';
+    return result;
+  },
+
+  async refund(input) {
+    if (!input.reference) throw createError(400, 'Payment has no MTN MoMo transaction to refund');
+
+    const referenceId = crypto.randomUUID();
+    try {
+      await axios.post(
+        `${mtnMomoConfig.baseUrl}/disbursement/v2_0/refund`,
+        {
+          amount: String(input.amount),
+          currency: input.currency,
+          externalId: input.paymentId,
+          payerMessage: input.reason ?? 'Refund',
+          payeeNote: input.reason ?? 'Refund',
+          referenceIdToRefund: input.reference,
+        },
+        { headers: await momoHeaders('disbursement', { 'X-Reference-Id': referenceId }), timeout: paymentConfig.timeoutMs }
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw momoError('Could not refund the payment', error);
+    }
+
+    // MoMo accepts refunds asynchronously
+    return { status: 'PENDING', reference: referenceId };
+  },
+
+  async checkRefund(refund) {
+    if (!refund.reference) return { status: 'PENDING' };
+
+    let data: any;
+    try {
+      const response = await axios.get(`${mtnMomoConfig.baseUrl}/disbursement/v1_0/refund/${refund.reference}`, {
+        headers: await momoHeaders('disbursement'),
+        timeout: paymentConfig.timeoutMs,
+      });
+      data = response.data;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw momoError('Could not fetch the refund status', error);
+    }
+
+    if (data.status === 'SUCCESSFUL') return { status: 'COMPLETED', reference: refund.reference };
+    if (data.status === 'FAILED' || data.status === 'REJECTED') return { status: 'FAILED', reference: refund.reference };
+    return { status: 'PENDING', reference: refund.reference };
+  },
+
+  // MoMo callbacks are not signed, so only the reference is taken from them and the status is fetched
+  parseWebhook(request) {
+    const { referenceId, externalId } = request.body ?? {};
+    const reference = request.headers['x-reference-id'] ?? referenceId;
+    if (typeof reference !== 'string' && typeof externalId !== 'string') {
+      throw createError(400, 'Invalid MTN MoMo notification');
+    }
+    return {
+      reference: typeof reference === 'string' ? reference : undefined,
+      paymentId: typeof externalId === 'string' ? externalId : undefined,
+    };
+  },
+};
@@ -0,0 +1,98 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { PaymentStatus } from '@prisma/client';
+
+export type PaymentProviderName = 'AFRIPAY' | 'MTN_MOMO' | 'AIRTEL_MONEY' | 'CASH_ON_DELIVERY' | 'FAKE';
+
+export type PaymentMethod = 'CHECKOUT' | 'MOBILE_MONEY' | 'CASH';
+
+// Amounts exchanged with providers are in major units, e.g. 12.5 USD
+export interface InitiatePaymentInput {
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  phone?: string; // payer MSISDN for mobile money
+  reference?: string; // from assignReference, for providers that name the payment themselves
+}
+
+export interface InitiatePaymentResult {
+  status: PaymentStatus;
+  reference?: string;
+  checkoutUrl?: string;
+  instructions?: string; // shown to the customer, e.g. "approve the prompt on your phone"
+}
+
+export interface PaymentReference {
+  paymentId: string;
+  reference: string | null;
+  amount: number;
+  currency: string;
+}
+
+// Outcome of a payment as reported by the provider
+export interface PaymentResult {
+  status: PaymentStatus;
+  reference?: string;
+  amount?: number;
+  currency?: string;
+  raw?: unknown;
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  body: any;
+  rawBody?: Buffer;
+}
+
+/**
+ * A verified notification. When `result` is missing the provider's payload
+ * cannot be trusted on its own and the status is fetched with `confirm`.
+ */
+export interface PaymentNotification {
+  paymentId?: string;
+  reference?: string;
+  result?: PaymentResult;
+}
+
+export interface RefundInput {
+  paymentId: string;
+  reference: string | null;
+  amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  reference?: string;
+}
+
+// A refund the provider accepted but had not settled yet
+export interface RefundReference {
+  refundId: string;
+  paymentId: string;
+  reference: string | null; // refund reference from the provider
+  paymentReference: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  readonly slug: string; // used in webhook URLs
+  readonly label: string;
+  readonly method: PaymentMethod;
+  readonly requiresPhone: boolean;
+  // Only staff can confirm these payments, e.g. cash handed to the courier
+  readonly manualConfirmation: boolean;
+  isEnabled(): boolean;
+  // Names a payment before it is requested, so an attempt whose request fails can still be checked
+  assignReference?(): string;
+  initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult>;
+  confirm(payment: PaymentReference): Promise<PaymentResult>;
+  refund(input: RefundInput): Promise<RefundResult>;
+  // Fetches the outcome of a pending refund; providers without it leave pending refunds to staff
+  checkRefund?(refund: RefundReference): Promise<RefundResult>;
+  parseWebhook(request: WebhookRequest): PaymentNotification;
+}
@@ -0,0 +1,350 @@
+import { CronJob } from 'cron';
+import createError from 'http-errors';
+import type { PayoutStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { payoutConfig } from '../config/payment.config.js';
+import { logger } from '../utils/logger.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { formatMoney } from '../utils/currency.utils.js';
+
+type Tx = Prisma.TransactionClient;
+
+export interface PayoutFilters {
+  status?: PayoutStatus;
+  period?: string;
+  sellerId?: string;
+  currency?: string;
+}
+
+// Payouts are grouped per calendar month, e.g. "2026-03"
+export function getPayoutPeriod(date = new Date()): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+// Commission is taken on the merchandise only; shipping and tax pass through to the seller in full
+function splitAmount(grossAmount: number, commissionBase: number, commissionRate: number) {
+  const commissionAmount = roundMoney(commissionBase * commissionRate);
+  return { grossAmount, commissionRate, commissionAmount, netAmount: roundMoney(grossAmount - commissionAmount) };
+}
+
+/**
+ * Books a delivered shop order: the gross sale, the platform commission at the
+ * seller's current rate and what is left for the seller. The commission is
+ * worked out on the items before tax, without the shipping fee. Discounts from
+ * platform coupons are paid by the platform, so the seller is credited as if
+ * the customer had paid full price. Entries are in the currency of the order.
+ */
+async function recordSaleEntry(
+  tx: Tx,
+  shopOrder: {
+    id: string;
+    orderId: string;
+    total: number;
+    discount: number;
+    taxInclusive: boolean;
+    shop: { sellerId: string };
+    order: { currency: string };
+  }
+) {
+  const seller = await tx.seller.findUniqueOrThrow({ where: { id: shopOrder.shop.sellerId } });
+  const redemption = await tx.couponRedemption.findUnique({
+    where: { orderId: shopOrder.orderId },
+    select: { coupon: { select: { shopId: true } } },
+  });
+  const platformCoupon = Boolean(redemption && !redemption.coupon.shopId);
+  const platformDiscount = platformCoupon ? shopOrder.discount : 0;
+
+  const items = await tx.orderItem.findMany({
+    where: { shopOrderId: shopOrder.id },
+    select: { lineTotal: true, discount: true, taxAmount: true },
+  });
+  const merchandise = items.reduce(
+    (total, item) =>
+      total + item.lineTotal + (platformCoupon ? item.discount : 0) - (shopOrder.taxInclusive ? item.taxAmount : 0),
+    0
+  );
+
+  return tx.sellerLedgerEntry.create({
+    data: {
+      sellerId: seller.id,
+      shopOrderId: shopOrder.id,
+      type: 'SALE',
+      reference: shopOrder.id,
+      currency: shopOrder.order.currency,
+      period: getPayoutPeriod(),
+      ...splitAmount(roundMoney(shopOrder.total + platformDiscount), roundMoney(merchandise), seller.commissionRate),
+    },
+  });
+}
+
+/**
+ * Books the delivered shop orders of an order that have no sale yet, once the
+ * order is paid. Called both on delivery and when a payment completes, so a
+ * sale is booked by whichever comes last; cash on delivery counts as paid once
+ * staff confirm the cash was collected.
+ */
+export async function recordPaidSales(tx: Tx, orderId: string) {
+  // Serializes delivery and payment of the same order so neither misses the other
+  await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUniqueOrThrow({ where: { id: orderId }, select: { paymentStatus: true } });
+  if (order.paymentStatus !== 'COMPLETED') return [];
+
+  const shopOrders = await tx.shopOrder.findMany({
+    where: { orderId, status: 'DELIVERED', ledger: { none: { type: 'SALE' } } },
+    include: { shop: { select: { sellerId: true } }, order: { select: { currency: true } } },
+  });
+  const entries = [];
+  for (const shopOrder of shopOrders) entries.push(await recordSaleEntry(tx, shopOrder));
+  return entries;
+}
+
+/**
+ * Books a refunded return against the seller. The commission on the refunded
+ * amount before tax is given back at the rate the sale was booked with.
+ */
+export async function recordRefundEntry(
+  tx: Tx,
+  refund: { returnRequestId: string; shopOrderId: string; sellerId: string; amount: number }
+) {
+  // Refunds issued before refunds were tracked were booked while still pending
+  const booked = await tx.sellerLedgerEntry.findUnique({
+    where: { type_reference: { type: 'REFUND', reference: refund.returnRequestId } },
+  });
+  if (booked) return booked;
+
+  const sale = await tx.sellerLedgerEntry.findUnique({
+    where: { type_reference: { type: 'SALE', reference: refund.shopOrderId } },
+  });
+  const commissionRate =
+    sale?.commissionRate ?? (await tx.seller.findUniqueOrThrow({ where: { id: refund.sellerId } })).commissionRate;
+  // Returned items are priced with their tax, so the refund carries the same tax share
+  const returnItems = await tx.returnItem.findMany({
+    where: { returnRequestId: refund.returnRequestId },
+    select: { amount: true, quantity: true, orderItem: { select: { quantity: true, taxAmount: true } } },
+  });
+  const returnedAmount = returnItems.reduce((total, item) => total + item.amount, 0);
+  const returnedTax = returnItems.reduce(
+    (total, item) => total + (item.orderItem.taxAmount / item.orderItem.quantity) * item.quantity,
+    0
+  );
+  const commissionBase = returnedAmount > 0 ? refund.amount * (1 - returnedTax / returnedAmount) : refund.amount;
+  const currency =
+    sale?.currency ??
+    (await tx.shopOrder.findUniqueOrThrow({ where: { id: refund.shopOrderId }, select: { order: { select: { currency: true } } } }))
+      .order.currency;
+
+  return tx.sellerLedgerEntry.create({
+    data: {
+      sellerId: refund.sellerId,
+      shopOrderId: refund.shopOrderId,
+      type: 'REFUND',
+      reference: refund.returnRequestId,
+      currency,
+      period: getPayoutPeriod(),
+      ...splitAmount(-refund.amount, -roundMoney(commissionBase), commissionRate),
+    },
+  });
+}
+
+/**
+ * Rolls the ledger entries of closed months into one payout per seller, month
+ * and currency. Entries that cannot be paid out with their month, because it was
+ * already paid or because refunds outweigh sales, move to the current month.
+ */
+export async function rollUpPayouts(now = new Date()) {
+  const currentPeriod = getPayoutPeriod(now);
+  const groups = await prisma.sellerLedgerEntry.groupBy({
+    by: ['sellerId', 'period', 'currency'],
+    where: { payoutId: null, period: { lt: currentPeriod } },
+    _sum: { netAmount: true },
+  });
+
+  let payouts = 0;
+  let carried = 0;
+  for (const group of groups) {
+    const where = { sellerId: group.sellerId, period: group.period, currency: group.currency, payoutId: null };
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.sellerPayout.findUnique({
+        where: {
+          sellerId_period_currency: { sellerId: group.sellerId, period: group.period, currency: group.currency },
+        },
+      });
+
+      if (existing?.status === 'PAID' || (!existing && (group._sum.netAmount ?? 0) <= 0)) {
+        const moved = await tx.sellerLedgerEntry.updateMany({ where, data: { period: currentPeriod } });
+        carried += moved.count;
+        return;
+      }
+
+      const payout =
+        existing ??
+        (await tx.sellerPayout.create({
+          data: { sellerId: group.sellerId, period: group.period, currency: group.currency, amount: 0 },
+        }));
+      await tx.sellerLedgerEntry.updateMany({ where, data: { payoutId: payout.id } });
+
+      // Totals come from the linked entries so late additions are counted too
+      const totals = await tx.sellerLedgerEntry.aggregate({
+        where: { payoutId: payout.id },
+        _sum: { grossAmount: true, commissionAmount: true, netAmount: true },
+      });
+      await tx.sellerPayout.update({
+        where: { id: payout.id },
+        data: {
+          grossAmount: roundMoney(totals._sum.grossAmount ?? 0),
+          commissionAmount: roundMoney(totals._sum.commissionAmount ?? 0),
+          amount: roundMoney(totals._sum.netAmount ?? 0),
+        },
+      });
+      payouts++;
+    });
+  }
+
+  if (payouts > 0 || carried > 0) {
+    logger.info(`Rolled up ${payouts} seller payout(s), carried ${carried} ledger entry(ies) forward`, { action: 'payout' });
+  }
+  return { payouts, carried };
+}
+
+let payoutRollupJob: CronJob<string> | null = null;
+export function initializePayoutRollupJob() {
+  if (payoutRollupJob) return payoutRollupJob;
+
+  payoutRollupJob = new CronJob(
+    payoutConfig.rollupSchedule,
+    async () => {
+      try {
+        await rollUpPayouts();
+      } catch (error) {
+        logger.error('Failed to roll up seller payouts', { error, action: 'payout' });
+      }
+    },
+    undefined,
+    false,
+    'UTC'
+  );
+  payoutRollupJob.start();
+  logger.debug('Seller payout rollup cron job initialized and started');
+
+  return payoutRollupJob;
+}
+
+export async function getPayouts(filters: PayoutFilters, page: number, limit: number) {
+  const where: Prisma.SellerPayoutWhereInput = filters;
+  const [payouts, total] = await Promise.all([
+    prisma.sellerPayout.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: [{ period: 'desc' }, { createdAt: 'desc' }],
+      include: { seller: { select: { id: true, businessName: true } } },
+    }),
+    prisma.sellerPayout.count({ where }),
+  ]);
+  return { payouts, total };
+}
+
+export async function markPayoutPaid(adminId: string, payoutId: string, details: { reference?: string; note?: string }) {
+  const payout = await prisma.sellerPayout.findUnique({ where: { id: payoutId }, include: { seller: true } });
+  if (!payout) throw createError(404, 'Payout not found');
+
+  const updated = await prisma.sellerPayout.updateMany({
+    where: { id: payout.id, status: 'PENDING' },
+    data: {
+      status: 'PAID',
+      paidAt: new Date(),
+      paidById: adminId,
+      paymentReference: details.reference,
+      note: details.note,
+    },
+  });
+  if (updated.count === 0) throw createError(409, 'This payout has already been paid');
+
+  logger.info(`Payout ${payout.id} of ${formatMoney(payout.amount, payout.currency)} marked paid by ${adminId}`, {
+    action: 'payout',
+    meta: { sellerId: payout.sellerId, period: payout.period, reference: details.reference },
+  });
+  try {
+    await prisma.notification.create({
+      data: {
+        userId: payout.seller.userId,
+        type: 'PAYOUT',
+        message: `Your payout of ${formatMoney(payout.amount, payout.currency)} for ${payout.period} has been paid`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send payout notification', { error, action: 'payout' });
+  }
+
+  return prisma.sellerPayout.findUniqueOrThrow({ where: { id: payout.id } });
+}
+
+async function findSeller(userId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+  return seller;
+}
+
+const statementEntrySelect = {
+  id: true,
+  type: true,
+  reference: true,
+  grossAmount: true,
+  commissionRate: true,
+  commissionAmount: true,
+  netAmount: true,
+  currency: true,
+  period: true,
+  createdAt: true,
+  shopOrder: { select: { id: true, orderId: true, shop: { select: { id: true, name: true } } } },
+} satisfies Prisma.SellerLedgerEntrySelect;
+
+function summarize(entries: { type: string; grossAmount: number; commissionAmount: number; netAmount: number }[]) {
+  const sum = (type: string, field: 'grossAmount' | 'commissionAmount' | 'netAmount') =>
+    roundMoney(entries.filter((entry) => entry.type === type).reduce((total, entry) => total + entry[field], 0));
+
+  return {
+    sales: sum('SALE', 'grossAmount'),
+    refunds: sum('REFUND', 'grossAmount'),
+    commission: roundMoney(sum('SALE', 'commissionAmount') + sum('REFUND', 'commissionAmount')),
+    net: roundMoney(sum('SALE', 'netAmount') + sum('REFUND', 'netAmount')),
+  };
+}
+
+export async function getMyPayouts(userId: string, page: number, limit: number) {
+  const seller = await findSeller(userId);
+  return getPayouts({ sellerId: seller.id }, page, limit);
+}
+
+/**
+ * A payout with every ledger line it was computed from: sales at the
+ * commission rate of the time, refunds, and the resulting totals.
+ */
+export async function getPayoutStatement(userId: string, payoutId: string) {
+  const seller = await findSeller(userId);
+  const payout = await prisma.sellerPayout.findFirst({
+    where: { id: payoutId, sellerId: seller.id },
+    include: { entries: { select: statementEntrySelect, orderBy: { createdAt: 'asc' } } },
+  });
+  if (!payout) throw createError(404, 'Payout not found');
+
+  const { entries, ...details } = payout;
+  return { payout: details, summary: summarize(entries), entries };
+}
+
+// Earnings booked but not rolled into a payout yet, totalled per currency
+export async function getOpenBalance(userId: string) {
+  const seller = await findSeller(userId);
+  const entries = await prisma.sellerLedgerEntry.findMany({
+    where: { sellerId: seller.id, payoutId: null },
+    select: statementEntrySelect,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const currencies = [...new Set(entries.map((entry) => entry.currency))];
+  const balances = currencies.map((currency) => ({
+    currency,
+    ...summarize(entries.filter((entry) => entry.currency === currency)),
+  }));
+  return { commissionRate: seller.commissionRate, balances, entries };
+}
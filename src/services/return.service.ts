@@ -0,0 +1,435 @@
+import createError from 'http-errors';
+import type { Prisma, RefundStatus, ReturnRequestStatus } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { deleteFiles, uploadReturnPhoto } from '../utils/upload.file.js';
+import { getDerivativeKeys } from '../utils/image.processing.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { formatMoney } from '../utils/currency.utils.js';
+import { recordMovements } from './inventory.service.js';
+import { REFUND_MESSAGES, refundPayment, retryRefund } from './payment.service.js';
+import { notifyUser } from './notification.service.js';
+
+export const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '14', 10);
+
+export interface ReturnActor {
+  userId: string;
+  role: string;
+}
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export const returnDetailInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: { id: true, productId: true, productName: true, variantSku: true, variantAttributes: true, price: true, quantity: true },
+      },
+    },
+  },
+  shopOrder: {
+    select: { id: true, orderId: true, status: true, shop: { select: { id: true, name: true, slug: true, sellerId: true, returnPolicy: true } } },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rejected requests give their items back to the returnable quantity
+const OPEN_RETURN_STATUSES: ReturnRequestStatus[] = ['REQUESTED', 'APPROVED', 'REFUNDED'];
+
+function returnableUntil(deliveredAt: Date) {
+  return new Date(deliveredAt.getTime() + RETURN_WINDOW_DAYS * DAY_MS);
+}
+
+async function getDeliveredAt(db: Tx | typeof prisma, shopOrderId: string) {
+  const transition = await db.orderStatusTransition.findFirst({
+    where: { shopOrderId, toStatus: 'DELIVERED' },
+    orderBy: { createdAt: 'desc' },
+  });
+  return transition?.createdAt ?? null;
+}
+
+async function getReturnedQuantities(db: Tx | typeof prisma, orderItemIds: string[]) {
+  const returned = await db.returnItem.groupBy({
+    by: ['orderItemId'],
+    where: { orderItemId: { in: orderItemIds }, returnRequest: { status: { in: OPEN_RETURN_STATUSES } } },
+    _sum: { quantity: true },
+  });
+  return new Map(returned.map((row) => [row.orderItemId, row._sum.quantity ?? 0]));
+}
+
+/**
+ * What the customer can still send back from an order, per shop, with the
+ * shop's return policy to show on the return request screen.
+ */
+export async function getReturnEligibility(userId: string, orderId: string) {
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, userId },
+    include: {
+      shopOrders: {
+        include: { items: true, shop: { select: { id: true, name: true, slug: true, returnPolicy: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+  if (!order) throw createError(404, 'Order not found');
+
+  const returned = await getReturnedQuantities(
+    prisma,
+    order.shopOrders.flatMap((shopOrder) => shopOrder.items.map((item) => item.id))
+  );
+
+  const now = new Date();
+  const shopOrders = await Promise.all(
+    order.shopOrders.map(async (shopOrder) => {
+      const deliveredAt = shopOrder.status === 'DELIVERED' ? await getDeliveredAt(prisma, shopOrder.id) : null;
+      const deadline = deliveredAt ? returnableUntil(deliveredAt) : null;
+
+      let reason: string | undefined;
+      if (!deliveredAt) reason = 'Items can be returned once they are delivered';
+      else if (deadline! < now) reason = `The ${RETURN_WINDOW_DAYS}-day return window has closed`;
+
+      const items = shopOrder.items.map((item) => ({
+        orderItemId: item.id,
+        productId: item.productId,
+        productName: item.productName,
+        variantSku: item.variantSku,
+        variantAttributes: item.variantAttributes,
+        price: item.price,
+        discount: item.discount,
+        quantity: item.quantity,
+        returnableQuantity: reason ? 0 : item.quantity - (returned.get(item.id) ?? 0),
+      }));
+
+      return {
+        shopOrderId: shopOrder.id,
+        status: shopOrder.status,
+        shop: shopOrder.shop,
+        deliveredAt,
+        returnableUntil: deadline,
+        eligible: !reason && items.some((item) => item.returnableQuantity > 0),
+        reason,
+        items,
+      };
+    })
+  );
+
+  return { orderId: order.id, returnWindowDays: RETURN_WINDOW_DAYS, shopOrders };
+}
+
+async function removeReturnPhotos(photos: { key: string; derivatives: unknown }[]) {
+  if (photos.length === 0) return;
+  try {
+    await deleteFiles(photos.flatMap((photo) => [photo.key, ...getDerivativeKeys(photo.derivatives)]));
+  } catch (error) {
+    logger.error('Failed to remove return photos', { error, action: 'return' });
+  }
+}
+
+/**
+ * Opens a return for items of one delivered shop order. Each shop handles its
+ * own returns, so items from different shops need separate requests.
+ */
+export async function createReturnRequest(
+  userId: string,
+  input: { reason: string; items: ReturnItemInput[] },
+  photos: Express.Multer.File[] = []
+) {
+  const orderItemIds = [...new Set(input.items.map((item) => item.orderItemId))];
+  if (orderItemIds.length !== input.items.length) throw createError(400, 'Each item can only be listed once');
+
+  const orderItems = await prisma.orderItem.findMany({
+    where: { id: { in: orderItemIds }, order: { userId } },
+    include: { shopOrder: { include: { shop: { select: { name: true, seller: { select: { userId: true } } } } } } },
+  });
+  if (orderItems.length !== orderItemIds.length) throw createError(404, 'Order item not found');
+
+  const shopOrder = orderItems[0].shopOrder;
+  if (!shopOrder || orderItems.some((item) => item.shopOrderId !== shopOrder.id)) {
+    throw createError(400, 'All returned items must come from the same shop order');
+  }
+  if (shopOrder.status !== 'DELIVERED') throw createError(409, 'Items can be returned once they are delivered');
+
+  const deliveredAt = await getDeliveredAt(prisma, shopOrder.id);
+  if (!deliveredAt || returnableUntil(deliveredAt) < new Date()) {
+    throw createError(409, `The ${RETURN_WINDOW_DAYS}-day return window has closed`);
+  }
+
+  const uploaded = await Promise.all(
+    photos.map((photo, index) => uploadReturnPhoto(photo.buffer, photo.originalname, photo.mimetype, userId, index))
+  );
+  const storedPhotos = uploaded.map((photo) => ({ url: photo.url, key: photo.key, derivatives: photo.derivatives }));
+
+  let returnRequest;
+  try {
+    returnRequest = await prisma.$transaction(async (tx) => {
+      // Serialises requests on the same shop order so quantities cannot be returned twice
+      await tx.$queryRaw`SELECT "id" FROM "ShopOrder" WHERE "id" = ${shopOrder.id} FOR UPDATE`;
+      const returned = await getReturnedQuantities(tx, orderItemIds);
+
+      const items = input.items.map((requested) => {
+        const orderItem = orderItems.find((item) => item.id === requested.orderItemId)!;
+        const returnable = orderItem.quantity - (returned.get(orderItem.id) ?? 0);
+        if (requested.quantity > returnable) {
+          throw createError(409, `Only ${returnable} unit(s) of ${orderItem.productName} can still be returned`);
+        }
+        // Priced at what was actually paid: after coupon discounts, with any tax added on top
+        const paid = orderItem.lineTotal + (shopOrder.taxInclusive ? 0 : orderItem.taxAmount);
+        const amount = roundMoney((paid / orderItem.quantity) * requested.quantity);
+        return { orderItemId: orderItem.id, quantity: requested.quantity, amount };
+      });
+
+      return tx.returnRequest.create({
+        data: {
+          orderId: shopOrder.orderId,
+          shopOrderId: shopOrder.id,
+          userId,
+          reason: input.reason,
+          photos: storedPhotos.length > 0 ? storedPhotos : undefined,
+          requestedAmount: roundMoney(items.reduce((sum, item) => sum + item.amount, 0)),
+          items: { create: items },
+        },
+        include: returnDetailInclude,
+      });
+    });
+  } catch (error) {
+    await removeReturnPhotos(storedPhotos);
+    throw error;
+  }
+
+  logger.info(`Return ${returnRequest.id} requested for shop order ${shopOrder.id}`, { action: 'return', userId });
+  await notifyUser(
+    shopOrder.shop.seller.userId,
+    'RETURN_REQUEST',
+    `A return was requested for order ${shopOrder.orderId} from ${shopOrder.shop.name}`
+  );
+
+  return returnRequest;
+}
+
+export async function getMyReturns(userId: string, page: number, limit: number) {
+  const where = { userId };
+  const [returns, total] = await Promise.all([
+    prisma.returnRequest.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: returnDetailInclude,
+    }),
+    prisma.returnRequest.count({ where }),
+  ]);
+  return { returns, total };
+}
+
+export async function getShopReturns(userId: string, status: ReturnRequestStatus | undefined, page: number, limit: number) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const where: Prisma.ReturnRequestWhereInput = { shopOrder: { shop: { sellerId: seller.id } }, status };
+  const [returns, total] = await Promise.all([
+    prisma.returnRequest.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: returnDetailInclude,
+    }),
+    prisma.returnRequest.count({ where }),
+  ]);
+  return { returns, total };
+}
+
+// Visible to the customer who asked for it, the seller of the shop and admins
+export async function getReturnById(actor: ReturnActor, returnId: string) {
+  const returnRequest = await prisma.returnRequest.findUnique({ where: { id: returnId }, include: returnDetailInclude });
+  if (!returnRequest) throw createError(404, 'Return not found');
+  if (actor.role === 'ADMIN' || returnRequest.userId === actor.userId) return returnRequest;
+
+  const seller = await prisma.seller.findUnique({ where: { userId: actor.userId } });
+  if (!seller || returnRequest.shopOrder.shop.sellerId !== seller.id) throw createError(404, 'Return not found');
+
+  return returnRequest;
+}
+
+async function findSellerReturn(userId: string, returnId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const returnRequest = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: {
+      items: { include: { orderItem: { select: { productVariantId: true } } } },
+      shopOrder: {
+        select: { orderId: true, order: { select: { currency: true } }, shop: { select: { name: true, sellerId: true } } },
+      },
+    },
+  });
+  if (!returnRequest) throw createError(404, 'Return not found');
+  if (returnRequest.shopOrder.shop.sellerId !== seller.id) {
+    throw createError(403, 'You can only manage returns of your own shop');
+  }
+
+  return { returnRequest, seller };
+}
+
+function getReturnDetail(returnId: string) {
+  return prisma.returnRequest.findUniqueOrThrow({ where: { id: returnId }, include: returnDetailInclude });
+}
+
+/**
+ * Sends the approved amount back through the order's payment provider. The
+ * return is marked refunded and booked against the seller's earnings once the
+ * provider confirms the refund; a failed refund leaves the return approved so
+ * it can be retried.
+ */
+async function settleRefund(returnRequest: { id: string; paymentId: string; refundAmount: number }): Promise<RefundStatus> {
+  try {
+    const refund = await refundPayment(returnRequest.paymentId, returnRequest.refundAmount, `Return ${returnRequest.id}`, {
+      returnRequestId: returnRequest.id,
+    });
+    return refund.status;
+  } catch (error) {
+    logger.error(`Refund for return ${returnRequest.id} failed`, { error, action: 'return' });
+    await prisma.returnRequest.update({ where: { id: returnRequest.id }, data: { refundStatus: 'FAILED' } });
+    return 'FAILED';
+  }
+}
+
+/**
+ * Seller accepts a return. The items go back into stock and the refund, the
+ * full value of the returned items unless a lower amount is given, is issued
+ * to the customer.
+ */
+export async function approveReturn(
+  actor: ReturnActor,
+  returnId: string,
+  options: { refundAmount?: number; note?: string } = {}
+) {
+  const { returnRequest } = await findSellerReturn(actor.userId, returnId);
+  if (returnRequest.status !== 'REQUESTED') throw createError(409, 'This return has already been handled');
+
+  const { currency } = returnRequest.shopOrder.order;
+  const refundAmount = options.refundAmount ?? returnRequest.requestedAmount;
+  if (refundAmount < 0 || refundAmount > returnRequest.requestedAmount) {
+    throw createError(400, `Refund amount must be between 0 and ${formatMoney(returnRequest.requestedAmount, currency)}`);
+  }
+
+  const payment = await prisma.payment.findFirst({
+    where: { orderId: returnRequest.orderId, status: 'COMPLETED' },
+    orderBy: { paidAt: 'desc' },
+  });
+  if (payment && refundAmount > payment.amount - payment.refundedAmount) {
+    throw createError(409, `Only ${formatMoney(payment.amount - payment.refundedAmount, payment.currency)} of this order is left to refund`);
+  }
+  // Nothing was paid, so nothing goes back
+  const paymentId = payment && refundAmount > 0 ? payment.id : null;
+
+  const claimed = await prisma.returnRequest.updateMany({
+    where: { id: returnRequest.id, status: 'REQUESTED' },
+    data: {
+      status: 'APPROVED',
+      sellerNote: options.note,
+      refundAmount,
+      paymentId,
+      refundStatus: paymentId ? 'PENDING' : null,
+      resolvedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) throw createError(409, 'This return has already been handled');
+
+  try {
+    const movements = returnRequest.items
+      .filter((item) => item.orderItem.productVariantId !== null)
+      .map((item) => ({
+        variantId: item.orderItem.productVariantId as string,
+        type: 'RETURN' as const,
+        quantity: item.quantity,
+        reason: 'Customer return',
+        reference: returnRequest.id,
+        actorId: actor.userId,
+      }));
+    if (movements.length > 0) await recordMovements(movements);
+  } catch (error) {
+    logger.error(`Failed to restock return ${returnRequest.id}`, { error, action: 'return' });
+  }
+
+  let refundMessage = '';
+  if (paymentId) {
+    const refundStatus = await settleRefund({ id: returnRequest.id, paymentId, refundAmount });
+    refundMessage = `, your refund of ${formatMoney(refundAmount, currency)} ${REFUND_MESSAGES[refundStatus]}`;
+  }
+
+  logger.info(`Return ${returnRequest.id} approved by user ${actor.userId}`, {
+    action: 'return',
+    meta: { refundAmount, requestedAmount: returnRequest.requestedAmount },
+  });
+  await notifyUser(
+    returnRequest.userId,
+    'RETURN_STATUS',
+    `Your return for order ${returnRequest.orderId} from ${returnRequest.shopOrder.shop.name} was approved${refundMessage}`
+  );
+
+  return getReturnDetail(returnRequest.id);
+}
+
+export async function rejectReturn(actor: ReturnActor, returnId: string, note: string) {
+  const { returnRequest } = await findSellerReturn(actor.userId, returnId);
+
+  const claimed = await prisma.returnRequest.updateMany({
+    where: { id: returnRequest.id, status: 'REQUESTED' },
+    data: { status: 'REJECTED', sellerNote: note, resolvedAt: new Date() },
+  });
+  if (claimed.count === 0) throw createError(409, 'This return has already been handled');
+
+  logger.info(`Return ${returnRequest.id} rejected by user ${actor.userId}`, { action: 'return' });
+  await notifyUser(
+    returnRequest.userId,
+    'RETURN_STATUS',
+    `Your return for order ${returnRequest.orderId} from ${returnRequest.shopOrder.shop.name} was declined: ${note}`
+  );
+
+  return getReturnDetail(returnRequest.id);
+}
+
+/**
+ * Issues the refund of an approved return again after the provider failed.
+ * Open to the shop's seller and to administrators.
+ */
+export async function retryReturnRefund(actor: ReturnActor, returnId: string) {
+  const returnRequest =
+    actor.role === 'ADMIN'
+      ? await prisma.returnRequest.findUnique({
+          where: { id: returnId },
+          include: { shopOrder: { select: { order: { select: { currency: true } } } } },
+        })
+      : (await findSellerReturn(actor.userId, returnId)).returnRequest;
+  if (!returnRequest) throw createError(404, 'Return not found');
+  if (returnRequest.refundStatus !== 'FAILED' || !returnRequest.paymentId || returnRequest.refundAmount === null) {
+    throw createError(409, 'Only failed refunds can be retried');
+  }
+
+  // The refund is issued anew when the provider could not even be asked the first time
+  const failed = await prisma.refund.findFirst({
+    where: { returnRequestId: returnRequest.id, status: 'FAILED' },
+    orderBy: { createdAt: 'desc' },
+  });
+  const refundStatus = failed
+    ? (await retryRefund(failed.id)).status
+    : await settleRefund({ id: returnRequest.id, paymentId: returnRequest.paymentId, refundAmount: returnRequest.refundAmount });
+
+  if (refundStatus !== 'FAILED') {
+    await notifyUser(
+      returnRequest.userId,
+      'RETURN_STATUS',
+      `Your refund of ${formatMoney(returnRequest.refundAmount, returnRequest.shopOrder.order.currency)} for order ${returnRequest.orderId} ${REFUND_MESSAGES[refundStatus]}`
+    );
+  }
+
+  return getReturnDetail(returnRequest.id);
+}
@@ -0,0 +1,549 @@
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import type { ReviewStatus } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { getHoldReason } from '../utils/moderation.utils.js';
+import { deleteFiles, uploadReviewPhoto } from '../utils/upload.file.js';
+import { getDerivativeKeys } from '../utils/image.processing.js';
+import type { ImageDerivatives } from '../utils/image.processing.js';
+import { notifyUser } from './notification.service.js';
+
+export interface ReviewActor {
+  userId: string;
+  role: string;
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment?: string;
+}
+
+export interface ReviewFilters {
+  rating?: number;
+  verifiedOnly?: boolean;
+}
+
+// Product reviews live in Review, shop reviews in ShopReview
+export type ReviewKind = 'product' | 'shop';
+
+export interface ModerationFilters {
+  kind: ReviewKind;
+  status?: ReviewStatus;
+}
+
+type Tx = Prisma.TransactionClient;
+
+type StoredPhoto = { url: string; key: string; derivatives: ImageDerivatives };
+
+type RatedReview = { status: ReviewStatus; rating: number };
+
+interface LockedReview extends RatedReview {
+  id: string;
+  userId: string;
+  targetId: string;
+}
+
+type ReviewUpdateData = {
+  status?: ReviewStatus;
+  moderationNote?: string | null;
+  moderatedById?: string;
+  moderatedAt?: Date;
+  sellerReply?: string | null;
+  sellerRepliedAt?: Date | null;
+};
+
+const REVIEW_TABLES = {
+  product: { review: Prisma.raw('"Review"'), target: Prisma.raw('"productId"'), targetTable: Prisma.raw('"Product"') },
+  shop: { review: Prisma.raw('"ShopReview"'), target: Prisma.raw('"shopId"'), targetTable: Prisma.raw('"Shop"') },
+};
+
+const reviewerSelect = { select: { id: true, firstName: true, lastName: true, avatarUrl: true } };
+
+const reviewSelect = {
+  id: true,
+  productId: true,
+  rating: true,
+  comment: true,
+  photos: true,
+  verifiedPurchase: true,
+  status: true,
+  sellerReply: true,
+  sellerRepliedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  user: reviewerSelect,
+} satisfies Prisma.ReviewSelect;
+
+const shopReviewSelect = {
+  id: true,
+  shopId: true,
+  rating: true,
+  comment: true,
+  status: true,
+  sellerReply: true,
+  sellerRepliedAt: true,
+  createdAt: true,
+  user: reviewerSelect,
+} satisfies Prisma.ShopReviewSelect;
+
+const openReports = { where: { resolvedAt: null } };
+
+/**
+ * Moves the rating of a product or shop by one review without re-reading the
+ * others. The average is recomputed in the same statement, so concurrent
+ * reviews of one product cannot overwrite each other's counts.
+ */
+async function adjustRating(tx: Tx, kind: ReviewKind, targetId: string, ratingChange: number, countChange: number) {
+  if (ratingChange === 0 && countChange === 0) return;
+  await tx.$executeRaw`
+    UPDATE ${REVIEW_TABLES[kind].targetTable}
+    SET "ratingTotal" = "ratingTotal" + ${ratingChange},
+        "ratingCount" = "ratingCount" + ${countChange},
+        "rating" = CASE
+          WHEN "ratingCount" + ${countChange} > 0
+          THEN ("ratingTotal" + ${ratingChange})::DOUBLE PRECISION / ("ratingCount" + ${countChange})
+        END
+    WHERE "id" = ${targetId}`;
+}
+
+// Only published reviews count towards ratings; null is a review that does not exist
+async function moveRating(tx: Tx, kind: ReviewKind, targetId: string, before: RatedReview | null, after: RatedReview | null) {
+  const counted = (review: RatedReview | null) => review?.status === 'PUBLISHED';
+  await adjustRating(
+    tx,
+    kind,
+    targetId,
+    (counted(after) ? after!.rating : 0) - (counted(before) ? before!.rating : 0),
+    Number(counted(after)) - Number(counted(before))
+  );
+}
+
+// Locked so concurrent edits, deletes and moderation apply their rating change on current values
+async function lockReview(tx: Tx, kind: ReviewKind, reviewId: string): Promise<LockedReview> {
+  const { review, target } = REVIEW_TABLES[kind];
+  const [locked] = await tx.$queryRaw<LockedReview[]>`
+    SELECT "id", "userId", ${target} AS "targetId", "rating", "status"::TEXT AS "status"
+    FROM ${review} WHERE "id" = ${reviewId} FOR UPDATE`;
+  if (!locked) throw createError(404, 'Review not found');
+  return locked;
+}
+
+function updateReviewRow(db: Tx | typeof prisma, kind: ReviewKind, reviewId: string, data: ReviewUpdateData) {
+  return kind === 'product'
+    ? db.review.update({ where: { id: reviewId }, data })
+    : db.shopReview.update({ where: { id: reviewId }, data });
+}
+
+// A review with the seller of the product or shop it is about
+async function findReview(kind: ReviewKind, targetId: string, reviewId: string) {
+  if (kind === 'product') {
+    const review = await prisma.review.findFirst({
+      where: { id: reviewId, productId: targetId },
+      select: { id: true, userId: true, status: true, product: { select: { name: true, shop: { select: { sellerId: true } } } } },
+    });
+    if (!review) throw createError(404, 'Review not found');
+    return { id: review.id, userId: review.userId, status: review.status, sellerId: review.product.shop.sellerId, subject: review.product.name };
+  }
+
+  const review = await prisma.shopReview.findFirst({
+    where: { id: reviewId, shopId: targetId },
+    select: { id: true, userId: true, status: true, shop: { select: { name: true, sellerId: true } } },
+  });
+  if (!review) throw createError(404, 'Review not found');
+  return { id: review.id, userId: review.userId, status: review.status, sellerId: review.shop.sellerId, subject: review.shop.name };
+}
+
+async function uploadReviewPhotos(userId: string, photos: Express.Multer.File[]): Promise<StoredPhoto[]> {
+  const uploaded = await Promise.all(
+    photos.map((photo, index) => uploadReviewPhoto(photo.buffer, photo.originalname, photo.mimetype, userId, index))
+  );
+  return uploaded.map((photo) => ({ url: photo.url, key: photo.key, derivatives: photo.derivatives }));
+}
+
+async function removeReviewPhotos(photos: unknown) {
+  const stored = (Array.isArray(photos) ? photos : []) as StoredPhoto[];
+  if (stored.length === 0) return;
+  try {
+    await deleteFiles(stored.flatMap((photo) => [photo.key, ...getDerivativeKeys(photo.derivatives)]));
+  } catch (error) {
+    logger.error('Failed to remove review photos', { error, action: 'review' });
+  }
+}
+
+/**
+ * Published reviews of a public product with its average rating and how many
+ * reviews gave each number of stars.
+ */
+export async function getProductReviews(productId: string, filters: ReviewFilters, page: number, limit: number) {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, status: { in: ['ACTIVE', 'OUT_OF_STOCK'] }, visibility: 'PUBLIC' },
+    select: { id: true, rating: true, ratingCount: true },
+  });
+  if (!product) throw createError(404, 'Product not found');
+
+  const where: Prisma.ReviewWhereInput = {
+    productId,
+    status: 'PUBLISHED',
+    rating: filters.rating,
+    verifiedPurchase: filters.verifiedOnly ? true : undefined,
+  };
+  const [reviews, total, breakdown] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      select: reviewSelect,
+    }),
+    prisma.review.count({ where }),
+    prisma.review.groupBy({ by: ['rating'], where: { productId, status: 'PUBLISHED' }, _count: { _all: true } }),
+  ]);
+
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const row of breakdown) distribution[row.rating] = row._count._all;
+
+  return {
+    reviews,
+    total,
+    summary: { rating: product.rating, ratingCount: product.ratingCount, distribution },
+  };
+}
+
+/**
+ * Reviews are limited to customers who received the product: one of their
+ * shop orders containing it must be DELIVERED. The review is linked to that
+ * order item and flagged as a verified purchase. Text caught by the content
+ * filter is held as PENDING until an admin approves it.
+ */
+export async function createReview(
+  userId: string,
+  productId: string,
+  input: ReviewInput,
+  photos: Express.Multer.File[] = []
+) {
+  const product = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+  if (!product) throw createError(404, 'Product not found');
+
+  const orderItem = await prisma.orderItem.findFirst({
+    where: { productId, order: { userId }, shopOrder: { status: 'DELIVERED' } },
+    orderBy: { order: { createdAt: 'desc' } },
+    select: { id: true },
+  });
+  if (!orderItem) throw createError(403, 'You can review products from your delivered orders only');
+
+  const existing = await prisma.review.findUnique({ where: { userId_productId: { userId, productId } } });
+  if (existing) throw createError(409, 'You have already reviewed this product');
+
+  const holdReason = getHoldReason(input.comment);
+  const status: ReviewStatus = holdReason ? 'PENDING' : 'PUBLISHED';
+  const storedPhotos = await uploadReviewPhotos(userId, photos);
+
+  let review;
+  try {
+    review = await prisma.$transaction(async (tx) => {
+      const created = await tx.review.create({
+        data: {
+          userId,
+          productId,
+          orderItemId: orderItem.id,
+          verifiedPurchase: true,
+          rating: input.rating,
+          comment: input.comment,
+          photos: storedPhotos.length > 0 ? storedPhotos : undefined,
+          status,
+          moderationNote: holdReason,
+        },
+        select: reviewSelect,
+      });
+      await moveRating(tx, 'product', productId, null, { status, rating: input.rating });
+      return created;
+    });
+  } catch (error) {
+    await removeReviewPhotos(storedPhotos);
+    // A concurrent request from the same customer created the review first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw createError(409, 'You have already reviewed this product');
+    }
+    throw error;
+  }
+
+  logger.info(`Review ${review.id} added to product ${productId} as ${status}`, { action: 'review', userId });
+  return review;
+}
+
+// Hidden reviews stay hidden; otherwise a new comment goes through the filter again
+function statusAfterEdit(current: ReviewStatus, comment: string | undefined) {
+  if (current === 'HIDDEN') return { status: current, holdReason: undefined };
+  if (comment === undefined) return { status: current, holdReason: undefined };
+  const holdReason = getHoldReason(comment);
+  return { status: (holdReason ? 'PENDING' : 'PUBLISHED') as ReviewStatus, holdReason };
+}
+
+/**
+ * Changes the rating or comment of the customer's own review. New photos
+ * replace the old ones; removePhotos clears them without uploading others.
+ */
+export async function updateReview(
+  userId: string,
+  productId: string,
+  reviewId: string,
+  input: Partial<ReviewInput> & { removePhotos?: boolean },
+  photos: Express.Multer.File[] = []
+) {
+  const review = await prisma.review.findFirst({ where: { id: reviewId, productId } });
+  if (!review) throw createError(404, 'Review not found');
+  if (review.userId !== userId) throw createError(403, 'You can only edit your own reviews');
+
+  const replacePhotos = photos.length > 0 || input.removePhotos === true;
+  const storedPhotos = await uploadReviewPhotos(userId, photos);
+
+  let updated;
+  try {
+    updated = await prisma.$transaction(async (tx) => {
+      const current = await lockReview(tx, 'product', reviewId);
+      const { status, holdReason } = statusAfterEdit(current.status, input.comment);
+      const rating = input.rating ?? current.rating;
+
+      const result = await tx.review.update({
+        where: { id: reviewId },
+        data: {
+          rating,
+          comment: input.comment,
+          photos: replacePhotos ? (storedPhotos.length > 0 ? storedPhotos : Prisma.DbNull) : undefined,
+          status,
+          moderationNote: holdReason,
+        },
+        select: reviewSelect,
+      });
+      await moveRating(tx, 'product', productId, current, { status, rating });
+      return result;
+    });
+  } catch (error) {
+    await removeReviewPhotos(storedPhotos);
+    throw error;
+  }
+
+  if (replacePhotos) await removeReviewPhotos(review.photos);
+
+  logger.info(`Review ${reviewId} of product ${productId} updated`, { action: 'review', userId });
+  return updated;
+}
+
+// Customers delete their own reviews; admins can remove any
+export async function deleteReview(actor: ReviewActor, productId: string, reviewId: string) {
+  const review = await prisma.review.findFirst({ where: { id: reviewId, productId } });
+  if (!review) throw createError(404, 'Review not found');
+  if (review.userId !== actor.userId && actor.role !== 'ADMIN') {
+    throw createError(403, 'Not authorized to delete this review');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const current = await lockReview(tx, 'product', reviewId);
+    await tx.review.delete({ where: { id: reviewId } });
+    await moveRating(tx, 'product', productId, current, null);
+  });
+
+  await removeReviewPhotos(review.photos);
+  logger.info(`Review ${reviewId} of product ${productId} deleted by ${actor.userId}`, { action: 'review' });
+}
+
+export async function getShopReviews(shopId: string, page: number, limit: number) {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { id: true, rating: true, ratingCount: true } });
+  if (!shop) throw createError(404, 'Shop not found');
+
+  const where: Prisma.ShopReviewWhereInput = { shopId, status: 'PUBLISHED' };
+  const [reviews, total] = await Promise.all([
+    prisma.shopReview.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      select: shopReviewSelect,
+    }),
+    prisma.shopReview.count({ where }),
+  ]);
+
+  return { shop, reviews, total };
+}
+
+export async function createShopReview(userId: string, shopId: string, input: ReviewInput) {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId } });
+  if (!shop) throw createError(404, 'Shop not found');
+  if (shop.status !== 'ACTIVE') throw createError(400, 'Cannot review inactive shop');
+
+  const holdReason = getHoldReason(input.comment);
+  const status: ReviewStatus = holdReason ? 'PENDING' : 'PUBLISHED';
+
+  const review = await prisma.$transaction(async (tx) => {
+    // Serialises reviews of the shop so a customer cannot review it twice at once
+    await tx.$queryRaw`SELECT "id" FROM "Shop" WHERE "id" = ${shopId} FOR UPDATE`;
+    const existing = await tx.shopReview.findFirst({ where: { userId, shopId } });
+    if (existing) throw createError(400, 'You have already reviewed this shop');
+
+    const created = await tx.shopReview.create({
+      data: { userId, shopId, rating: input.rating, comment: input.comment, status, moderationNote: holdReason },
+      select: shopReviewSelect,
+    });
+    await moveRating(tx, 'shop', shopId, null, { status, rating: input.rating });
+    return created;
+  });
+
+  logger.info(`Shop review ${review.id} added to shop ${shopId} as ${status}`, { action: 'review', userId });
+  return review;
+}
+
+export async function deleteShopReview(actor: ReviewActor, shopId: string, reviewId: string) {
+  const review = await prisma.shopReview.findFirst({ where: { id: reviewId, shopId } });
+  if (!review) throw createError(404, 'Review not found');
+  if (review.userId !== actor.userId && actor.role !== 'ADMIN') {
+    throw createError(403, 'Not authorized to delete this review');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const current = await lockReview(tx, 'shop', reviewId);
+    await tx.shopReview.delete({ where: { id: reviewId } });
+    await moveRating(tx, 'shop', shopId, current, null);
+  });
+
+  logger.info(`Shop review ${reviewId} deleted by ${actor.userId}`, { action: 'review' });
+}
+
+// Sends a published review to the moderation queue; each user reports a review once
+export async function reportReview(userId: string, kind: ReviewKind, targetId: string, reviewId: string, reason: string) {
+  const review = await findReview(kind, targetId, reviewId);
+  if (review.status !== 'PUBLISHED') throw createError(404, 'Review not found');
+  if (review.userId === userId) throw createError(400, 'You cannot report your own review');
+
+  try {
+    await prisma.reviewReport.create({
+      data: kind === 'product' ? { reviewId, userId, reason } : { shopReviewId: reviewId, userId, reason },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw createError(409, 'You have already reported this review');
+    }
+    throw error;
+  }
+
+  logger.info(`Review ${reviewId} reported by ${userId}`, { action: 'review' });
+}
+
+async function findSellerReview(userId: string, kind: ReviewKind, targetId: string, reviewId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const review = await findReview(kind, targetId, reviewId);
+  if (review.sellerId !== seller.id) throw createError(403, 'You can only reply to reviews of your own shop');
+
+  return review;
+}
+
+/**
+ * The seller's public answer to a published review. Each review has at most
+ * one reply; posting again replaces it.
+ */
+export async function replyToReview(userId: string, kind: ReviewKind, targetId: string, reviewId: string, reply: string) {
+  const review = await findSellerReview(userId, kind, targetId, reviewId);
+  if (review.status !== 'PUBLISHED') throw createError(409, 'Only published reviews can be replied to');
+
+  const updated = await updateReviewRow(prisma, kind, reviewId, { sellerReply: reply, sellerRepliedAt: new Date() });
+
+  logger.info(`Seller replied to review ${reviewId}`, { action: 'review', userId });
+  await notifyUser(review.userId, 'REVIEW_REPLY', `The seller replied to your review of ${review.subject}`);
+
+  return updated;
+}
+
+export async function deleteReviewReply(userId: string, kind: ReviewKind, targetId: string, reviewId: string) {
+  await findSellerReview(userId, kind, targetId, reviewId);
+
+  await updateReviewRow(prisma, kind, reviewId, { sellerReply: null, sellerRepliedAt: null });
+
+  logger.info(`Seller reply to review ${reviewId} deleted`, { action: 'review', userId });
+}
+
+/**
+ * Reviews waiting for an admin: held by the content filter or reported and
+ * not yet looked at. Pass a status to browse reviews in that state instead.
+ */
+export async function getModerationQueue(filters: ModerationFilters, page: number, limit: number) {
+  const skip = (page - 1) * limit;
+  const queued = filters.status
+    ? { status: filters.status }
+    : { OR: [{ status: 'PENDING' as ReviewStatus }, { reports: { some: { resolvedAt: null } } }] };
+  const reportInclude = {
+    reports: { where: { resolvedAt: null }, select: { id: true, reason: true, userId: true, createdAt: true }, orderBy: { createdAt: 'asc' as const } },
+    _count: { select: { reports: openReports } },
+  };
+
+  if (filters.kind === 'product') {
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where: queued,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: { user: reviewerSelect, product: { select: { id: true, name: true } }, ...reportInclude },
+      }),
+      prisma.review.count({ where: queued }),
+    ]);
+    return { reviews, total };
+  }
+
+  const [reviews, total] = await Promise.all([
+    prisma.shopReview.findMany({
+      where: queued,
+      skip,
+      take: limit,
+      orderBy: { createdAt: 'asc' },
+      include: { user: reviewerSelect, shop: { select: { id: true, name: true, slug: true } }, ...reportInclude },
+    }),
+    prisma.shopReview.count({ where: queued }),
+  ]);
+  return { reviews, total };
+}
+
+/**
+ * Hides a review or publishes it again, which also approves a held review
+ * and dismisses reports against a published one. Open reports are resolved
+ * either way and the rating follows the review in or out of the average.
+ */
+export async function moderateReview(
+  adminId: string,
+  kind: ReviewKind,
+  reviewId: string,
+  action: 'hide' | 'restore',
+  note?: string
+) {
+  const status: ReviewStatus = action === 'hide' ? 'HIDDEN' : 'PUBLISHED';
+
+  const { current, review } = await prisma.$transaction(async (tx) => {
+    const current = await lockReview(tx, kind, reviewId);
+    const review = await updateReviewRow(tx, kind, reviewId, {
+      status,
+      moderationNote: note ?? null,
+      moderatedById: adminId,
+      moderatedAt: new Date(),
+    });
+    await tx.reviewReport.updateMany({
+      where: { ...(kind === 'product' ? { reviewId } : { shopReviewId: reviewId }), resolvedAt: null },
+      data: { resolvedAt: new Date() },
+    });
+    await moveRating(tx, kind, current.targetId, current, { status, rating: current.rating });
+    return { current, review };
+  });
+
+  logger.info(`Review ${reviewId} ${action === 'hide' ? 'hidden' : 'published'} by ${adminId}`, { action: 'review' });
+  if (status !== current.status) {
+    await notifyUser(
+      current.userId,
+      'REVIEW_MODERATION',
+      status === 'HIDDEN'
+        ? `Your review was hidden by a moderator${note ? `: ${note}` : ''}`
+        : 'Your review has been published'
+    );
+  }
+
+  return review;
+}
@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import createError from 'http-errors';
+import type { ShipmentStatus } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { carrierWebhookConfig } from '../config/payment.config.js';
+import { logger } from '../utils/logger.js';
+import { CARRIER_ACTOR, completeDelivery, shipmentInclude } from './order.service.js';
+import type { OrderActor } from './order.service.js';
+
+export const CARRIER_SIGNATURE_HEADER = 'x-carrier-signature';
+
+const SHIPMENT_STATUSES: ShipmentStatus[] = ['IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'FAILED_ATTEMPT', 'RETURNED'];
+
+// Statuses the customer hears about as they happen; delivery has its own notification
+const NOTIFIED_STATUSES: Partial<Record<ShipmentStatus, string>> = {
+  OUT_FOR_DELIVERY: 'is out for delivery',
+  FAILED_ATTEMPT: 'could not be delivered',
+  RETURNED: 'is being returned to the seller',
+};
+
+export interface TrackingEventInput {
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  occurredAt?: Date;
+}
+
+export interface CarrierWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+  rawBody?: Buffer;
+}
+
+export function signCarrierPayload(rawBody: Buffer | string, secret = carrierWebhookConfig.secret): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+function verifyCarrierSignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+  if (!rawBody || !signature || !carrierWebhookConfig.secret) return false;
+
+  const expected = Buffer.from(signCarrierPayload(rawBody), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Adds an event to a shipment's timeline. The shipment takes the status of its
+ * latest event, so late deliveries of older events do not move it back. A
+ * delivery event completes the shop order if it is still marked shipped.
+ */
+async function recordTrackingEvent(
+  shipmentId: string,
+  event: TrackingEventInput & { externalId?: string },
+  source: 'SELLER' | 'CARRIER',
+  actor: OrderActor | typeof CARRIER_ACTOR
+) {
+  const occurredAt = event.occurredAt ?? new Date();
+
+  const result = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "Shipment" WHERE "id" = ${shipmentId} FOR UPDATE`;
+
+    if (event.externalId) {
+      const duplicate = await tx.shipmentEvent.findUnique({
+        where: { shipmentId_externalId: { shipmentId, externalId: event.externalId } },
+      });
+      if (duplicate) return { created: false };
+    }
+
+    await tx.shipmentEvent.create({
+      data: {
+        shipmentId,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt,
+        source,
+        externalId: event.externalId,
+        actorId: actor.userId,
+      },
+    });
+
+    const latest = await tx.shipmentEvent.findFirstOrThrow({
+      where: { shipmentId },
+      orderBy: [{ occurredAt: 'desc' }, { createdAt: 'desc' }],
+    });
+    const shipment = await tx.shipment.update({
+      where: { id: shipmentId },
+      data: {
+        status: latest.status,
+        ...(event.status === 'DELIVERED' && { deliveredAt: occurredAt }),
+      },
+      include: {
+        shopOrder: {
+          select: { id: true, status: true, orderId: true, order: { select: { userId: true } }, shop: { select: { name: true } } },
+        },
+      },
+    });
+    return { created: true, shipment };
+  });
+
+  if (!result.created || !result.shipment) return;
+  const { shipment } = result;
+
+  if (event.status === 'DELIVERED' && shipment.shopOrder.status === 'SHIPPED') {
+    try {
+      await completeDelivery(shipment.shopOrder.id, actor, event.description);
+    } catch (error) {
+      // The seller may have marked it delivered in the meantime
+      logger.warn(`Could not complete delivery of shop order ${shipment.shopOrder.id}`, {
+        action: 'shipment',
+        meta: { error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+    return;
+  }
+
+  const message = NOTIFIED_STATUSES[event.status];
+  if (!message) return;
+  try {
+    await prisma.notification.create({
+      data: {
+        userId: shipment.shopOrder.order.userId,
+        type: 'SHIPMENT',
+        message: `Your order ${shipment.shopOrder.orderId} from ${shipment.shopOrder.shop.name} ${message}`,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send shipment notification', { error, action: 'shipment' });
+  }
+}
+
+function getShipment(shipmentId: string) {
+  return prisma.shipment.findUniqueOrThrow({ where: { id: shipmentId }, ...shipmentInclude });
+}
+
+/**
+ * Tracking update posted by a carrier, signed with the shared secret. The
+ * shipment is found by carrier and tracking number; redelivered events with
+ * the same eventId are ignored.
+ */
+export async function handleCarrierWebhook(request: CarrierWebhookRequest) {
+  const signature = request.headers[CARRIER_SIGNATURE_HEADER];
+  if (!verifyCarrierSignature(request.rawBody, typeof signature === 'string' ? signature : undefined)) {
+    throw createError(401, 'Invalid signature');
+  }
+
+  const payload = (request.body ?? {}) as Record<string, unknown>;
+  const { carrier, trackingNumber, status, eventId, description, location, occurredAt } = payload;
+  if (typeof carrier !== 'string' || typeof trackingNumber !== 'string') {
+    throw createError(400, 'carrier and trackingNumber are required');
+  }
+  if (typeof status !== 'string' || !SHIPMENT_STATUSES.includes(status as ShipmentStatus)) {
+    throw createError(400, `status must be one of ${SHIPMENT_STATUSES.join(', ')}`);
+  }
+  const eventDate = typeof occurredAt === 'string' ? new Date(occurredAt) : undefined;
+  if (eventDate && Number.isNaN(eventDate.getTime())) throw createError(400, 'occurredAt must be a valid date');
+
+  const shipment = await prisma.shipment.findFirst({
+    where: { trackingNumber, carrier: { equals: carrier, mode: 'insensitive' } },
+  });
+  if (!shipment) throw createError(404, 'Shipment not found');
+
+  await recordTrackingEvent(
+    shipment.id,
+    {
+      status: status as ShipmentStatus,
+      description: typeof description === 'string' ? description.slice(0, 500) : undefined,
+      location: typeof location === 'string' ? location.slice(0, 200) : undefined,
+      occurredAt: eventDate,
+      externalId: typeof eventId === 'string' || typeof eventId === 'number' ? String(eventId) : undefined,
+    },
+    'CARRIER',
+    CARRIER_ACTOR
+  );
+
+  logger.info(`Tracking update ${status} received for shipment ${shipment.id}`, {
+    action: 'shipment',
+    meta: { carrier, trackingNumber },
+  });
+  return getShipment(shipment.id);
+}
+
+async function findSellerShipment(userId: string, shipmentId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: { shopOrder: { select: { shop: { select: { sellerId: true } } } } },
+  });
+  if (!shipment || shipment.shopOrder.shop.sellerId !== seller.id) throw createError(404, 'Shipment not found');
+  return shipment;
+}
+
+// Manual timeline entry by the seller, for carriers that do not send updates
+export async function addSellerTrackingEvent(actor: OrderActor, shipmentId: string, event: TrackingEventInput) {
+  const shipment = await findSellerShipment(actor.userId, shipmentId);
+  if (event.occurredAt && event.occurredAt > new Date()) throw createError(400, 'Tracking events cannot be in the future');
+
+  await recordTrackingEvent(shipment.id, event, 'SELLER', actor);
+
+  logger.info(`Tracking event ${event.status} added to shipment ${shipment.id} by user ${actor.userId}`, {
+    action: 'shipment',
+  });
+  return getShipment(shipment.id);
+}
+
+// Visible to the customer of the order, the seller of the shop and administrators
+export async function getShipmentById(actor: OrderActor, shipmentId: string) {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: {
+      ...shipmentInclude.include,
+      shopOrder: {
+        select: {
+          id: true,
+          orderId: true,
+          status: true,
+          order: { select: { userId: true } },
+          shop: { select: { name: true, seller: { select: { userId: true } } } },
+        },
+      },
+    },
+  });
+  if (!shipment) throw createError(404, 'Shipment not found');
+
+  const { shopOrder } = shipment;
+  const allowed =
+    actor.role === 'ADMIN' || shopOrder.order.userId === actor.userId || shopOrder.shop.seller.userId === actor.userId;
+  if (!allowed) throw createError(404, 'Shipment not found');
+
+  return shipment;
+}
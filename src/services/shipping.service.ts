@@ -0,0 +1,282 @@
+import createError from 'http-errors';
+import type { Prisma, ShippingMethod, ShippingRate, ShippingRateType, ShippingZone } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+import { findCart, getCartView } from './cart.service.js';
+
+export interface ShippingRateInput {
+  method: ShippingMethod;
+  rateType?: ShippingRateType;
+  baseFee?: number;
+  perKgFee?: number;
+  freeShippingThreshold?: number | null;
+  minDeliveryDays: number;
+  maxDeliveryDays: number;
+}
+
+export interface ShippingZoneInput {
+  shopId?: string;
+  name: string;
+  cities: string[];
+  isActive?: boolean;
+  rates: ShippingRateInput[];
+}
+
+// What a shop sub-order weighs and costs, as the shipping quote sees it
+export interface ShippingParcel {
+  subtotal: number;
+  weight: number;
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  fee: number;
+  minDeliveryDays: number;
+  maxDeliveryDays: number;
+  zoneId: string;
+  zoneName: string;
+}
+
+const zoneInclude = {
+  rates: { orderBy: { method: 'asc' } },
+} satisfies Prisma.ShippingZoneInclude;
+
+type ZoneWithRates = ShippingZone & { rates: ShippingRate[] };
+
+export function normalizeCity(city: string): string {
+  return city.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+async function findSellerShops(userId: string) {
+  const seller = await prisma.seller.findUnique({ where: { userId }, include: { shops: { select: { id: true } } } });
+  if (!seller) throw createError(403, 'You must be a registered seller');
+  return seller.shops.map((shop) => shop.id);
+}
+
+async function findSellerZone(userId: string, zoneId: string) {
+  const shopIds = await findSellerShops(userId);
+  const zone = await prisma.shippingZone.findFirst({ where: { id: zoneId, shopId: { in: shopIds } }, include: zoneInclude });
+  if (!zone) throw createError(404, 'Shipping zone not found');
+  return zone;
+}
+
+function validateRates(rates: ShippingRateInput[]) {
+  if (new Set(rates.map((rate) => rate.method)).size !== rates.length) {
+    throw createError(400, 'Each delivery option can only be listed once per zone');
+  }
+  for (const rate of rates) {
+    if (rate.minDeliveryDays > rate.maxDeliveryDays) {
+      throw createError(400, 'Minimum delivery days cannot be above the maximum');
+    }
+  }
+}
+
+// A city belongs to one zone of a shop, and a shop has at most one catch-all zone
+async function assertCitiesAvailable(shopId: string, cities: string[], excludeZoneId?: string) {
+  const zones = await prisma.shippingZone.findMany({
+    where: { shopId, ...(excludeZoneId && { id: { not: excludeZoneId } }) },
+    select: { name: true, cities: true },
+  });
+
+  if (cities.length === 0) {
+    const catchAll = zones.find((zone) => zone.cities.length === 0);
+    if (catchAll) throw createError(409, `${catchAll.name} already covers every other city`);
+    return;
+  }
+
+  for (const zone of zones) {
+    const taken = cities.find((city) => zone.cities.includes(city));
+    if (taken) throw createError(409, `${taken} is already part of ${zone.name}`);
+  }
+}
+
+function toRateData(rate: ShippingRateInput) {
+  return {
+    method: rate.method,
+    rateType: rate.rateType ?? 'FLAT',
+    baseFee: rate.baseFee ?? 0,
+    perKgFee: rate.rateType === 'WEIGHT' ? rate.perKgFee ?? 0 : 0,
+    freeShippingThreshold: rate.freeShippingThreshold ?? null,
+    minDeliveryDays: rate.minDeliveryDays,
+    maxDeliveryDays: rate.maxDeliveryDays,
+  };
+}
+
+export async function getMyShippingZones(userId: string) {
+  const shopIds = await findSellerShops(userId);
+  return prisma.shippingZone.findMany({
+    where: { shopId: { in: shopIds } },
+    include: zoneInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function createShippingZone(userId: string, input: ShippingZoneInput) {
+  const shopIds = await findSellerShops(userId);
+  const shopId = input.shopId ?? shopIds[0];
+  if (!shopId || !shopIds.includes(shopId)) throw createError(404, 'Shop not found');
+
+  const cities = [...new Set(input.cities.map(normalizeCity))];
+  validateRates(input.rates);
+  await assertCitiesAvailable(shopId, cities);
+
+  const zone = await prisma.shippingZone.create({
+    data: {
+      shopId,
+      name: input.name,
+      cities,
+      isActive: input.isActive ?? true,
+      rates: { create: input.rates.map(toRateData) },
+    },
+    include: zoneInclude,
+  });
+
+  logger.info(`Shipping zone ${zone.id} created for shop ${shopId} by user ${userId}`, { action: 'shipping' });
+  return zone;
+}
+
+// Rates sent with an update replace all the rates of the zone
+export async function updateShippingZone(userId: string, zoneId: string, input: Partial<ShippingZoneInput>) {
+  const zone = await findSellerZone(userId, zoneId);
+
+  const cities = input.cities ? [...new Set(input.cities.map(normalizeCity))] : undefined;
+  if (cities) await assertCitiesAvailable(zone.shopId, cities, zone.id);
+  if (input.rates) validateRates(input.rates);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (input.rates) {
+      await tx.shippingRate.deleteMany({ where: { zoneId: zone.id } });
+      await tx.shippingRate.createMany({ data: input.rates.map((rate) => ({ zoneId: zone.id, ...toRateData(rate) })) });
+    }
+    return tx.shippingZone.update({
+      where: { id: zone.id },
+      data: { name: input.name, cities, isActive: input.isActive },
+      include: zoneInclude,
+    });
+  });
+
+  logger.info(`Shipping zone ${zone.id} updated by user ${userId}`, { action: 'shipping' });
+  return updated;
+}
+
+// Past orders keep their own copy of the fee and delivery estimate
+export async function deleteShippingZone(userId: string, zoneId: string) {
+  const zone = await findSellerZone(userId, zoneId);
+  await prisma.shippingZone.delete({ where: { id: zone.id } });
+
+  logger.info(`Shipping zone ${zone.id} deleted by user ${userId}`, { action: 'shipping' });
+}
+
+export async function getShopShippingZones(shopId: string) {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { id: true, shippingPolicy: true } });
+  if (!shop) throw createError(404, 'Shop not found');
+
+  const zones = await prisma.shippingZone.findMany({
+    where: { shopId, isActive: true },
+    include: zoneInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+  return { shippingPolicy: shop.shippingPolicy, zones };
+}
+
+function findZoneForCity(zones: ZoneWithRates[], city: string) {
+  const normalized = normalizeCity(city);
+  return (
+    zones.find((zone) => zone.cities.includes(normalized)) ??
+    zones.find((zone) => zone.cities.length === 0)
+  );
+}
+
+// Weight-based rates charge for every started kilogram
+function calculateFee(rate: ShippingRate, parcel: ShippingParcel) {
+  if (rate.freeShippingThreshold !== null && parcel.subtotal >= rate.freeShippingThreshold) return 0;
+  if (rate.rateType === 'FLAT') return rate.baseFee;
+  return roundMoney(rate.baseFee + rate.perKgFee * Math.ceil(parcel.weight));
+}
+
+/**
+ * Lists the delivery options of each shop for a city, cheapest first. Shops
+ * that have not set up any shipping zone get null: they ship as before, at no
+ * charge. An empty list means the shop does not deliver to the city.
+ */
+export async function quoteShipping(city: string, parcels: Map<string, ShippingParcel>) {
+  const zones = await prisma.shippingZone.findMany({
+    where: { shopId: { in: [...parcels.keys()] }, isActive: true },
+    include: zoneInclude,
+  });
+
+  const quotes = new Map<string, ShippingOption[] | null>();
+  for (const [shopId, parcel] of parcels) {
+    const shopZones = zones.filter((zone) => zone.shopId === shopId);
+    if (shopZones.length === 0) {
+      quotes.set(shopId, null);
+      continue;
+    }
+
+    const zone = findZoneForCity(shopZones, city);
+    const options = (zone?.rates ?? [])
+      .map((rate) => ({
+        method: rate.method,
+        fee: calculateFee(rate, parcel),
+        minDeliveryDays: rate.minDeliveryDays,
+        maxDeliveryDays: rate.maxDeliveryDays,
+        zoneId: zone!.id,
+        zoneName: zone!.name,
+      }))
+      .sort((a, b) => a.fee - b.fee || a.maxDeliveryDays - b.maxDeliveryDays);
+    quotes.set(shopId, options);
+  }
+  return quotes;
+}
+
+// The customer's pick, or the cheapest option when they did not choose
+export function selectShippingOption(options: ShippingOption[], shopName: string, method?: ShippingMethod) {
+  if (options.length === 0) throw createError(409, `${shopName} does not deliver to this address`);
+  if (!method) return options[0];
+
+  const option = options.find((candidate) => candidate.method === method);
+  if (!option) throw createError(400, `${shopName} does not offer ${method.toLowerCase()} delivery to this address`);
+  return option;
+}
+
+export function toShippingParcels(
+  items: { shop: { id: string }; quantity: number; weight: number | null; lineTotal: number }[]
+) {
+  const parcels = new Map<string, ShippingParcel>();
+  for (const item of items) {
+    const parcel = parcels.get(item.shop.id) ?? { subtotal: 0, weight: 0 };
+    parcel.subtotal += item.lineTotal;
+    parcel.weight += (item.weight ?? 0) * item.quantity;
+    parcels.set(item.shop.id, parcel);
+  }
+  return parcels;
+}
+
+// Delivery options for the customer's cart to one of their addresses
+export async function getCartShippingQuote(userId: string, addressId: string) {
+  const address = await prisma.address.findFirst({ where: { id: addressId, userId } });
+  if (!address) throw createError(404, 'Address not found');
+
+  const cart = await findCart({ userId });
+  const view = cart ? await getCartView(cart.id) : null;
+  const items = view?.items.filter((item) => item.status === 'AVAILABLE') ?? [];
+  if (items.length === 0) throw createError(400, 'Your cart is empty');
+
+  const parcels = toShippingParcels(items);
+  const quotes = await quoteShipping(address.city, parcels);
+
+  return {
+    city: address.city,
+    shops: [...parcels].map(([shopId, parcel]) => {
+      const options = quotes.get(shopId) ?? null;
+      return {
+        shop: items.find((item) => item.shop.id === shopId)!.shop,
+        subtotal: roundMoney(parcel.subtotal),
+        weight: parcel.weight,
+        shipsToAddress: options === null || options.length > 0,
+        options: options ?? [],
+      };
+    }),
+  };
+}
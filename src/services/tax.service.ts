@@ -0,0 +1,117 @@
+import createError from 'http-errors';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { getAncestors } from '../utils/category.utils.js';
+import { roundMoney } from '../utils/pricing.utils.js';
+
+export interface TaxRateInput {
+  name: string;
+  rate: number;
+  isDefault?: boolean;
+}
+
+export interface TaxBreakdown {
+  rate: number;
+  amount: number;
+}
+
+const taxRateInclude = {
+  categories: { select: { id: true, name: true, slug: true } },
+};
+
+export async function getTaxRates() {
+  return prisma.taxRate.findMany({ include: taxRateInclude, orderBy: [{ isDefault: 'desc' }, { name: 'asc' }] });
+}
+
+// Only one rate is the default; setting a new one unsets the previous
+export async function createTaxRate(adminId: string, input: TaxRateInput) {
+  const taxRate = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) await tx.taxRate.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    return tx.taxRate.create({
+      data: { name: input.name, rate: input.rate, isDefault: input.isDefault ?? false },
+      include: taxRateInclude,
+    });
+  });
+
+  logger.info(`Tax rate ${taxRate.name} (${taxRate.rate}) created by ${adminId}`, { action: 'tax' });
+  return taxRate;
+}
+
+// New rates only apply to orders placed from now on; past orders keep theirs
+export async function updateTaxRate(adminId: string, taxRateId: string, input: Partial<TaxRateInput>) {
+  const existing = await prisma.taxRate.findUnique({ where: { id: taxRateId } });
+  if (!existing) throw createError(404, 'Tax rate not found');
+  if (input.isDefault === false && existing.isDefault) {
+    throw createError(409, 'Make another rate the default instead');
+  }
+
+  const taxRate = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.taxRate.updateMany({ where: { isDefault: true, id: { not: taxRateId } }, data: { isDefault: false } });
+    }
+    return tx.taxRate.update({
+      where: { id: taxRateId },
+      data: { name: input.name, rate: input.rate, isDefault: input.isDefault },
+      include: taxRateInclude,
+    });
+  });
+
+  logger.info(`Tax rate ${taxRate.name} updated by ${adminId}`, { action: 'tax', meta: { rate: taxRate.rate } });
+  return taxRate;
+}
+
+// Categories taxed at the deleted rate fall back to their parent's or the default rate
+export async function deleteTaxRate(adminId: string, taxRateId: string) {
+  const taxRate = await prisma.taxRate.findUnique({ where: { id: taxRateId } });
+  if (!taxRate) throw createError(404, 'Tax rate not found');
+  if (taxRate.isDefault) throw createError(409, 'The default tax rate cannot be deleted');
+
+  await prisma.taxRate.delete({ where: { id: taxRateId } });
+  logger.info(`Tax rate ${taxRate.name} deleted by ${adminId}`, { action: 'tax' });
+}
+
+export async function setCategoryTaxRate(adminId: string, categoryId: string, taxRateId: string | null) {
+  const category = await prisma.category.findUnique({ where: { id: categoryId } });
+  if (!category) throw createError(404, 'Category not found');
+  if (taxRateId) {
+    const taxRate = await prisma.taxRate.findUnique({ where: { id: taxRateId } });
+    if (!taxRate) throw createError(404, 'Tax rate not found');
+  }
+
+  const updated = await prisma.category.update({
+    where: { id: categoryId },
+    data: { taxRateId },
+    select: { id: true, name: true, slug: true, taxRate: true },
+  });
+
+  logger.info(`Category ${categoryId} tax rate set to ${taxRateId ?? 'inherited'} by ${adminId}`, { action: 'tax' });
+  return updated;
+}
+
+/**
+ * Rate for each of the given categories: their own, else that of the nearest
+ * ancestor with one, else the default rate (0 when none is set).
+ */
+export async function resolveTaxRates(categoryIds: string[]): Promise<Map<string, number>> {
+  const [categories, defaultRate] = await Promise.all([
+    prisma.category.findMany({
+      select: { id: true, parentId: true, position: true, taxRate: { select: { rate: true } } },
+    }),
+    prisma.taxRate.findFirst({ where: { isDefault: true } }),
+  ]);
+  const byId = new Map(categories.map((category) => [category.id, category]));
+
+  const rates = new Map<string, number>();
+  for (const categoryId of new Set(categoryIds)) {
+    const lineage = [byId.get(categoryId), ...getAncestors(categories, categoryId).reverse()];
+    const taxed = lineage.find((category) => category?.taxRate);
+    rates.set(categoryId, taxed?.taxRate?.rate ?? defaultRate?.rate ?? 0);
+  }
+  return rates;
+}
+
+// Tax contained in an inclusive price, or added on top of an exclusive one
+export function calculateTax(amount: number, rate: number, inclusive: boolean): TaxBreakdown {
+  if (rate <= 0 || amount <= 0) return { rate, amount: 0 };
+  return { rate, amount: roundMoney(inclusive ? amount - amount / (1 + rate) : amount * rate) };
+}
@@ -0,0 +1,325 @@
+import crypto from 'crypto';
+import createError from 'http-errors';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/db.js';
+import { logger } from '../utils/logger.js';
+import { calculateEffectivePrice } from '../utils/pricing.utils.js';
+import { formatMoney } from '../utils/currency.utils.js';
+import { notifyUser } from './notification.service.js';
+
+export const MAX_WISHLISTS = parseInt(process.env.MAX_WISHLISTS || '20', 10);
+export const MAX_WISHLIST_ITEMS = parseInt(process.env.MAX_WISHLIST_ITEMS || '200', 10);
+
+const SHARE_BASE_URL = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/wishlists/shared`;
+
+export interface WishlistInput {
+  name: string;
+  isPublic?: boolean;
+}
+
+export interface WishlistItemInput {
+  productId: string;
+  variantId?: string;
+}
+
+const PUBLIC_PRODUCT: Prisma.ProductWhereInput = { status: { in: ['ACTIVE', 'OUT_OF_STOCK'] }, visibility: 'PUBLIC' };
+
+const wishlistItemInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      visibility: true,
+      basePrice: true,
+      discount: true,
+      effectivePrice: true,
+      rating: true,
+      ratingCount: true,
+      shop: { select: { id: true, name: true, slug: true, currency: true } },
+      images: { where: { isPrimary: true }, select: { imageUrl: true, derivatives: true }, take: 1 },
+    },
+  },
+  productVariant: { select: { id: true, sku: true, price: true, stock: true, attributes: true, archivedAt: true } },
+} satisfies Prisma.WishlistItemInclude;
+
+type WishlistItemWithProduct = Prisma.WishlistItemGetPayload<{ include: typeof wishlistItemInclude }>;
+
+function generateShareToken() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+function toWishlistSummary(wishlist: { id: string; name: string; isPublic: boolean; shareToken: string | null; createdAt: Date; updatedAt: Date }) {
+  const { shareToken, ...rest } = wishlist;
+  return { ...rest, shareUrl: shareToken ? `${SHARE_BASE_URL}/${shareToken}` : null };
+}
+
+// Current price and availability; products hidden or unpublished since they were saved, and archived variants, show as unavailable
+function toWishlistItem(item: WishlistItemWithProduct) {
+  const { product, productVariant } = item;
+  const available = product.visibility === 'PUBLIC' && product.status !== 'DRAFT' && !productVariant?.archivedAt;
+  const price = productVariant ? calculateEffectivePrice(productVariant.price, product.discount) : product.effectivePrice;
+  const inStock = available && (productVariant ? productVariant.stock > 0 : product.status === 'ACTIVE');
+  const { status, visibility, ...productInfo } = product;
+
+  return {
+    id: item.id,
+    product: productInfo,
+    variant: productVariant,
+    price,
+    currency: product.shop.currency,
+    available,
+    inStock,
+    createdAt: item.createdAt,
+  };
+}
+
+async function findMyWishlist(userId: string, wishlistId: string) {
+  const wishlist = await prisma.wishlist.findFirst({ where: { id: wishlistId, userId } });
+  if (!wishlist) throw createError(404, 'Wishlist not found');
+  return wishlist;
+}
+
+export async function getMyWishlists(userId: string) {
+  const wishlists = await prisma.wishlist.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    include: { _count: { select: { items: true } } },
+  });
+  return wishlists.map(({ _count, ...wishlist }) => ({ ...toWishlistSummary(wishlist), itemCount: _count.items }));
+}
+
+export async function getMyWishlist(userId: string, wishlistId: string) {
+  const wishlist = await findMyWishlist(userId, wishlistId);
+  const items = await prisma.wishlistItem.findMany({
+    where: { wishlistId },
+    orderBy: { createdAt: 'desc' },
+    include: wishlistItemInclude,
+  });
+  return { ...toWishlistSummary(wishlist), items: items.map(toWishlistItem) };
+}
+
+function isDuplicateName(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export async function createWishlist(userId: string, input: WishlistInput) {
+  const count = await prisma.wishlist.count({ where: { userId } });
+  if (count >= MAX_WISHLISTS) throw createError(400, `You can have at most ${MAX_WISHLISTS} lists`);
+
+  try {
+    const wishlist = await prisma.wishlist.create({
+      data: {
+        userId,
+        name: input.name,
+        isPublic: input.isPublic ?? false,
+        shareToken: input.isPublic ? generateShareToken() : null,
+      },
+    });
+    logger.info(`Wishlist ${wishlist.id} created`, { action: 'wishlist', userId });
+    return toWishlistSummary(wishlist);
+  } catch (error) {
+    if (isDuplicateName(error)) throw createError(409, `You already have a list named ${input.name}`);
+    throw error;
+  }
+}
+
+/**
+ * Renames a list or changes who can see it. Making a list private drops its
+ * share token, so links handed out before stop working; sharing it again
+ * gives a new link.
+ */
+export async function updateWishlist(userId: string, wishlistId: string, input: Partial<WishlistInput>) {
+  const wishlist = await findMyWishlist(userId, wishlistId);
+
+  let shareToken = wishlist.shareToken;
+  if (input.isPublic === true && !shareToken) shareToken = generateShareToken();
+  if (input.isPublic === false) shareToken = null;
+
+  try {
+    const updated = await prisma.wishlist.update({
+      where: { id: wishlist.id },
+      data: { name: input.name, isPublic: input.isPublic, shareToken },
+    });
+    return toWishlistSummary(updated);
+  } catch (error) {
+    if (isDuplicateName(error)) throw createError(409, `You already have a list named ${input.name}`);
+    throw error;
+  }
+}
+
+export async function deleteWishlist(userId: string, wishlistId: string) {
+  const wishlist = await findMyWishlist(userId, wishlistId);
+  await prisma.wishlist.delete({ where: { id: wishlist.id } });
+  logger.info(`Wishlist ${wishlist.id} deleted`, { action: 'wishlist', userId });
+}
+
+/**
+ * Saves a product, or one variant of it, to a list. The current price is
+ * remembered so the customer can be told when it drops.
+ */
+export async function addWishlistItem(userId: string, wishlistId: string, input: WishlistItemInput) {
+  const wishlist = await findMyWishlist(userId, wishlistId);
+
+  const product = await prisma.product.findFirst({
+    where: { id: input.productId, ...PUBLIC_PRODUCT },
+    select: { id: true, discount: true, effectivePrice: true },
+  });
+  if (!product) throw createError(404, 'Product not found');
+
+  let lastPrice = product.effectivePrice;
+  if (input.variantId) {
+    const variant = await prisma.productVariant.findFirst({ where: { id: input.variantId, productId: product.id, archivedAt: null } });
+    if (!variant) throw createError(404, 'Variant not found');
+    lastPrice = calculateEffectivePrice(variant.price, product.discount);
+  }
+
+  const itemCount = await prisma.wishlistItem.count({ where: { wishlistId } });
+  if (itemCount >= MAX_WISHLIST_ITEMS) throw createError(400, `A list can hold at most ${MAX_WISHLIST_ITEMS} items`);
+
+  try {
+    await prisma.wishlistItem.create({
+      data: { wishlistId: wishlist.id, productId: product.id, productVariantId: input.variantId ?? null, lastPrice },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw createError(409, 'This item is already in the list');
+    }
+    throw error;
+  }
+
+  await prisma.wishlist.update({ where: { id: wishlist.id }, data: { updatedAt: new Date() } });
+  return getMyWishlist(userId, wishlist.id);
+}
+
+export async function removeWishlistItem(userId: string, wishlistId: string, itemId: string) {
+  const wishlist = await findMyWishlist(userId, wishlistId);
+
+  const { count } = await prisma.wishlistItem.deleteMany({ where: { id: itemId, wishlistId: wishlist.id } });
+  if (count === 0) throw createError(404, 'Wishlist item not found');
+
+  return getMyWishlist(userId, wishlist.id);
+}
+
+// Anyone with the link sees the list's name, its owner's first name and the products still on sale
+export async function getSharedWishlist(shareToken: string) {
+  const wishlist = await prisma.wishlist.findFirst({
+    where: { shareToken, isPublic: true },
+    include: { user: { select: { firstName: true } } },
+  });
+  if (!wishlist) throw createError(404, 'Wishlist not found');
+
+  const items = await prisma.wishlistItem.findMany({
+    where: { wishlistId: wishlist.id, product: PUBLIC_PRODUCT },
+    orderBy: { createdAt: 'desc' },
+    include: wishlistItemInclude,
+  });
+
+  return {
+    name: wishlist.name,
+    owner: { firstName: wishlist.user.firstName },
+    updatedAt: wishlist.updatedAt,
+    items: items.map(toWishlistItem),
+  };
+}
+
+/**
+ * Tells customers who saved a product when its price went below the one they
+ * last saw. Run after a seller changes the product's price, discount or
+ * variant prices; a customer with the item in several lists hears once.
+ */
+export async function notifyWishlistPriceDrops(productId: string) {
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, ...PUBLIC_PRODUCT },
+      select: { name: true, discount: true, effectivePrice: true, shop: { select: { currency: true } } },
+    });
+    if (!product) return;
+
+    const items = await prisma.wishlistItem.findMany({
+      where: { productId },
+      select: { id: true, lastPrice: true, productVariant: { select: { sku: true, price: true } }, wishlist: { select: { userId: true } } },
+    });
+
+    const notified = new Set<string>();
+    for (const item of items) {
+      const price = item.productVariant
+        ? calculateEffectivePrice(item.productVariant.price, product.discount)
+        : product.effectivePrice;
+      if (price === item.lastPrice) continue;
+
+      // Guarded on the old price so concurrent runs cannot announce the same drop twice
+      const { count } = await prisma.wishlistItem.updateMany({
+        where: { id: item.id, lastPrice: item.lastPrice },
+        data: { lastPrice: price },
+      });
+      if (count === 0 || price > item.lastPrice) continue;
+
+      const sku = item.productVariant?.sku;
+      const key = `${item.wishlist.userId}:${sku ?? ''}`;
+      if (notified.has(key)) continue;
+      notified.add(key);
+
+      await notifyUser(
+        item.wishlist.userId,
+        'WISHLIST_PRICE_DROP',
+        `${product.name}${sku ? ` (${sku})` : ''} from your wishlist dropped to ${formatMoney(price, product.shop.currency)}`
+      );
+    }
+    if (notified.size > 0) logger.info(`Price drop sent to ${notified.size} wishlist(s) for product ${productId}`, { action: 'wishlist' });
+  } catch (error) {
+    logger.error(`Failed to process wishlist price drops for product ${productId}`, { error, action: 'wishlist' });
+  }
+}
+
+/**
+ * Tells customers that saved items are available again. Takes the variants
+ * whose available stock just went from none to some: saved variants are
+ * announced directly, saved products only when no other variant had stock.
+ */
+export async function notifyWishlistRestock(variantIds: string[]) {
+  if (variantIds.length === 0) return;
+  try {
+    const variants = await prisma.productVariant.findMany({
+      where: { id: { in: variantIds }, archivedAt: null, product: PUBLIC_PRODUCT },
+      select: { id: true, productId: true, product: { select: { name: true } } },
+    });
+
+    const byProduct = new Map<string, { name: string; variantIds: string[] }>();
+    for (const variant of variants) {
+      const entry = byProduct.get(variant.productId) ?? { name: variant.product.name, variantIds: [] };
+      entry.variantIds.push(variant.id);
+      byProduct.set(variant.productId, entry);
+    }
+
+    for (const [productId, { name, variantIds: restocked }] of byProduct) {
+      const alreadyAvailable = await prisma.productVariant.count({
+        where: { productId, id: { notIn: restocked }, archivedAt: null, stock: { gt: 0 } },
+      });
+      const items = await prisma.wishlistItem.findMany({
+        where: {
+          productId,
+          OR: [{ productVariantId: { in: restocked } }, ...(alreadyAvailable === 0 ? [{ productVariantId: null }] : [])],
+        },
+        select: { productVariant: { select: { sku: true } }, wishlist: { select: { userId: true } } },
+      });
+
+      const notified = new Set<string>();
+      for (const item of items) {
+        const sku = item.productVariant?.sku;
+        const key = `${item.wishlist.userId}:${sku ?? ''}`;
+        if (notified.has(key)) continue;
+        notified.add(key);
+
+        await notifyUser(
+          item.wishlist.userId,
+          'WISHLIST_BACK_IN_STOCK',
+          `${name}${sku ? ` (${sku})` : ''} from your wishlist is back in stock`
+        );
+      }
+      if (notified.size > 0) logger.info(`Back in stock sent to ${notified.size} wishlist(s) for product ${productId}`, { action: 'wishlist' });
+    }
+  } catch (error) {
+    logger.error('Failed to process wishlist restock notifications', { error, action: 'wishlist' });
+  }
+}
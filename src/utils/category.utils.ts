@@ -0,0 +1,56 @@
+export interface CategoryNode {
+  id: string;
+  parentId: string | null;
+  position: number;
+  [key: string]: any;
+}
+
+export type CategoryTreeNode<T extends CategoryNode> = T & { children: CategoryTreeNode<T>[] };
+
+export function buildCategoryTree<T extends CategoryNode>(categories: T[]): CategoryTreeNode<T>[] {
+  const nodes = new Map<string, CategoryTreeNode<T>>();
+  categories.forEach((category) => nodes.set(category.id, { ...category, children: [] }));
+
+  const roots: CategoryTreeNode<T>[] = [];
+  nodes.forEach((node) => {
+    if (!node.parentId) {
+      roots.push(node);
+      return;
+    }
+    // Children of a parent missing from the list (e.g. disabled) are dropped with it
+    nodes.get(node.parentId)?.children.push(node);
+  });
+
+  const sortNodes = (list: CategoryTreeNode<T>[]) => {
+    list.sort((a, b) => a.position - b.position);
+    list.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+export function collectDescendantIds(categories: CategoryNode[], rootId: string): string[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter((category) => category.parentId === ids[i])
+      .forEach((category) => ids.push(category.id));
+  }
+  return ids;
+}
+
+export function getAncestors<T extends CategoryNode>(categories: T[], categoryId: string): T[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const ancestors: T[] = [];
+  let current = byId.get(categoryId);
+
+  while (current?.parentId) {
+    const parent = byId.get(current.parentId);
+    if (!parent || ancestors.includes(parent)) break;
+    ancestors.unshift(parent);
+    current = parent;
+  }
+
+  return ancestors;
+}
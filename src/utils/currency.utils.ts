@@ -0,0 +1,44 @@
+// Digits after the decimal point of each supported currency (ISO 4217 minor units)
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  RWF: 0,
+  USD: 2,
+  EUR: 2,
+  KES: 2,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_DECIMALS);
+
+export function isSupportedCurrency(currency: string): boolean {
+  return currency in CURRENCY_DECIMALS;
+}
+
+// Amounts are stored in minor units: 1250 USD is $12.50, 1500 RWF is RWF 1,500
+export function toMajorUnits(amount: number, currency: string): number {
+  return amount / 10 ** (CURRENCY_DECIMALS[currency] ?? 0);
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** (CURRENCY_DECIMALS[currency] ?? 0));
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  const decimals = CURRENCY_DECIMALS[currency] ?? 0;
+  const value = toMajorUnits(amount, currency).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+  return `${value} ${currency}`;
+}
+
+/**
+ * Converts an amount between currencies given each one's rate against the
+ * platform currency (which has rate 1). Null when either rate is unknown.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: Map<string, number>): number | null {
+  if (from === to) return amount;
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (!fromRate || !toRate) return null;
+
+  return toMinorUnits((toMajorUnits(amount, from) / fromRate) * toRate, to);
+}
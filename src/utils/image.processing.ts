@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import createError from 'http-errors';
+import { imageConfig } from '../config/image.config.js';
+import type { DerivativeSize } from '../config/image.config.js';
+
+// Formats re-encoded to drop their metadata, GIF and SVG originals are kept as uploaded
+const REENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Type aliases rather than interfaces so they stay assignable to Prisma's JSON input type
+export type ImageDerivative = {
+  url: string;
+  key: string;
+  width: number;
+  height: number;
+};
+
+export type ImageDerivatives = Partial<Record<DerivativeSize['name'], ImageDerivative>>;
+
+export interface PreparedImage {
+  original: { buffer: Buffer; width: number; height: number };
+  derivatives: { name: DerivativeSize['name']; buffer: Buffer; width: number; height: number }[];
+}
+
+// Dimensions as displayed, after applying the EXIF orientation
+export async function getImageDimensions(buffer: Buffer): Promise<{ width: number; height: number }> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw createError(400, 'File is not a valid image');
+  }
+
+  // Orientations 5-8 swap width and height once the image is rotated upright
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    width: (rotated ? metadata.height : metadata.width) ?? 0,
+    height: (rotated ? metadata.width : metadata.height) ?? 0,
+  };
+}
+
+/**
+ * Auto-orients the upload, strips EXIF/GPS metadata and renders WebP
+ * derivatives at the given widths. Images are never enlarged.
+ */
+export async function prepareImage(buffer: Buffer, mimeType: string, sizes: DerivativeSize[]): Promise<PreparedImage> {
+  const { width, height } = await getImageDimensions(buffer);
+
+  // sharp drops metadata on output unless withMetadata() is called
+  const originalBuffer = REENCODABLE_TYPES.includes(mimeType)
+    ? await sharp(buffer).rotate().toBuffer()
+    : buffer;
+
+  const derivatives = await Promise.all(
+    sizes.map(async (size) => {
+      const { data, info } = await sharp(buffer)
+        .rotate()
+        .resize({ width: size.width, withoutEnlargement: true })
+        .webp({ quality: imageConfig.webpQuality })
+        .toBuffer({ resolveWithObject: true });
+      return { name: size.name, buffer: data, width: info.width, height: info.height };
+    })
+  );
+
+  return { original: { buffer: originalBuffer, width, height }, derivatives };
+}
+
+export function getDerivativeKeys(derivatives: unknown): string[] {
+  if (!derivatives || typeof derivatives !== 'object') return [];
+  return Object.values(derivatives as ImageDerivatives)
+    .map((derivative) => derivative?.key)
+    .filter((key): key is string => !!key);
+}
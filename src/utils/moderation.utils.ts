@@ -0,0 +1,23 @@
+import { moderationConfig } from '../config/moderation.config.js';
+
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|info|biz|io|co|rw|me|ly|xyz|shop)\b/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, with common endings, so "shitake" or "Dickens" are not caught
+const blockedWordsPattern = moderationConfig.blockedWords.length
+  ? new RegExp(`\\b(?:${moderationConfig.blockedWords.map(escapeRegExp).join('|')})(?:s|es|ed|er|ers|ing)?\\b`, 'i')
+  : null;
+
+/**
+ * Why a review text should wait for an admin before it is published, or null
+ * when it looks fine. A basic filter: anything it misses can still be reported.
+ */
+export function getHoldReason(text: string | null | undefined): string | null {
+  if (!text) return null;
+  if (blockedWordsPattern?.test(text)) return 'Contains offensive language';
+  if (moderationConfig.holdLinks && LINK_PATTERN.test(text)) return 'Contains a link';
+  return null;
+}
@@ -0,0 +1,35 @@
+import createError from 'http-errors';
+import type { OrderStatus } from '@prisma/client';
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+const FULFILMENT_ORDER: OrderStatus[] = ['PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED'];
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw createError(409, `Cannot change an order from ${from} to ${to}`);
+  }
+}
+
+/**
+ * Customer-facing status of an order from the statuses of its shop orders:
+ * the order is only as far along as its least advanced non-cancelled part.
+ */
+export function deriveOrderStatus(statuses: OrderStatus[]): OrderStatus {
+  const active = statuses.filter((status) => status !== 'CANCELLED');
+  if (active.length === 0) return 'CANCELLED';
+
+  return active.reduce((least, status) =>
+    FULFILMENT_ORDER.indexOf(status) < FULFILMENT_ORDER.indexOf(least) ? status : least
+  );
+}
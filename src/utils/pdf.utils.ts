@@ -0,0 +1,115 @@
+/**
+ * Minimal PDF writer for generated documents such as invoices: text in the
+ * standard Helvetica fonts and straight rules on A4 pages. Coordinates are in
+ * points from the top-left corner of the page.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Glyph widths of Helvetica for characters 32 to 126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+// The standard fonts only cover Latin-1; anything else is printed as "?"
+function toLatin1(text: string): string {
+  return text.replace(/[^\x20-\xff]/g, (char) => (char === '\t' ? ' ' : '?'));
+}
+
+function escapeText(text: string): string {
+  return toLatin1(text).replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+// Bold glyphs are a little wider; close enough for aligning and trimming text
+export function measureText(text: string, size = 10, bold = false): number {
+  const width = [...toLatin1(text)].reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    return total + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// Shortens text with an ellipsis so it fits in the given width
+export function fitText(text: string, maxWidth: number, size = 10, bold = false): string {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const left = align === 'right' ? x - measureText(value, size, bold) : x;
+    const font = bold ? 'F2' : 'F1';
+    this.current.push(`BT /${font} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(value)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current.push(`${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`);
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Everything is Latin-1, so string lengths are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,8 @@
+export function calculateEffectivePrice(price: number, discount?: number | null): number {
+  return Math.max(0, price - (discount ?? 0));
+}
+
+// Amounts are whole minor units of their currency, so ledger lines add up to the payout total
+export function roundMoney(amount: number): number {
+  return Math.round(amount);
+}
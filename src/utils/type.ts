@@ -9,6 +9,16 @@ export type ProductStatus = $Enums.ProductStatus;
 export type ProductVisibility = $Enums.ProductVisibility;
 export type OrderStatus = $Enums.OrderStatus;
 export type PaymentStatus = $Enums.PaymentStatus;
+export type ReturnRequestStatus = $Enums.ReturnRequestStatus;
+export type PayoutStatus = $Enums.PayoutStatus;
+export type LedgerEntryType = $Enums.LedgerEntryType;
+export type CouponType = $Enums.CouponType;
+export type CouponScope = $Enums.CouponScope;
+export type ShippingMethod = $Enums.ShippingMethod;
+export type ShippingRateType = $Enums.ShippingRateType;
+export type ShipmentStatus = $Enums.ShipmentStatus;
+export type TrackingEventSource = $Enums.TrackingEventSource;
+export type ReviewStatus = $Enums.ReviewStatus;
 export type SubscriptionStatus = $Enums.SubscriptionStatus;
 export type AdStatus = $Enums.AdStatus;
 export type SellerApplicationStatus = $Enums.SellerApplicationStatus;
@@ -22,6 +32,16 @@ export const ProductStatus = $Enums.ProductStatus;
 export const ProductVisibility = $Enums.ProductVisibility;
 export const OrderStatus = $Enums.OrderStatus;
 export const PaymentStatus = $Enums.PaymentStatus;
+export const ReturnRequestStatus = $Enums.ReturnRequestStatus;
+export const PayoutStatus = $Enums.PayoutStatus;
+export const LedgerEntryType = $Enums.LedgerEntryType;
+export const CouponType = $Enums.CouponType;
+export const CouponScope = $Enums.CouponScope;
+export const ShippingMethod = $Enums.ShippingMethod;
+export const ShippingRateType = $Enums.ShippingRateType;
+export const ShipmentStatus = $Enums.ShipmentStatus;
+export const TrackingEventSource = $Enums.TrackingEventSource;
+export const ReviewStatus = $Enums.ReviewStatus;
 export const SubscriptionStatus = $Enums.SubscriptionStatus;
 export const AdStatus = $Enums.AdStatus;
 export const SellerApplicationStatus = $Enums.SellerApplicationStatus;
@@ -123,6 +143,7 @@ export interface SearchParams extends PaginationParams {
 
 export interface ProductFilters {
   categoryId?: string;
+  categoryIds?: string[];
   shopId?: string;
   status?: ProductStatus;
   visibility?: ProductVisibility;
@@ -151,6 +172,14 @@ export interface CreateProductVariantRequest {
   attributes?: Record<string, string>;
 }
 
+export interface BulkUpdateVariantItem {
+  id: string;
+  sku?: string;
+  price?: number;
+  stock?: number;
+  weight?: number | null;
+}
+
 export interface ProductVariantResponse {
   id: string;
   productId: string;
@@ -178,6 +207,7 @@ export interface CreateShopRequest {
   phone?: string;
   email?: string;
   address?: string;
+  currency?: string;
   logoUrl?: string;
   bannerUrl?: string;
 }
@@ -192,17 +222,16 @@ export interface OrderFilters {
   endDate?: Date;
 }
 
-export interface CreateOrderRequest {
-  userId: string;
-  items: CreateOrderItemRequest[];
-  shippingAddress: AddressRequest;
+export interface CheckoutRequest {
+  addressId: string;
+  couponCode?: string;
+  shipping?: { shopId: string; method: ShippingMethod }[];
+  displayCurrency?: string;
 }
 
-export interface CreateOrderItemRequest {
-  productId: string;
-  variantId?: string;
-  quantity: number;
-  price: number;
+export interface ShipOrderRequest {
+  carrier: string;
+  trackingNumber: string;
 }
 
 export interface AddressRequest {
@@ -212,23 +241,104 @@ export interface AddressRequest {
   isDefault?: boolean;
 }
 
+// Copy of the delivery address kept on an order at checkout
+export type ShippingAddress = Pick<AddressRequest, 'address' | 'city' | 'street'>;
+
 export interface OrderItemResponse {
   id: string;
   orderId: string;
+  shopOrderId: string | null;
   productId: string;
+  productVariantId: string | null;
+  productName: string;
+  variantSku: string | null;
+  variantAttributes: Record<string, string> | null;
   quantity: number;
   price: number;
+  discount: number;
+  lineTotal: number;
+  taxRate: number;
+  taxAmount: number;
   product?: ProductBasicResponse;
 }
 
+export interface ShopOrderResponse {
+  id: string;
+  orderId: string;
+  shopId: string;
+  status: OrderStatus;
+  subtotal: number;
+  discount: number;
+  shippingFee: number;
+  taxAmount: number;
+  taxInclusive: boolean;
+  total: number;
+  shippingMethod: ShippingMethod | null;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  createdAt: Date;
+  items?: OrderItemResponse[];
+  transitions?: OrderStatusTransitionResponse[];
+  shipment?: ShipmentResponse | null;
+}
+
+export interface ShipmentEventResponse {
+  id: string;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  occurredAt: Date;
+  source: TrackingEventSource;
+}
+
+export interface ShipmentResponse {
+  id: string;
+  shopOrderId: string;
+  carrier: string;
+  trackingNumber: string;
+  status: ShipmentStatus;
+  deliveredAt: Date | null;
+  events: ShipmentEventResponse[];
+}
+
+export interface TrackingEventRequest {
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  occurredAt?: Date;
+}
+
+export interface OrderStatusTransitionResponse {
+  id: string;
+  shopOrderId: string;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  actorId: string | null;
+  actorRole: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
 export interface OrderResponse {
   id: string;
   userId: string;
   status: OrderStatus;
+  subtotal: number;
+  discount: number;
+  shippingFee: number;
+  taxAmount: number;
   total: number;
+  currency: string;
+  displayCurrency: string | null;
+  exchangeRate: number | null;
+  couponCode: string | null;
   paymentStatus: PaymentStatus;
+  shippingAddress: AddressRequest | null;
   createdAt: Date;
   items?: OrderItemResponse[];
+  shopOrders?: ShopOrderResponse[];
 }
 
 export interface ProductImageResponse {
@@ -245,11 +355,14 @@ export interface ProductBasicResponse {
   images?: ProductImageResponse[];
 }
 
-export interface PaymentRequest {
-  orderId: string;
-  method: string;
+export interface InitiatePaymentRequest {
   provider: string;
-  amount: number;
+  phone?: string;
+}
+
+export interface ResolveRefundRequest {
+  status: 'COMPLETED' | 'FAILED';
+  reference?: string;
 }
 
 export interface PaymentResponse {
@@ -258,10 +371,151 @@ export interface PaymentResponse {
   method: string;
   provider: string;
   amount: number;
+  refundedAmount: number;
   status: PaymentStatus;
   createdAt: Date;
 }
 
+export interface SellerLedgerEntryResponse {
+  id: string;
+  type: LedgerEntryType;
+  reference: string;
+  grossAmount: number;
+  commissionRate: number;
+  commissionAmount: number;
+  netAmount: number;
+  period: string;
+  createdAt: Date;
+}
+
+export interface SellerPayoutResponse {
+  id: string;
+  sellerId: string;
+  period: string;
+  grossAmount: number;
+  commissionAmount: number;
+  amount: number;
+  status: PayoutStatus;
+  paidAt?: Date;
+  paymentReference?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface MarkPayoutPaidRequest {
+  reference?: string;
+  note?: string;
+}
+
+export interface TaxRateRequest {
+  name: string;
+  rate: number;
+  isDefault?: boolean;
+}
+
+export interface ExchangeRateRequest {
+  rate: number;
+}
+
+export interface TaxRateResponse {
+  id: string;
+  name: string;
+  rate: number;
+  isDefault: boolean;
+  categories?: { id: string; name: string; slug: string }[];
+}
+
+export interface CouponRequest {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value?: number;
+  maxDiscount?: number;
+  scope?: CouponScope;
+  shopId?: string;
+  categoryId?: string;
+  productIds?: string[];
+  minOrderValue?: number;
+  usageLimit?: number;
+  perUserLimit?: number;
+  startsAt?: string;
+  endsAt?: string;
+  isActive?: boolean;
+}
+
+export interface CouponResponse {
+  id: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: number;
+  maxDiscount: number | null;
+  scope: CouponScope;
+  shopId: string | null;
+  categoryId: string | null;
+  minOrderValue: number | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usedCount: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface CouponPreviewResponse {
+  code: string;
+  type: CouponType;
+  subtotal: number;
+  discount: number;
+  freeShipping: boolean;
+  total: number;
+}
+
+export interface CreateReviewRequest {
+  rating: number;
+  comment?: string;
+}
+
+export interface UpdateReviewRequest extends Partial<CreateReviewRequest> {
+  removePhotos?: boolean;
+}
+
+export interface CreateReturnRequest {
+  reason: string;
+  items: { orderItemId: string; quantity: number }[];
+}
+
+export interface ApproveReturnRequest {
+  refundAmount?: number;
+  note?: string;
+}
+
+export interface ReturnItemResponse {
+  id: string;
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface ReturnRequestResponse {
+  id: string;
+  orderId: string;
+  shopOrderId: string;
+  userId: string;
+  status: ReturnRequestStatus;
+  reason: string;
+  photos?: { url: string; key: string; derivatives: Record<string, unknown> }[];
+  sellerNote?: string;
+  requestedAmount: number;
+  refundAmount?: number;
+  refundStatus?: PaymentStatus;
+  refundReference?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+  items?: ReturnItemResponse[];
+}
+
 export interface CreateReviewRequest {
   userId: string;
   productId: string;
@@ -283,6 +537,16 @@ export interface ReviewResponse {
   };
 }
 
+export interface WishlistRequest {
+  name: string;
+  isPublic?: boolean;
+}
+
+export interface WishlistItemRequest {
+  productId: string;
+  variantId?: string;
+}
+
 export interface NotificationResponse {
   id: string;
   userId: string;
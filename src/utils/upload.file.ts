@@ -3,6 +3,10 @@ import type { UploadOptions, UploadResult } from '../services/r2.service.js';
 import { logger } from './logger.js';
 import createError from 'http-errors';
 import crypto from 'crypto';
+import { imageConfig } from '../config/image.config.js';
+import type { DerivativeSize } from '../config/image.config.js';
+import { getImageDimensions, prepareImage } from './image.processing.js';
+import type { ImageDerivatives } from './image.processing.js';
 
 export const SUPPORTED_IMAGE_TYPES = [
   'image/jpeg',
@@ -27,6 +31,14 @@ export interface ImageDimensions {
   maxHeight?: number;
   minWidth?: number;
   minHeight?: number;
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+}
+
+export interface ImageUploadResult extends UploadResult {
+  width: number;
+  height: number;
+  derivatives: ImageDerivatives;
 }
 
 export function sanitizeFilename(filename: string): string {
@@ -87,7 +99,7 @@ export function formatFileSize(bytes: number): string {
 export function validateImageDimensions(
   dimensions: ImageDimensions
 ): { valid: boolean; error?: string } {
-  const { width, height, maxWidth, maxHeight, minWidth, minHeight } = dimensions;
+  const { width, height, maxWidth, maxHeight, minWidth, minHeight, minAspectRatio, maxAspectRatio } = dimensions;
   
   if (maxWidth && width > maxWidth) {
     return { valid: false, error: `Image width (${width}px) exceeds maximum allowed (${maxWidth}px)` };
@@ -104,6 +116,16 @@ export function validateImageDimensions(
   if (minHeight && height < minHeight) {
     return { valid: false, error: `Image height (${height}px) is below minimum required (${minHeight}px)` };
   }
+
+  const aspectRatio = height > 0 ? width / height : 0;
+
+  if (minAspectRatio && aspectRatio < minAspectRatio) {
+    return { valid: false, error: `Image proportions (${aspectRatio.toFixed(2)}:1) are narrower than the minimum allowed (${minAspectRatio}:1)` };
+  }
+
+  if (maxAspectRatio && aspectRatio > maxAspectRatio) {
+    return { valid: false, error: `Image proportions (${aspectRatio.toFixed(2)}:1) are wider than the maximum allowed (${maxAspectRatio}:1)` };
+  }
   
   return { valid: true };
 }
@@ -166,15 +188,59 @@ export async function uploadAvatar(
   });
 }
 
+/**
+ * Uploads a metadata-free original together with its WebP derivatives, which
+ * are stored next to the original as `<name>_<size>.webp`.
+ */
+export async function uploadImageWithDerivatives(
+  buffer: Buffer,
+  originalname: string,
+  mimeType: string,
+  sizes: DerivativeSize[],
+  options: Partial<UploadOptions> & { filename: string },
+  constraints?: Omit<ImageDimensions, 'width' | 'height'>
+): Promise<ImageUploadResult> {
+  if (constraints) {
+    const result = validateImageDimensions({ ...(await getImageDimensions(buffer)), ...constraints });
+    if (!result.valid) throw createError(400, result.error!);
+  }
+
+  const prepared = await prepareImage(buffer, mimeType, sizes);
+  const baseName = options.filename.replace(/\.[^.]+$/, '');
+
+  const original = await uploadSingleFile(prepared.original.buffer, originalname, mimeType, options);
+  const uploads = await Promise.all(
+    prepared.derivatives.map((derivative) =>
+      uploadSingleFile(derivative.buffer, originalname, 'image/webp', {
+        ...options,
+        filename: `${baseName}_${derivative.name}.webp`,
+      })
+    )
+  );
+
+  const derivatives: ImageDerivatives = {};
+  prepared.derivatives.forEach((derivative, index) => {
+    derivatives[derivative.name] = {
+      url: uploads[index].url,
+      key: uploads[index].key,
+      width: derivative.width,
+      height: derivative.height,
+    };
+  });
+
+  return { ...original, width: prepared.original.width, height: prepared.original.height, derivatives };
+}
+
 export async function uploadProductImage(
   buffer: Buffer,
   originalname: string,
+  mimeType: string,
   productId: string,
   index: number
-): Promise<UploadResult> {
+): Promise<ImageUploadResult> {
   const filename = generateUniqueFilename(originalname, `product_${productId}_${index}`);
   
-  return uploadSingleFile(buffer, originalname, 'image/jpeg', {
+  return uploadImageWithDerivatives(buffer, originalname, mimeType, imageConfig.derivatives.product, {
     folder: 'products',
     filename,
     metadata: { productId, imageIndex: String(index) },
@@ -184,28 +250,69 @@ export async function uploadProductImage(
 export async function uploadShopLogo(
   buffer: Buffer,
   originalname: string,
-  shopId: string
-): Promise<UploadResult> {
-  const filename = generateUniqueFilename(originalname, `logo_${shopId}`);
+  mimeType: string,
+  sellerId: string
+): Promise<ImageUploadResult> {
+  const filename = generateUniqueFilename(originalname, `logo_${sellerId}`);
   
-  return uploadSingleFile(buffer, originalname, 'image/jpeg', {
-    folder: 'shop-logos',
+  return uploadImageWithDerivatives(buffer, originalname, mimeType, imageConfig.derivatives.logo, {
+    folder: `shops/${sellerId}`,
     filename,
-    metadata: { shopId, type: 'logo' },
+    metadata: { sellerId, type: 'logo' },
   });
 }
 
 export async function uploadShopBanner(
   buffer: Buffer,
   originalname: string,
-  shopId: string
-): Promise<UploadResult> {
-  const filename = generateUniqueFilename(originalname, `banner_${shopId}`);
+  mimeType: string,
+  sellerId: string
+): Promise<ImageUploadResult> {
+  const filename = generateUniqueFilename(originalname, `banner_${sellerId}`);
   
-  return uploadSingleFile(buffer, originalname, 'image/jpeg', {
-    folder: 'shop-banners',
+  return uploadImageWithDerivatives(
+    buffer,
+    originalname,
+    mimeType,
+    imageConfig.derivatives.banner,
+    {
+      folder: `shops/${sellerId}`,
+      filename,
+      metadata: { sellerId, type: 'banner' },
+    },
+    imageConfig.banner
+  );
+}
+
+export async function uploadReturnPhoto(
+  buffer: Buffer,
+  originalname: string,
+  mimeType: string,
+  userId: string,
+  index: number
+): Promise<ImageUploadResult> {
+  const filename = generateUniqueFilename(originalname, `return_${userId}_${index}`);
+
+  return uploadImageWithDerivatives(buffer, originalname, mimeType, imageConfig.derivatives.return, {
+    folder: `returns/${userId}`,
+    filename,
+    metadata: { userId, type: 'return' },
+  });
+}
+
+export async function uploadReviewPhoto(
+  buffer: Buffer,
+  originalname: string,
+  mimeType: string,
+  userId: string,
+  index: number
+): Promise<ImageUploadResult> {
+  const filename = generateUniqueFilename(originalname, `review_${userId}_${index}`);
+
+  return uploadImageWithDerivatives(buffer, originalname, mimeType, imageConfig.derivatives.review, {
+    folder: `reviews/${userId}`,
     filename,
-    metadata: { shopId, type: 'banner' },
+    metadata: { userId, type: 'review' },
   });
 }
 
@@ -0,0 +1,64 @@
+import { generateSlug } from './slug.utils.js';
+
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+export type VariantAttributes = Record<string, string>;
+
+export const MAX_VARIANTS_PER_PRODUCT = 100;
+
+/**
+ * Builds every combination of the declared option values, e.g.
+ * Size [S, M] x Color [Red] -> [{ Size: 'S', Color: 'Red' }, { Size: 'M', Color: 'Red' }]
+ */
+export function buildVariantMatrix(options: VariantOption[]): VariantAttributes[] {
+  return options.reduce<VariantAttributes[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) =>
+        option.values.map((value) => ({ ...combination, [option.name]: value }))
+      ),
+    [{}]
+  );
+}
+
+export function countVariantCombinations(options: VariantOption[]): number {
+  return options.reduce((count, option) => count * option.values.length, 1);
+}
+
+/**
+ * Returns an error message when the attributes do not hold exactly one declared
+ * value for every option axis, or null when they are valid.
+ */
+export function validateVariantAttributes(options: VariantOption[], attributes: unknown): string | null {
+  if (!attributes || typeof attributes !== 'object' || Array.isArray(attributes)) {
+    return 'Variant attributes must be an object';
+  }
+
+  const entries = Object.entries(attributes as Record<string, unknown>);
+  const unknownKey = entries.find(([key]) => !options.some((option) => option.name === key));
+  if (unknownKey) return `Unknown option "${unknownKey[0]}"`;
+
+  for (const option of options) {
+    const value = (attributes as Record<string, unknown>)[option.name];
+    if (value === undefined) return `Missing value for option "${option.name}"`;
+    if (typeof value !== 'string' || !option.values.includes(value)) {
+      return `"${String(value)}" is not a valid value for option "${option.name}". Allowed: ${option.values.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// Stable key for comparing combinations regardless of JSON key order
+export function getCombinationKey(options: VariantOption[], attributes: unknown): string | null {
+  if (validateVariantAttributes(options, attributes)) return null;
+  return options.map((option) => (attributes as VariantAttributes)[option.name]).join('|');
+}
+
+export function buildVariantSku(productName: string, productId: string, options: VariantOption[], attributes: VariantAttributes): string {
+  const prefix = generateSlug(productName).split('-').slice(0, 2).join('-').slice(0, 12) || 'ITEM';
+  const valueCodes = options.map((option) => generateSlug(attributes[option.name] ?? '').replace(/-/g, '').slice(0, 4));
+  return [prefix, productId.slice(0, 4), ...valueCodes].filter(Boolean).join('-').toUpperCase();
+}